@@ -0,0 +1,228 @@
+/// BlockAccountant report of eras, points, tokens and levels for monitoring
+/// era length, revenue share switch and the treasury have no getters, so they are read from storage
+/// following the layout of BlockAccountant.sol and BlockAccountantLib.Storage.
+/// example
+/// const accountant = await connectAccountant(hre);
+/// const report = await accountantReport(accountant, { eras: 3, uids: [1, 2], tokens: [usdc.address] });
+/// report.nextEra // { era: 4, startBlock: 1296001, blocksLeft: 120, eta: "2024-04-01T00:00:00.000Z" }
+
+import { BigNumber, Contract, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { erc20, readAddress, readWord, resolveContract } from "../helper";
+import { tokenLabel } from "../membership";
+
+/// AccessControl._roles takes slot 0, Initializable slot 1, BlockAccountantLib.Storage starts at slot 2
+const ACCOUNTANT_SLOT = 2;
+const SLOTS = {
+  membership: ACCOUNTANT_SLOT + 5,
+  engine: ACCOUNTANT_SLOT + 6,
+  treasury: ACCOUNTANT_SLOT + 7,
+  stc1: ACCOUNTANT_SLOT + 9,
+  /// spb, era, revShare and dev share a slot
+  packed: ACCOUNTANT_SLOT + 10,
+};
+
+export interface AccountantConfig {
+  membership: string;
+  engine: string;
+  treasury: string;
+  stablecoin: string;
+  /// one stablecoin with decimals, reported amounts are converted to points against it
+  stc1: string;
+  dev: string;
+  /// block the accountant was initialized at, eras count from it
+  fb: number;
+  /// seconds per block
+  spb: number;
+  /// blocks per era
+  era: number;
+  /// eras only advance and points are only counted when revenue share is on
+  revShare: boolean;
+}
+
+export interface EraTotals {
+  era: number;
+  startBlock: number;
+  totalPoints: string;
+  /// total tokens reported per token symbol in token units
+  totalTokens: { [symbol: string]: string };
+}
+
+export interface UidReport {
+  uid: number;
+  level: number;
+  /// share of total points of the current era in percent
+  /// undefined while revenue share is off, BlockAccountant then answers for the caller and not the uid
+  ti?: number;
+  /// fee numerators over 1e6 for the current era, 10000 is 1%
+  makerFee: number;
+  takerFee: number;
+  /// points per era of the report, undefined while revenue share is off like ti
+  points?: { [era: number]: string };
+}
+
+export interface NextEra {
+  era: number;
+  startBlock: number;
+  blocksLeft: number;
+  /// estimate from spb
+  eta: string;
+  /// estimate from the average block time of recent blocks
+  observedEta?: string;
+}
+
+export interface AccountantReport {
+  timestamp: string;
+  chainId: number;
+  accountant: string;
+  block: number;
+  currentEra: number;
+  config: AccountantConfig;
+  /// undefined while revenue share is off, the era stays at 1
+  nextEra?: NextEra;
+  eras: EraTotals[];
+  uids: UidReport[];
+}
+
+export interface ReportOptions {
+  /// number of eras up to the current one
+  eras: number;
+  uids: number[];
+  tokens: string[];
+  /// blocks sampled for the observed block time
+  sample: number;
+}
+
+export async function connectAccountant(
+  hre: HardhatRuntimeEnvironment,
+  name = "BlockAccountant"
+) {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return hre.ethers.getContractAt(
+    "BlockAccountant",
+    await resolveContract(name, chainId)
+  );
+}
+
+export async function readAccountantConfig(
+  accountant: Contract
+): Promise<AccountantConfig> {
+  const packed = BigNumber.from(await readWord(accountant, SLOTS.packed));
+  return {
+    membership: await readAddress(accountant, SLOTS.membership),
+    engine: await readAddress(accountant, SLOTS.engine),
+    treasury: await readAddress(accountant, SLOTS.treasury),
+    stablecoin: await accountant.getStablecoin(),
+    stc1: BigNumber.from(await readWord(accountant, SLOTS.stc1)).toString(),
+    dev: await accountant.dev(),
+    fb: (await accountant.fb()).toNumber(),
+    spb: (await accountant.getSpb()).toNumber(),
+    era: packed.shr(32).and(0xffffffff).toNumber(),
+    revShare: !packed.shr(64).and(0xff).isZero(),
+  };
+}
+
+/// first block of an era, _getEra only leaves era 0 once more than era blocks passed
+export function eraStartBlock(config: AccountantConfig, era: number) {
+  if (era == 0) {
+    return config.fb;
+  }
+  return config.fb + era * config.era + (era == 1 ? 1 : 0);
+}
+
+/// seconds per block averaged over the last sample blocks
+async function observedBlockTime(accountant: Contract, sample: number) {
+  const provider = accountant.provider;
+  const latest = await provider.getBlock("latest");
+  const first = await provider.getBlock(Math.max(latest.number - sample, 0));
+  if (latest.number == first.number) {
+    return undefined;
+  }
+  return (latest.timestamp - first.timestamp) / (latest.number - first.number);
+}
+
+async function nextEra(
+  accountant: Contract,
+  config: AccountantConfig,
+  currentEra: number,
+  sample: number
+): Promise<NextEra | undefined> {
+  if (!config.revShare || config.era == 0) {
+    return undefined;
+  }
+  const latest = await accountant.provider.getBlock("latest");
+  const startBlock = eraStartBlock(config, currentEra + 1);
+  const blocksLeft = Math.max(startBlock - latest.number, 0);
+  const at = (secondsPerBlock: number) =>
+    new Date(
+      (latest.timestamp + blocksLeft * secondsPerBlock) * 1000
+    ).toISOString();
+  const observed = await observedBlockTime(accountant, sample);
+  return {
+    era: currentEra + 1,
+    startBlock,
+    blocksLeft,
+    eta: at(config.spb),
+    observedEta: observed === undefined ? undefined : at(observed),
+  };
+}
+
+export async function accountantReport(
+  accountant: Contract,
+  options: ReportOptions
+): Promise<AccountantReport> {
+  const { provider } = accountant;
+  const config = await readAccountantConfig(accountant);
+  const currentEra: number = await accountant.getCurrentEra();
+  const firstEra = Math.max(currentEra - options.eras + 1, 0);
+  const labels = await Promise.all(
+    options.tokens.map((token) => tokenLabel(erc20(token, provider)))
+  );
+
+  const eras: EraTotals[] = [];
+  for (let era = firstEra; era <= currentEra; era++) {
+    const totalTokens: { [symbol: string]: string } = {};
+    for (const [i, token] of options.tokens.entries()) {
+      totalTokens[labels[i].symbol] = utils.formatUnits(
+        await accountant.getTotalTokens(era, token),
+        labels[i].decimals
+      );
+    }
+    eras.push({
+      era,
+      startBlock: eraStartBlock(config, era),
+      totalPoints: (await accountant.getTotalPoints(era)).toString(),
+      totalTokens,
+    });
+  }
+
+  const uids: UidReport[] = [];
+  for (const uid of options.uids) {
+    const report: UidReport = {
+      uid,
+      level: await accountant.levelOf(uid),
+      makerFee: await accountant.feeOf(uid, true),
+      takerFee: await accountant.feeOf(uid, false),
+    };
+    if (config.revShare) {
+      report.ti = (await accountant.getTI(uid)).toNumber();
+      report.points = {};
+      for (let era = firstEra; era <= currentEra; era++) {
+        report.points[era] = (await accountant.pointOf(uid, era)).toString();
+      }
+    }
+    uids.push(report);
+  }
+
+  return {
+    timestamp: new Date().toISOString(),
+    chainId: (await provider.getNetwork()).chainId,
+    accountant: accountant.address,
+    block: await provider.getBlockNumber(),
+    currentEra,
+    config,
+    nextEra: await nextEra(accountant, config, currentEra, options.sample),
+    eras,
+    uids,
+  };
+}
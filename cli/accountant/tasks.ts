@@ -0,0 +1,94 @@
+import { task, types } from "hardhat/config";
+import { resolveToken } from "../helper";
+import { listTokens, StandardClient } from "../sdk";
+import { accountantReport, connectAccountant } from "./report";
+
+task("accountant:report", "Reports eras, points and levels of BlockAccountant")
+  .addOptionalParam(
+    "accountant",
+    "BlockAccountant address or address book name",
+    "BlockAccountant"
+  )
+  .addOptionalParam(
+    "eras",
+    "Eras to report up to the current one",
+    3,
+    types.int
+  )
+  .addOptionalParam(
+    "uids",
+    "Comma separated uids to report points and levels of"
+  )
+  .addOptionalParam(
+    "tokens",
+    "Comma separated token addresses or address book names, tokens of all pairs as default"
+  )
+  .addOptionalParam(
+    "sample",
+    "Recent blocks to average the block time over",
+    100,
+    types.int
+  )
+  .addFlag("json", "Print as JSON")
+  .setAction(async (args, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const accountant = await connectAccountant(hre, args.accountant);
+    const tokens =
+      args.tokens === undefined
+        ? await listTokens(
+            await StandardClient.fromAddressBook(
+              hre,
+              (
+                await hre.ethers.getSigners()
+              )[0]
+            )
+          )
+        : await Promise.all(
+            args.tokens
+              .split(",")
+              .map((token: string) => resolveToken(token.trim(), chainId))
+          );
+    const uids: number[] =
+      args.uids === undefined ? [] : args.uids.split(",").map(Number);
+    const report = await accountantReport(accountant, {
+      eras: args.eras,
+      uids,
+      tokens,
+      sample: args.sample,
+    });
+    if (args.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return report;
+    }
+
+    console.log(
+      `BlockAccountant ${report.accountant} at block ${report.block}, era ${report.currentEra}`
+    );
+    console.table(report.config);
+    if (report.nextEra === undefined) {
+      console.log("Revenue share is off, the era stays at 1");
+    } else {
+      const { era, startBlock, blocksLeft, eta, observedEta } = report.nextEra;
+      console.log(
+        `Era ${era} starts at block ${startBlock} in ${blocksLeft} blocks, ${eta} by spb` +
+          (observedEta ? `, ${observedEta} by recent blocks` : "")
+      );
+    }
+    console.table(
+      report.eras.map(({ totalTokens, ...era }) => ({ ...era, ...totalTokens }))
+    );
+    if (report.uids.length > 0) {
+      console.table(
+        report.uids.map(({ points, ...uid }) => ({
+          ...uid,
+          ...Object.fromEntries(
+            Object.entries(points ?? {}).map(([era, point]) => [
+              `era ${era}`,
+              point,
+            ])
+          ),
+        }))
+      );
+    }
+    return report;
+  });
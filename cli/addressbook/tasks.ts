@@ -0,0 +1,171 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  AddressBook,
+  addressBookFile,
+  fileExists,
+  loadAddressBook,
+  overwriteModeFromFlags,
+  readAddressBook,
+  recordAddress,
+} from "../helper";
+
+export interface DiffEntry {
+  name: string;
+  change: "added" | "removed" | "changed" | "no code" | "bytecode changed";
+  current?: string;
+  other?: string;
+}
+
+async function currentBook(hre: HardhatRuntimeEnvironment) {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return loadAddressBook(chainId);
+}
+
+/// loads another book from a chain id or a file path
+async function otherBook(against: string): Promise<AddressBook> {
+  if (/^\d+$/.test(against)) {
+    return loadAddressBook(Number(against));
+  }
+  if (!(await fileExists(against))) {
+    throw new Error(`Address book ${against} not found`);
+  }
+  return readAddressBook(against);
+}
+
+/// compares contract addresses of two books
+export function diffBooks(current: AddressBook, other: AddressBook) {
+  const entries: DiffEntry[] = [];
+  const names = new Set([
+    ...Object.keys(current.contracts),
+    ...Object.keys(other.contracts),
+  ]);
+  for (const name of Array.from(names).sort()) {
+    const a = current.contracts[name]?.address;
+    const b = other.contracts[name]?.address;
+    if (a === undefined) {
+      entries.push({ name, change: "removed", other: b });
+    } else if (b === undefined) {
+      entries.push({ name, change: "added", current: a });
+    } else if (a.toLowerCase() !== b.toLowerCase()) {
+      entries.push({ name, change: "changed", current: a, other: b });
+    }
+  }
+  return entries;
+}
+
+/// compares recorded contracts with the code deployed on the network
+export async function diffOnchain(
+  hre: HardhatRuntimeEnvironment,
+  book: AddressBook
+) {
+  const entries: DiffEntry[] = [];
+  for (const [name, info] of Object.entries(book.contracts)) {
+    const code = await hre.ethers.provider.getCode(info.address);
+    if (code == "0x") {
+      entries.push({ name, change: "no code", current: info.address });
+    } else if (
+      info.bytecodeHash !== undefined &&
+      hre.ethers.utils.keccak256(code) !== info.bytecodeHash
+    ) {
+      entries.push({
+        name,
+        change: "bytecode changed",
+        current: info.address,
+      });
+    }
+  }
+  return entries;
+}
+
+task("addressbook:list", "Lists contracts in the address book of the network")
+  .addFlag("json", "Print the address book as JSON")
+  .setAction(async ({ json }, hre) => {
+    const book = await currentBook(hre);
+    if (json) {
+      console.log(JSON.stringify(book, null, 2));
+      return book;
+    }
+    console.log(
+      `${addressBookFile(book.chainId)} (${book.chain}, chain id ${
+        book.chainId
+      })`
+    );
+    console.table(
+      Object.entries(book.contracts).map(([name, info]) => ({
+        name,
+        address: info.address,
+        artifact: info.artifact ?? "",
+        block: info.block ?? "",
+        deployer: info.deployer ?? "",
+      }))
+    );
+    console.log(`${Object.keys(book.steps).length} applied deploy steps`);
+    return book;
+  });
+
+task("addressbook:get", "Shows a contract and its deployment metadata")
+  .addParam("name", "Contract name")
+  .setAction(async ({ name }, hre) => {
+    const book = await currentBook(hre);
+    const info = book.contracts[name];
+    if (info === undefined) {
+      throw new Error(`${name} is not registered on chain ${book.chainId}`);
+    }
+    console.log(JSON.stringify(info, null, 2));
+    return info;
+  });
+
+task("addressbook:set", "Registers a contract address in the address book")
+  .addParam("name", "Contract name")
+  .addParam("address", "Contract address")
+  .addOptionalParam("artifact", "Artifact deployed at the address")
+  .addOptionalParam("tx", "Deployment tx hash to read metadata from")
+  .addFlag("yes", "Overwrite an existing entry without asking")
+  .addFlag("noOverwrite", "Keep an existing entry without asking")
+  .setAction(async ({ name, address, artifact, tx, yes, noOverwrite }, hre) => {
+    overwriteModeFromFlags(yes, noOverwrite);
+    const { ethers } = hre;
+    const { chainId } = await ethers.provider.getNetwork();
+    const code = await ethers.provider.getCode(address);
+    if (code == "0x") {
+      console.log(`Warning: there is no contract code at ${address}`);
+    }
+    const receipt =
+      tx === undefined
+        ? undefined
+        : await ethers.provider.getTransactionReceipt(tx);
+    const recorded = await recordAddress(name, chainId, address, {
+      artifact,
+      txHash: receipt?.transactionHash,
+      block: receipt?.blockNumber,
+      deployer: receipt?.from,
+      bytecodeHash: code == "0x" ? undefined : ethers.utils.keccak256(code),
+    });
+    if (recorded) {
+      console.log(`Recorded ${name} at ${address} on chain ${chainId}`);
+    }
+    return recorded;
+  });
+
+task(
+  "addressbook:diff",
+  "Compares the address book with deployed code, or with another book"
+)
+  .addOptionalParam(
+    "against",
+    "Chain id or file of the address book to compare with"
+  )
+  .setAction(async ({ against }, hre) => {
+    const book = await currentBook(hre);
+    const entries =
+      against === undefined
+        ? await diffOnchain(hre, book)
+        : diffBooks(book, await otherBook(against));
+    if (entries.length == 0) {
+      console.log("No differences");
+    } else {
+      console.table(entries);
+    }
+    return entries;
+  });
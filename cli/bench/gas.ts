@@ -0,0 +1,308 @@
+/// measures gas of matching calls against a seeded book on a local node
+/// every measurement starts from a snapshot of the seeded book, so results only depend on n and size.
+/// example
+/// const report = await runGasBenchmark(hre, { levels: 5, depth: 10, size: 100, step: 0.01, price: 1, ns: [1, 10, 20, 21], sizes: [1, 10, 30] });
+/// report.thresholds // { limitBuy: 21, marketSell: 21 }
+
+import { constants, Contract, Signer, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resetNonce, sendTx } from "../helper";
+import { PairInfo, StandardClient, TxResult } from "../sdk";
+
+export const BENCH_OPS = [
+  "limitBuy",
+  "marketSell",
+  "cancelOrders",
+  "rematchOrder",
+] as const;
+export type BenchOp = (typeof BENCH_OPS)[number];
+/// rematchOrder is nonReentrant and calls limitBuy or marketBuy which are nonReentrant too,
+/// so it always reverts and its samples are not gas data
+export const ALWAYS_REVERTS: BenchOp[] = ["rematchOrder"];
+/// ops measured unless others are given
+export const DEFAULT_OPS = BENCH_OPS.filter(
+  (op) => !ALWAYS_REVERTS.includes(op)
+);
+
+export interface BenchConfig {
+  /// price levels seeded on each side
+  levels: number;
+  /// orders seeded at each level
+  depth: number;
+  /// base amount of a seeded order
+  size: number;
+  /// distance between levels as a fraction of price
+  step: number;
+  /// price of the best levels
+  price: number;
+  /// match limits to sweep, cancelOrders ignores them
+  ns: number[];
+  /// order sizes to sweep as multiples of a seeded order
+  sizes: number[];
+  ops: BenchOp[];
+}
+
+export interface BenchSample {
+  op: BenchOp;
+  /// undefined for cancelOrders, which takes no match limit
+  n?: number;
+  /// multiple of a seeded order, number of orders canceled for cancelOrders
+  size: number;
+  status: "ok" | "TooManyMatches" | "reverted";
+  gasUsed?: number;
+  matches?: number;
+  reason?: string;
+}
+
+export interface BenchReport {
+  timestamp: string;
+  chainId: number;
+  /// keccak256 of MatchingEngine and Orderbook runtime code, differs when the contracts change
+  engineCodeHash: string;
+  orderbookCodeHash: string;
+  config: BenchConfig;
+  samples: BenchSample[];
+  /// lowest swept n reverting with TooManyMatches per op
+  thresholds: { [op: string]: number | undefined };
+  /// slope of gas used over matched orders per op
+  gasPerMatch: { [op: string]: number | undefined };
+}
+
+interface Seeded {
+  pair: PairInfo;
+  /// ids of seeded bids, best price first
+  bids: number[];
+  /// highest seeded ask price
+  topAsk: number;
+  /// lowest seeded bid price
+  lowBid: number;
+}
+
+const MOCK_TOKEN_ABI = [
+  "function mint(address to, uint256 amount)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+function fixed(value: number, decimals: number) {
+  return value.toFixed(Math.min(decimals, 8));
+}
+
+/// deploys a fresh base/quote pair of mock tokens so the book only has seeded orders
+async function deployPair(
+  hre: HardhatRuntimeEnvironment,
+  client: StandardClient,
+  accounts: Signer[]
+) {
+  const Token = await hre.ethers.getContractFactory("MockToken");
+  const base = await (await Token.deploy("Bench Base", "BB")).deployed();
+  const quote = await (await Token.deploy("Bench Quote", "BQ")).deployed();
+  for (const token of [base, quote]) {
+    for (const account of accounts) {
+      const address = await account.getAddress();
+      await sendTx(token, "mint", [address, constants.MaxUint256.div(4)]);
+      await sendTx(
+        new Contract(token.address, MOCK_TOKEN_ABI, account),
+        "approve",
+        [client.engine.address, constants.MaxUint256]
+      );
+    }
+  }
+  await sendTx(client.engine, "addPair", [base.address, quote.address]);
+  return client.getPair(base.address, quote.address);
+}
+
+/// places depth orders at each level, asks above and bids below price
+async function seedBook(
+  maker: StandardClient,
+  pair: PairInfo,
+  config: BenchConfig
+): Promise<Seeded> {
+  const bids: number[] = [];
+  for (let level = 0; level < config.levels; level++) {
+    const ask = config.price * (1 + config.step * (level + 1));
+    const bid = config.price * (1 - config.step * (level + 1));
+    for (let i = 0; i < config.depth; i++) {
+      await maker.limitSell({
+        base: pair.base,
+        quote: pair.quote,
+        price: fixed(ask, 8),
+        amount: fixed(config.size, pair.bDecimal),
+      });
+      const placed = await maker.limitBuy({
+        base: pair.base,
+        quote: pair.quote,
+        price: fixed(bid, 8),
+        amount: fixed(config.size * bid, pair.qDecimal),
+      });
+      bids.push(placed.id);
+    }
+  }
+  return {
+    pair,
+    bids,
+    topAsk: config.price * (1 + config.step * config.levels),
+    lowBid: config.price * (1 - config.step * config.levels),
+  };
+}
+
+function matchesOf(result: TxResult) {
+  return result.events.filter((event) => event.name === "OrderMatched").length;
+}
+
+/// least squares slope of gas over matches
+function slope(points: { x: number; y: number }[]): number | undefined {
+  if (new Set(points.map((p) => p.x)).size < 2) {
+    return undefined;
+  }
+  const mx = points.reduce((s, p) => s + p.x, 0) / points.length;
+  const my = points.reduce((s, p) => s + p.y, 0) / points.length;
+  const num = points.reduce((s, p) => s + (p.x - mx) * (p.y - my), 0);
+  const den = points.reduce((s, p) => s + (p.x - mx) ** 2, 0);
+  return Math.round(num / den);
+}
+
+export async function runGasBenchmark(
+  hre: HardhatRuntimeEnvironment,
+  config: BenchConfig
+): Promise<BenchReport> {
+  const { ethers } = hre;
+  const [deployer, maker, taker] = await ethers.getSigners();
+  const client = await StandardClient.fromAddressBook(hre, deployer);
+  const makerClient = client.connect(maker);
+  const takerClient = client.connect(taker);
+  const signers = [deployer, maker, taker];
+
+  const pair = await deployPair(hre, client, [maker, taker]);
+  const seeded = await seedBook(makerClient, pair, config);
+  const { base, quote } = pair;
+  const snapshot = async () => ethers.provider.send("evm_snapshot", []);
+  let id: string = await snapshot();
+
+  /// runs a measurement on the seeded book and rolls the chain back afterwards
+  const measure = async (
+    sample: Omit<BenchSample, "status">,
+    send: () => Promise<TxResult>
+  ): Promise<BenchSample> => {
+    try {
+      const result = await send();
+      return {
+        ...sample,
+        status: "ok",
+        gasUsed: result.receipt?.gasUsed.toNumber(),
+        matches: matchesOf(result),
+      };
+    } catch (e: any) {
+      const tooMany = /TooManyMatches/.test(e.message);
+      return {
+        ...sample,
+        status: tooMany ? "TooManyMatches" : "reverted",
+        reason: e.message,
+      };
+    } finally {
+      await ethers.provider.send("evm_revert", [id]);
+      id = await snapshot();
+      for (const signer of signers) {
+        await resetNonce(signer);
+      }
+    }
+  };
+
+  const samples: BenchSample[] = [];
+  for (const op of config.ops) {
+    for (const size of config.sizes) {
+      const baseAmount = config.size * size;
+      if (op === "cancelOrders") {
+        const orders = seeded.bids.slice(0, size).map((orderId) => ({
+          base,
+          quote,
+          isBid: true,
+          orderId,
+        }));
+        samples.push(
+          await measure({ op, size: orders.length }, () =>
+            makerClient.cancelOrders(orders)
+          )
+        );
+        continue;
+      }
+      for (const n of config.ns) {
+        let send: () => Promise<TxResult>;
+        if (op === "limitBuy") {
+          send = () =>
+            takerClient.limitBuy({
+              base,
+              quote,
+              price: fixed(seeded.topAsk, 8),
+              amount: fixed(baseAmount * seeded.topAsk, pair.qDecimal),
+              n,
+            });
+        } else if (op === "marketSell") {
+          send = () =>
+            takerClient.marketSell({
+              base,
+              quote,
+              amount: fixed(baseAmount, pair.bDecimal),
+              n,
+            });
+        } else {
+          // a resting bid below the book is rematched at the top ask
+          send = async () => {
+            const resting = await takerClient.limitBuy({
+              base,
+              quote,
+              price: fixed(seeded.lowBid * (1 - config.step), 8),
+              amount: fixed(baseAmount * seeded.topAsk, pair.qDecimal),
+              n: 0,
+            });
+            return takerClient.rematchOrder({
+              base,
+              quote,
+              isBid: true,
+              orderId: resting.id,
+              price: fixed(seeded.topAsk, 8),
+              n,
+            });
+          };
+        }
+        samples.push(await measure({ op, n, size }, send));
+      }
+    }
+  }
+
+  const thresholds: BenchReport["thresholds"] = {};
+  const gasPerMatch: BenchReport["gasPerMatch"] = {};
+  for (const op of config.ops) {
+    const own = samples.filter((sample) => sample.op === op);
+    thresholds[op] = own
+      .filter((sample) => sample.status === "TooManyMatches")
+      .map((sample) => sample.n!)
+      .sort((a, b) => a - b)[0];
+    gasPerMatch[op] = slope(
+      own
+        .filter((sample) => sample.status === "ok")
+        .map((sample) => ({
+          x: op === "cancelOrders" ? sample.size : sample.matches!,
+          y: sample.gasUsed!,
+        }))
+    );
+  }
+
+  const code = async (address: string) =>
+    utils.keccak256(await ethers.provider.getCode(address));
+  // orderbooks are clones, so the implementation holds the code
+  const factory = new Contract(
+    await client.engine.orderbookFactory(),
+    ["function impl() view returns (address)"],
+    ethers.provider
+  );
+  return {
+    timestamp: new Date().toISOString(),
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    engineCodeHash: await code(client.engine.address),
+    orderbookCodeHash: await code(await factory.impl()),
+    config,
+    samples,
+    thresholds,
+    gasPerMatch,
+  };
+}
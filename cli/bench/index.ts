@@ -0,0 +1,4 @@
+import "./tasks";
+
+export * from "./gas";
+export * from "./report";
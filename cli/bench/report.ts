@@ -0,0 +1,96 @@
+/// markdown rendering of gas benchmark reports, with deltas against a baseline run
+/// example
+/// const md = toMarkdown(report, JSON.parse(await fs.readFile("data/bench/main.json", "utf8")));
+
+import { ALWAYS_REVERTS, BenchReport, BenchSample } from "./gas";
+import { MAX_MATCHES } from "../sdk";
+
+function sampleKey(sample: BenchSample) {
+  return `${sample.op}/${sample.n ?? "-"}/${sample.size}`;
+}
+
+function delta(gas?: number, before?: number) {
+  if (gas === undefined || before === undefined) {
+    return "";
+  }
+  const diff = gas - before;
+  const percent = ((diff * 100) / before).toFixed(1);
+  return `${diff >= 0 ? "+" : ""}${diff} (${diff >= 0 ? "+" : ""}${percent}%)`;
+}
+
+export function toMarkdown(report: BenchReport, baseline?: BenchReport) {
+  const { config } = report;
+  const previous: { [key: string]: BenchSample } = {};
+  for (const sample of baseline?.samples ?? []) {
+    previous[sampleKey(sample)] = sample;
+  }
+  const lines = [
+    `# Gas benchmark ${report.timestamp}`,
+    "",
+    `Chain ${report.chainId}, MatchingEngine code \`${report.engineCodeHash}\`, Orderbook code \`${report.orderbookCodeHash}\``,
+    "",
+    `Book: ${config.levels} levels x ${config.depth} orders of ${
+      config.size
+    } base on each side, ${config.step * 100}% apart from ${config.price}`,
+  ];
+  if (baseline) {
+    lines.push(
+      "",
+      `Baseline ${baseline.timestamp}, MatchingEngine code \`${baseline.engineCodeHash}\``
+    );
+  }
+
+  lines.push("", "## Thresholds", "");
+  lines.push("| op | TooManyMatches from n | gas per match or order |");
+  lines.push("| --- | --- | --- |");
+  for (const op of config.ops) {
+    // cancelOrders takes no match limit, its gas is per canceled order
+    const threshold =
+      op === "cancelOrders" ? "n/a" : report.thresholds[op] ?? "not reached";
+    lines.push(`| ${op} | ${threshold} | ${report.gasPerMatch[op] ?? ""} |`);
+  }
+  lines.push(
+    "",
+    `MatchingEngine reverts when n is above ${MAX_MATCHES} and orders are matched.`
+  );
+  for (const op of config.ops.filter((op) => ALWAYS_REVERTS.includes(op))) {
+    lines.push(
+      "",
+      `${op} always reverts: it is nonReentrant and calls limitBuy or marketBuy, which are nonReentrant too. Its samples are not gas data.`
+    );
+  }
+
+  lines.push("", "## Samples", "");
+  lines.push(
+    `| op | n | size | status | matches | gas used |${
+      baseline ? " vs baseline |" : ""
+    }`
+  );
+  lines.push(
+    `| --- | --- | --- | --- | --- | --- |${baseline ? " --- |" : ""}`
+  );
+  for (const sample of report.samples) {
+    const before = previous[sampleKey(sample)];
+    const cells = [
+      sample.op,
+      sample.n ?? "-",
+      sample.size,
+      sample.status,
+      sample.matches ?? "",
+      sample.gasUsed ?? "",
+    ];
+    if (baseline) {
+      cells.push(delta(sample.gasUsed, before?.gasUsed));
+    }
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+
+  const reverted = report.samples.filter((s) => s.status === "reverted");
+  if (reverted.length > 0) {
+    lines.push("", "## Reverts", "");
+    for (const sample of reverted) {
+      lines.push(`- ${sampleKey(sample)}: ${sample.reason}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,106 @@
+import fs from "fs/promises";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { configureExecutor, setupExecutor } from "../helper";
+import {
+  ALWAYS_REVERTS,
+  BENCH_OPS,
+  BenchOp,
+  BenchReport,
+  DEFAULT_OPS,
+  runGasBenchmark,
+} from "./gas";
+import { toMarkdown } from "./report";
+
+function parseList(list: string): number[] {
+  return list.split(",").map((item) => {
+    const value = Number(item.trim());
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid number ${item} in ${list}`);
+    }
+    return value;
+  });
+}
+
+task("bench:gas", "Measures gas of matching calls over n and order sizes")
+  .addOptionalParam("levels", "Price levels seeded on each side", 5, types.int)
+  .addOptionalParam("depth", "Orders seeded at each level", 10, types.int)
+  .addOptionalParam("size", "Base amount of a seeded order", 100, types.float)
+  .addOptionalParam(
+    "step",
+    "Distance between levels as a fraction of price",
+    0.01,
+    types.float
+  )
+  .addOptionalParam("price", "Price of the best levels", 1, types.float)
+  .addOptionalParam("ns", "Match limits to sweep", "1,2,5,10,15,20,21,25")
+  .addOptionalParam(
+    "sizes",
+    "Order sizes to sweep as multiples of a seeded order",
+    "1,5,10,25"
+  )
+  .addOptionalParam(
+    "ops",
+    `Operations to measure of ${BENCH_OPS.join(", ")}`,
+    DEFAULT_OPS.join(",")
+  )
+  .addOptionalParam(
+    "out",
+    "Report path without extension, .json and .md are written",
+    "data/bench/gas"
+  )
+  .addOptionalParam("baseline", "JSON report of an earlier run to compare with")
+  .setAction(async (args, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    if (chainId !== 31337) {
+      throw new Error(
+        `bench:gas reverts the chain to snapshots and only runs on a local node, chain id is ${chainId}`
+      );
+    }
+    const ops = args.ops.split(",").map((op: string) => op.trim());
+    for (const op of ops) {
+      if (!BENCH_OPS.includes(op)) {
+        throw new Error(`Unknown op ${op}, expected ${BENCH_OPS.join(", ")}`);
+      }
+    }
+    for (const op of ops.filter((op: BenchOp) => ALWAYS_REVERTS.includes(op))) {
+      console.log(
+        `${op} always reverts as a nonReentrant call into nonReentrant orders, its samples are not gas data`
+      );
+    }
+    await setupExecutor(hre, {});
+    configureExecutor({ quiet: true });
+
+    const report = await runGasBenchmark(hre, {
+      levels: args.levels,
+      depth: args.depth,
+      size: args.size,
+      step: args.step,
+      price: args.price,
+      ns: parseList(args.ns),
+      sizes: parseList(args.sizes),
+      ops: ops as BenchOp[],
+    });
+    const baseline: BenchReport | undefined =
+      args.baseline === undefined
+        ? undefined
+        : JSON.parse(await fs.readFile(args.baseline, { encoding: "utf8" }));
+
+    await fs.mkdir(path.dirname(args.out), { recursive: true });
+    await fs.writeFile(`${args.out}.json`, JSON.stringify(report, null, 2), {
+      encoding: "utf8",
+    });
+    await fs.writeFile(`${args.out}.md`, toMarkdown(report, baseline), {
+      encoding: "utf8",
+    });
+    console.table(report.samples.map(({ reason, ...sample }) => sample));
+    console.table(
+      ops.map((op: string) => ({
+        op,
+        tooManyMatchesFrom: report.thresholds[op],
+        gasPerMatch: report.gasPerMatch[op],
+      }))
+    );
+    console.log(`Written to ${args.out}.json and ${args.out}.md`);
+    return report;
+  });
@@ -0,0 +1,421 @@
+/// STND/STNDX lanes over Chainlink CCIP
+/// STNDX mints its whole supply on the home chain, where a lock/release pool holds what is bridged out.
+/// STND starts empty on the other chains, where a burn/mint pool holding MINTER_ROLE mints what comes in.
+/// Pools and routers are Chainlink contracts recorded in the address book of each chain as STNDPool,
+/// STNDXPool and CCIPRouter, so the tasks talk to them through ABI fragments of TokenPool v1.5.1 and IRouterClient.
+/// On localhost, ccip:local deploys MockCCIPRouter and a MockTokenPool wired to its own chain instead.
+/// example
+/// const chains = await loadChains(defaultChainsFile(hre));
+/// const lane = await connectLane(hre, chains);
+/// const updates = await remoteChainUpdates(lane, chains, { outbound: NO_LIMIT, inbound: NO_LIMIT });
+/// const supplies = await Promise.all(Object.values(chains).map((chain) => chainSupply(hre, chain)));
+
+import fs from "fs/promises";
+import path from "path";
+import {
+  BigNumber,
+  constants,
+  Contract,
+  providers,
+  Signer,
+  utils,
+} from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { erc20, getAddress, resolveContract } from "../helper";
+
+export type CcipToken = "STND" | "STNDX";
+export type PoolKind = "burnMint" | "lockRelease";
+
+export interface CcipChain {
+  key: string;
+  /// hardhat network the rpc url is taken from
+  network?: string;
+  /// env variable with the rpc url, for chains without a hardhat network
+  rpcEnv?: string;
+  chainId: number;
+  /// CCIP chain selector as a decimal string, it does not fit a js number
+  chainSelector: string;
+  token: CcipToken;
+  pool: PoolKind;
+}
+
+export type CcipChains = { [key: string]: CcipChain };
+
+/// both tokens are named ERC20MintablePausableBurnable, so they are deployed by fully qualified name
+export const TOKEN_ARTIFACTS: { [token in CcipToken]: string } = {
+  STND: "contracts/stnd/ccip/STND.sol:ERC20MintablePausableBurnable",
+  STNDX: "contracts/stnd/ccip/STNDX.sol:ERC20MintablePausableBurnable",
+};
+
+export const TOKEN_ARGS: { [token in CcipToken]: any[] } = {
+  STND: ["Standard (CCIP)", "STND"],
+  STNDX: [],
+};
+
+export const ROUTER = "CCIPRouter";
+
+/// Client._argsToBytes prefix of EVMExtraArgsV1
+const EVM_EXTRA_ARGS_V1_TAG = "0x97a657c9";
+
+const RATE_LIMIT = "tuple(bool isEnabled, uint128 capacity, uint128 rate)";
+
+const POOL_ABI = [
+  "function getToken() view returns (address)",
+  "function getSupportedChains() view returns (uint64[])",
+  "function getRemotePools(uint64 remoteChainSelector) view returns (bytes[])",
+  "function getRemoteToken(uint64 remoteChainSelector) view returns (bytes)",
+  `function applyChainUpdates(uint64[] remoteChainSelectorsToRemove, tuple(uint64 remoteChainSelector, bytes[] remotePoolAddresses, bytes remoteTokenAddress, ${RATE_LIMIT} outboundRateLimiterConfig, ${RATE_LIMIT} inboundRateLimiterConfig)[] chainsToAdd)`,
+];
+
+const MESSAGE =
+  "tuple(bytes receiver, bytes data, tuple(address token, uint256 amount)[] tokenAmounts, address feeToken, bytes extraArgs)";
+
+const ROUTER_ABI = [
+  "function isChainSupported(uint64 chainSelector) view returns (bool)",
+  `function getFee(uint64 destinationChainSelector, ${MESSAGE} message) view returns (uint256)`,
+  `function ccipSend(uint64 destinationChainSelector, ${MESSAGE} message) payable returns (bytes32)`,
+];
+
+export interface RateLimit {
+  isEnabled: boolean;
+  capacity: BigNumber;
+  rate: BigNumber;
+}
+
+export const NO_LIMIT: RateLimit = {
+  isEnabled: false,
+  capacity: BigNumber.from(0),
+  rate: BigNumber.from(0),
+};
+
+export interface ChainUpdate {
+  remoteChainSelector: string;
+  remotePoolAddresses: string[];
+  remoteTokenAddress: string;
+  outboundRateLimiterConfig: RateLimit;
+  inboundRateLimiterConfig: RateLimit;
+}
+
+export interface Lane {
+  chain: CcipChain;
+  signer: Signer;
+  token: Contract;
+  /// undefined until the pool is recorded with ccip:configure
+  pool?: Contract;
+}
+
+export interface ChainSupply {
+  chain: string;
+  token: CcipToken;
+  address?: string;
+  totalSupply?: BigNumber;
+  /// held by the lock/release pool, bridged out to the other chains
+  locked?: BigNumber;
+  error?: string;
+}
+
+/// chains file of the project, resolved from its root so tasks run from any directory
+export function defaultChainsFile(hre: HardhatRuntimeEnvironment) {
+  return path.join(hre.config.paths.root, "cli", "ccip", "chains.json");
+}
+
+export function poolName(token: CcipToken) {
+  return `${token}Pool`;
+}
+
+export async function loadChains(file: string) {
+  const raw = JSON.parse(await fs.readFile(file, { encoding: "utf8" }));
+  const chains: CcipChains = {};
+  for (const [key, chain] of Object.entries<any>(raw)) {
+    if (!(chain.token in TOKEN_ARTIFACTS)) {
+      throw new Error(
+        `Chain ${key} has token ${chain.token}, not STND or STNDX`
+      );
+    }
+    if (!["burnMint", "lockRelease"].includes(chain.pool)) {
+      throw new Error(
+        `Chain ${key} has pool ${chain.pool}, not burnMint or lockRelease`
+      );
+    }
+    chains[key] = { ...chain, key, chainSelector: String(chain.chainSelector) };
+  }
+  return chains;
+}
+
+export function chainOf(chains: CcipChains, chainId: number): CcipChain {
+  const chain = Object.values(chains).find(
+    (chain) => chain.chainId === chainId
+  );
+  if (chain === undefined) {
+    throw new Error(`Chain ${chainId} has no CCIP lane in the chains file`);
+  }
+  return chain;
+}
+
+export function chainByKey(chains: CcipChains, key: string): CcipChain {
+  const chain = chains[key];
+  if (chain === undefined) {
+    throw new Error(
+      `Unknown chain ${key}, expected one of ${Object.keys(chains).join(", ")}`
+    );
+  }
+  return chain;
+}
+
+/// provider of a chain, the connected network when it is that chain
+export async function chainProvider(
+  hre: HardhatRuntimeEnvironment,
+  chain: CcipChain
+): Promise<providers.Provider> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  if (chainId === chain.chainId) {
+    return hre.ethers.provider;
+  }
+  const network: any =
+    chain.network === undefined
+      ? undefined
+      : hre.config.networks[chain.network];
+  const url =
+    (chain.rpcEnv === undefined ? undefined : process.env[chain.rpcEnv]) ??
+    network?.url;
+  if (url === undefined) {
+    throw new Error(
+      `No rpc url for ${chain.key}, set ${chain.rpcEnv ?? "a hardhat network"}`
+    );
+  }
+  return new providers.JsonRpcProvider(url, chain.chainId);
+}
+
+export function poolContract(address: string, signer: Signer) {
+  return new Contract(address, POOL_ABI, signer);
+}
+
+export function routerContract(address: string, signer: Signer) {
+  return new Contract(address, ROUTER_ABI, signer);
+}
+
+/// token and pool of the connected chain
+export async function connectLane(
+  hre: HardhatRuntimeEnvironment,
+  chains: CcipChains,
+  signerAddress?: string
+): Promise<Lane> {
+  const { ethers } = hre;
+  const signer: Signer =
+    signerAddress === undefined
+      ? (await ethers.getSigners())[0]
+      : await ethers.getSigner(signerAddress);
+  const { chainId } = await ethers.provider.getNetwork();
+  const chain = chainOf(chains, chainId);
+  const token = await ethers.getContractAt(
+    TOKEN_ARTIFACTS[chain.token],
+    await resolveContract(chain.token, chainId),
+    signer
+  );
+  const pool = await getAddress(poolName(chain.token), chainId);
+  return {
+    chain,
+    signer,
+    token,
+    pool: pool === undefined ? undefined : poolContract(pool, signer),
+  };
+}
+
+function encodeAddress(address: string) {
+  return utils.defaultAbiCoder.encode(["address"], [address]);
+}
+
+/// pool configs of every other chain with a recorded token and pool, chains missing either are returned as skipped
+export async function remoteChainUpdates(
+  lane: Lane,
+  chains: CcipChains,
+  limits: { outbound: RateLimit; inbound: RateLimit },
+  only?: string[]
+) {
+  const updates: ChainUpdate[] = [];
+  const skipped: { chain: string; reason: string }[] = [];
+  for (const remote of Object.values(chains)) {
+    if (remote.key === lane.chain.key || (only && !only.includes(remote.key))) {
+      continue;
+    }
+    const token = await getAddress(remote.token, remote.chainId);
+    const pool = await getAddress(poolName(remote.token), remote.chainId);
+    if (token === undefined || pool === undefined) {
+      skipped.push({
+        chain: remote.key,
+        reason: `${
+          token === undefined ? remote.token : poolName(remote.token)
+        } is not in the address book of chain ${remote.chainId}`,
+      });
+      continue;
+    }
+    updates.push({
+      remoteChainSelector: remote.chainSelector,
+      remotePoolAddresses: [encodeAddress(pool)],
+      remoteTokenAddress: encodeAddress(token),
+      outboundRateLimiterConfig: limits.outbound,
+      inboundRateLimiterConfig: limits.inbound,
+    });
+  }
+  return { updates, skipped };
+}
+
+/// pool config wiring a chain to its own pool, as a local simulator delivers messages on the sending chain
+export function selfChainUpdate(
+  chain: CcipChain,
+  token: string,
+  pool: string
+): ChainUpdate {
+  return {
+    remoteChainSelector: chain.chainSelector,
+    remotePoolAddresses: [encodeAddress(pool)],
+    remoteTokenAddress: encodeAddress(token),
+    outboundRateLimiterConfig: NO_LIMIT,
+    inboundRateLimiterConfig: NO_LIMIT,
+  };
+}
+
+/// splits updates into chains to add and chains to replace, updates matching the pool already are dropped
+export async function pendingChainUpdates(
+  pool: Contract,
+  updates: ChainUpdate[]
+) {
+  const supported: string[] = (await pool.getSupportedChains()).map(
+    (selector: BigNumber) => selector.toString()
+  );
+  const remove: string[] = [];
+  const add: ChainUpdate[] = [];
+  for (const update of updates) {
+    if (!supported.includes(update.remoteChainSelector)) {
+      add.push(update);
+      continue;
+    }
+    const [pools, token]: [string[], string] = await Promise.all([
+      pool.getRemotePools(update.remoteChainSelector),
+      pool.getRemoteToken(update.remoteChainSelector),
+    ]);
+    const same =
+      token.toLowerCase() === update.remoteTokenAddress.toLowerCase() &&
+      pools.length === update.remotePoolAddresses.length &&
+      pools.every(
+        (address, i) =>
+          address.toLowerCase() === update.remotePoolAddresses[i].toLowerCase()
+      );
+    if (!same) {
+      remove.push(update.remoteChainSelector);
+      add.push(update);
+    }
+  }
+  return { remove, add };
+}
+
+/// supply of the token on a chain, errors are reported per chain so one unreachable chain does not hide the others
+export async function chainSupply(
+  hre: HardhatRuntimeEnvironment,
+  chain: CcipChain
+): Promise<ChainSupply> {
+  const supply: ChainSupply = { chain: chain.key, token: chain.token };
+  try {
+    supply.address = await getAddress(chain.token, chain.chainId);
+    if (supply.address === undefined) {
+      throw new Error(
+        `${chain.token} is not in the address book of chain ${chain.chainId}`
+      );
+    }
+    const token = erc20(supply.address, await chainProvider(hre, chain));
+    supply.totalSupply = await token.totalSupply();
+    const pool = await getAddress(poolName(chain.token), chain.chainId);
+    if (chain.pool === "lockRelease" && pool !== undefined) {
+      supply.locked = await token.balanceOf(pool);
+    }
+  } catch (e: any) {
+    supply.error = e.message;
+  }
+  return supply;
+}
+
+/// tokens locked on lock/release chains against tokens minted on burn/mint chains, a gap is in flight or a mismatch
+export function supplyBalance(chains: CcipChains, supplies: ChainSupply[]) {
+  const sum = (pool: PoolKind, field: "locked" | "totalSupply") =>
+    supplies
+      .filter((supply) => chains[supply.chain].pool === pool)
+      .reduce(
+        (total, supply) => total.add(supply[field] ?? 0),
+        BigNumber.from(0)
+      );
+  const locked = sum("lockRelease", "locked");
+  const minted = sum("burnMint", "totalSupply");
+  return {
+    locked,
+    minted,
+    gap: locked.sub(minted),
+    complete: supplies.every((supply) => supply.error === undefined),
+  };
+}
+
+/// EVM2AnyMessage moving tokens to an EOA, fees in native gas when feeToken is the zero address
+export function transferMessage(
+  receiver: string,
+  token: string,
+  amount: BigNumber,
+  feeToken: string,
+  gasLimit = 0
+) {
+  return {
+    receiver: encodeAddress(receiver),
+    data: "0x",
+    tokenAmounts: [{ token, amount }],
+    feeToken,
+    extraArgs: utils.hexConcat([
+      EVM_EXTRA_ARGS_V1_TAG,
+      utils.defaultAbiCoder.encode(["uint256"], [gasLimit]),
+    ]),
+  };
+}
+
+/// tokens a local lane delivered to a receiver in the sending tx, minted by a burn/mint pool or released by a lock/release pool.
+/// a balance can not tell it when the receiver is the sender, as the burn and the mint cancel out.
+export function deliveredIn(
+  receipt: providers.TransactionReceipt,
+  token: string,
+  pool: string,
+  receiver: string
+): BigNumber {
+  const iface = new utils.Interface([
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+  ]);
+  const sources = [constants.AddressZero, pool].map((address) =>
+    address.toLowerCase()
+  );
+  return receipt.logs
+    .filter(
+      (log) =>
+        log.address.toLowerCase() === token.toLowerCase() &&
+        log.topics[0] === iface.getEventTopic("Transfer")
+    )
+    .map((log) => iface.parseLog(log))
+    .filter(
+      (event) =>
+        sources.includes(event.args.from.toLowerCase()) &&
+        event.args.to.toLowerCase() === receiver.toLowerCase()
+    )
+    .reduce((total, event) => total.add(event.args.value), BigNumber.from(0));
+}
+
+/// polls a balance until it reaches a target, returns the last balance
+export async function waitForBalance(
+  token: Contract,
+  owner: string,
+  target: BigNumber,
+  timeout: number,
+  interval = 15000
+): Promise<BigNumber> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const balance: BigNumber = await token.balanceOf(owner);
+    if (balance.gte(target) || Date.now() >= deadline) {
+      return balance;
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
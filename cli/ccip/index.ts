@@ -0,0 +1,4 @@
+import "./tasks";
+
+export * from "./ccip";
+export * from "./stndx";
@@ -0,0 +1,104 @@
+/// reproducible verification of STNDX from the standard JSON input checked in as stndx.json
+/// the input is compiled with the solc build hardhat downloads, and its runtime code is compared with
+/// the deployed code before the same input is submitted to an etherscan compatible explorer.
+/// example
+/// const input = await loadStandardInput("stndx.json");
+/// const build = await compileStandardInput(hre, input, "0.8.17", STNDX_CONTRACT);
+/// const match = compareRuntimeCode(build.deployedBytecode, await provider.getCode(stndx));
+
+import fs from "fs/promises";
+import { utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+  TASK_COMPILE_SOLIDITY_RUN_SOLC,
+  TASK_COMPILE_SOLIDITY_RUN_SOLCJS,
+} from "hardhat/builtin-tasks/task-names";
+
+export const STNDX_INPUT = "stndx.json";
+export const STNDX_CONTRACT =
+  "contracts/stnd/ccip/STNDX.sol:ERC20MintablePausableBurnable";
+
+export type CodeMatch = "exact" | "metadata differs" | "mismatch";
+
+export interface StandardBuild {
+  /// solc version with its commit, as explorers expect it
+  longVersion: string;
+  deployedBytecode: string;
+}
+
+export async function loadStandardInput(file = STNDX_INPUT) {
+  const input = JSON.parse(await fs.readFile(file, { encoding: "utf8" }));
+  if (input.language !== "Solidity" || input.sources === undefined) {
+    throw new Error(`${file} is not a solidity standard JSON input`);
+  }
+  return input;
+}
+
+/// compiles a standard JSON input and returns the runtime code of a contract named source:contract
+export async function compileStandardInput(
+  hre: HardhatRuntimeEnvironment,
+  input: any,
+  solcVersion: string,
+  contract: string
+): Promise<StandardBuild> {
+  const separator = contract.lastIndexOf(":");
+  const source = contract.slice(0, separator);
+  const name = contract.slice(separator + 1);
+  const build = await hre.run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, {
+    quiet: true,
+    solcVersion,
+  });
+  const output = build.isSolcJs
+    ? await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, {
+        input,
+        solcJsPath: build.compilerPath,
+      })
+    : await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLC, {
+        input,
+        solcPath: build.compilerPath,
+      });
+  const errors = (output.errors ?? []).filter(
+    (error: any) => error.severity === "error"
+  );
+  if (errors.length > 0) {
+    throw new Error(
+      `${contract} does not compile: ${errors
+        .map((error: any) => error.formattedMessage ?? error.message)
+        .join("\n")}`
+    );
+  }
+  const compiled = output.contracts?.[source]?.[name];
+  if (compiled === undefined) {
+    throw new Error(`The input has no contract ${contract}`);
+  }
+  return {
+    longVersion: build.longVersion,
+    deployedBytecode: "0x" + compiled.evm.deployedBytecode.object,
+  };
+}
+
+/// runtime code without the CBOR metadata solc appends, its length is in the last two bytes
+export function stripMetadata(code: string) {
+  const bytes = utils.arrayify(code);
+  if (bytes.length < 2) {
+    return code.toLowerCase();
+  }
+  const length = (bytes[bytes.length - 2] << 8) + bytes[bytes.length - 1];
+  if (length + 2 > bytes.length) {
+    return code.toLowerCase();
+  }
+  return utils.hexlify(bytes.slice(0, bytes.length - length - 2));
+}
+
+export function compareRuntimeCode(
+  compiled: string,
+  deployed: string
+): CodeMatch {
+  if (compiled.toLowerCase() === deployed.toLowerCase()) {
+    return "exact";
+  }
+  return stripMetadata(compiled) === stripMetadata(deployed)
+    ? "metadata differs"
+    : "mismatch";
+}
@@ -0,0 +1,549 @@
+import { BigNumber, constants, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import {
+  ConfigurableTaskDefinition,
+  HardhatRuntimeEnvironment,
+} from "hardhat/types";
+import {
+  addExecutorParams,
+  ChainId,
+  deployAndRecord,
+  erc20,
+  getAddress,
+  MINTER_ROLE,
+  overwriteModeFromFlags,
+  recordAddress,
+  resolveContract,
+  resolveToken,
+  sendTx,
+  setupExecutor,
+} from "../helper";
+import { explorerFromConfig } from "../verify/explorer";
+import {
+  chainByKey,
+  chainOf,
+  chainProvider,
+  chainSupply,
+  connectLane,
+  defaultChainsFile,
+  deliveredIn,
+  loadChains,
+  NO_LIMIT,
+  pendingChainUpdates,
+  poolName,
+  RateLimit,
+  remoteChainUpdates,
+  ROUTER,
+  routerContract,
+  selfChainUpdate,
+  supplyBalance,
+  TOKEN_ARGS,
+  TOKEN_ARTIFACTS,
+  transferMessage,
+  waitForBalance,
+} from "./ccip";
+import {
+  compareRuntimeCode,
+  compileStandardInput,
+  loadStandardInput,
+  STNDX_CONTRACT,
+  STNDX_INPUT,
+} from "./stndx";
+
+function addLaneParams(
+  definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+  return addExecutorParams(definition)
+    .addOptionalParam(
+      "chains",
+      "Chains file with selectors, tokens and pools, cli/ccip/chains.json of the project as default"
+    )
+    .addOptionalParam("signer", "Address of the signer, deployer as default");
+}
+
+/// rate limit from capacity and refill rate in token units, disabled when both are omitted
+function rateLimit(capacity?: string, rate?: string): RateLimit {
+  if (capacity === undefined && rate === undefined) {
+    return NO_LIMIT;
+  }
+  if (capacity === undefined || rate === undefined) {
+    throw new Error("Rate limits take both a capacity and a rate");
+  }
+  return {
+    isEnabled: true,
+    capacity: utils.parseEther(capacity),
+    rate: utils.parseEther(rate),
+  };
+}
+
+async function connectedChain(hre: HardhatRuntimeEnvironment, file?: string) {
+  const chains = await loadChains(file ?? defaultChainsFile(hre));
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return { chains, chain: chainOf(chains, chainId), chainId };
+}
+
+addLaneParams(
+  task(
+    "ccip:deploy",
+    "Deploys STNDX on the home chain or STND on other chains of the chains file"
+  )
+)
+  .addFlag("yes", "Overwrite address book entries without asking")
+  .addFlag("noOverwrite", "Keep address book entries without asking")
+  .setAction(async (args, hre) => {
+    overwriteModeFromFlags(args.yes, args.noOverwrite);
+    await setupExecutor(hre, args);
+    const { chain, chainId } = await connectedChain(hre, args.chains);
+    const recorded = await getAddress(chain.token, chainId);
+    if (
+      recorded !== undefined &&
+      (await hre.ethers.provider.getCode(recorded)) !== "0x"
+    ) {
+      console.log(
+        `${chain.token} is deployed at ${recorded} on ${chain.key}, remove it from the address book to deploy again`
+      );
+      return recorded;
+    }
+    const signer =
+      args.signer === undefined
+        ? (await hre.ethers.getSigners())[0]
+        : await hre.ethers.getSigner(args.signer);
+    const { contract } = await deployAndRecord(
+      await hre.ethers.getContractFactory(TOKEN_ARTIFACTS[chain.token], signer),
+      chain.token,
+      TOKEN_ARGS[chain.token],
+      TOKEN_ARTIFACTS[chain.token]
+    );
+    return contract.address;
+  });
+
+addLaneParams(
+  task(
+    "ccip:configure",
+    "Records the token pool of the chain and grants it MINTER_ROLE on burn/mint chains"
+  )
+)
+  .addOptionalParam(
+    "pool",
+    "Token pool address to record, the recorded pool as default"
+  )
+  .addFlag("yes", "Overwrite address book entries without asking")
+  .setAction(async (args, hre) => {
+    overwriteModeFromFlags(args.yes, false);
+    await setupExecutor(hre, args);
+    const chains = await loadChains(args.chains ?? defaultChainsFile(hre));
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const chain = chainOf(chains, chainId);
+    if (args.pool !== undefined) {
+      await recordAddress(poolName(chain.token), chainId, args.pool, {
+        bytecodeHash: utils.keccak256(
+          await hre.ethers.provider.getCode(args.pool)
+        ),
+      });
+    }
+    const lane = await connectLane(hre, chains, args.signer);
+    if (lane.pool === undefined) {
+      throw new Error(
+        `${poolName(chain.token)} is not in the address book, pass --pool`
+      );
+    }
+    const poolToken: string = await lane.pool.getToken();
+    if (poolToken.toLowerCase() !== lane.token.address.toLowerCase()) {
+      throw new Error(
+        `Pool ${lane.pool.address} is for ${poolToken}, not ${chain.token} at ${lane.token.address}`
+      );
+    }
+    if (chain.pool === "lockRelease") {
+      console.log(
+        `${chain.key} locks and releases ${chain.token}, the pool needs no role`
+      );
+      return;
+    }
+    if (await lane.token.hasRole(MINTER_ROLE, lane.pool.address)) {
+      console.log(`Pool ${lane.pool.address} has MINTER_ROLE already`);
+      return;
+    }
+    await sendTx(
+      lane.token,
+      "grantRole",
+      [MINTER_ROLE, lane.pool.address],
+      {},
+      `Grant MINTER_ROLE to ${poolName(chain.token)}`
+    );
+  });
+
+addLaneParams(
+  task(
+    "ccip:local",
+    "Deploys a local CCIP simulator, a router and the token pool of the chain wired to its own chain"
+  )
+)
+  .addOptionalParam("fee", "Native fee of a message", "0")
+  .addFlag("yes", "Overwrite address book entries without asking")
+  .setAction(async (args, hre) => {
+    overwriteModeFromFlags(args.yes, false);
+    await setupExecutor(hre, args);
+    const { chain, chainId } = await connectedChain(hre, args.chains);
+    if (chainId !== ChainId.LOCALHOST) {
+      throw new Error(
+        `The simulator is for local chains, chain ${chainId} is served by Chainlink`
+      );
+    }
+    const signer =
+      args.signer === undefined
+        ? (await hre.ethers.getSigners())[0]
+        : await hre.ethers.getSigner(args.signer);
+    const token = await resolveContract(chain.token, chainId);
+    const { contract: router } = await deployAndRecord(
+      await hre.ethers.getContractFactory("MockCCIPRouter", signer),
+      ROUTER,
+      [chain.chainSelector, utils.parseEther(args.fee)],
+      "MockCCIPRouter"
+    );
+    const { contract: pool } = await deployAndRecord(
+      await hre.ethers.getContractFactory("MockTokenPool", signer),
+      poolName(chain.token),
+      [token, router.address, chain.pool === "burnMint"],
+      "MockTokenPool"
+    );
+    await sendTx(
+      router,
+      "setPool",
+      [token, pool.address],
+      {},
+      `Route ${chain.token} through ${poolName(chain.token)}`
+    );
+    await sendTx(
+      router,
+      "setChainSupported",
+      [chain.chainSelector, true],
+      {},
+      `Support ${chain.key}`
+    );
+    await sendTx(
+      pool,
+      "applyChainUpdates",
+      [[], [selfChainUpdate(chain, token, pool.address)]],
+      {},
+      `Wire ${poolName(chain.token)} to ${chain.key}`
+    );
+    if (chain.pool === "burnMint") {
+      await sendTx(
+        await hre.ethers.getContractAt(
+          TOKEN_ARTIFACTS[chain.token],
+          token,
+          signer
+        ),
+        "grantRole",
+        [MINTER_ROLE, pool.address],
+        {},
+        `Grant MINTER_ROLE to ${poolName(chain.token)}`
+      );
+    }
+    return { router: router.address, pool: pool.address };
+  });
+
+addLaneParams(
+  task(
+    "ccip:wire",
+    "Applies remote pools and tokens of the other chains to the pool of the connected chain"
+  )
+)
+  .addOptionalParam("only", "Comma separated chain keys to wire")
+  .addOptionalParam("outboundCapacity", "Outbound bucket capacity in tokens")
+  .addOptionalParam("outboundRate", "Outbound refill rate in tokens per second")
+  .addOptionalParam("inboundCapacity", "Inbound bucket capacity in tokens")
+  .addOptionalParam("inboundRate", "Inbound refill rate in tokens per second")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const chains = await loadChains(args.chains ?? defaultChainsFile(hre));
+    const lane = await connectLane(hre, chains, args.signer);
+    if (lane.pool === undefined) {
+      throw new Error(
+        `${poolName(
+          lane.chain.token
+        )} is not in the address book, run ccip:configure --pool`
+      );
+    }
+    const { updates, skipped } = await remoteChainUpdates(
+      lane,
+      chains,
+      {
+        outbound: rateLimit(args.outboundCapacity, args.outboundRate),
+        inbound: rateLimit(args.inboundCapacity, args.inboundRate),
+      },
+      args.only?.split(",").map((key: string) => key.trim())
+    );
+    for (const { chain, reason } of skipped) {
+      console.log(`Skipping ${chain}: ${reason}`);
+    }
+    const { remove, add } = await pendingChainUpdates(lane.pool, updates);
+    if (add.length == 0) {
+      console.log(`Pool of ${lane.chain.key} is wired to every remote chain`);
+      return;
+    }
+    console.table(
+      add.map((update) => ({
+        selector: update.remoteChainSelector,
+        pool: utils.hexDataSlice(update.remotePoolAddresses[0], 12),
+        token: utils.hexDataSlice(update.remoteTokenAddress, 12),
+        replaces: remove.includes(update.remoteChainSelector),
+      }))
+    );
+    await sendTx(
+      lane.pool,
+      "applyChainUpdates",
+      [remove, add],
+      {},
+      `Wire ${add.length} remote chains`
+    );
+  });
+
+task("ccip:supply", "Reports STND and STNDX supply across every chain")
+  .addOptionalParam(
+    "chains",
+    "Chains file with selectors, tokens and pools, cli/ccip/chains.json of the project as default"
+  )
+  .addFlag("json", "Print as JSON")
+  .setAction(async (args, hre) => {
+    const chains = await loadChains(args.chains ?? defaultChainsFile(hre));
+    const supplies = await Promise.all(
+      Object.values(chains).map((chain) => chainSupply(hre, chain))
+    );
+    const balance = supplyBalance(chains, supplies);
+    if (args.json) {
+      console.log(JSON.stringify({ supplies, balance }, null, 2));
+      return { supplies, balance };
+    }
+    const format = (amount?: BigNumber) =>
+      amount === undefined ? "" : utils.formatEther(amount);
+    console.table(
+      supplies.map((supply) => ({
+        chain: supply.chain,
+        token: supply.token,
+        totalSupply: format(supply.totalSupply),
+        locked: format(supply.locked),
+        error: supply.error ?? "",
+      }))
+    );
+    console.log(`Locked in lock/release pools: ${format(balance.locked)}`);
+    console.log(`Minted on burn/mint chains: ${format(balance.minted)}`);
+    if (!balance.complete) {
+      console.log("Some chains could not be read, the balance is partial");
+    } else if (!balance.gap.isZero()) {
+      console.log(
+        `Gap of ${format(
+          balance.gap
+        )}, transfers in flight or a mismatch between chains`
+      );
+    }
+    return { supplies, balance };
+  });
+
+addLaneParams(
+  task(
+    "ccip:bridge",
+    "Sends STND or STNDX to another chain through the CCIP router"
+  )
+)
+  .addParam("to", "Destination chain key of the chains file")
+  .addParam("amount", "Amount in tokens")
+  .addOptionalParam(
+    "receiver",
+    "Receiver on the destination, the signer as default"
+  )
+  .addOptionalParam(
+    "feeToken",
+    "Token address or address book name to pay fees in, native gas as default"
+  )
+  .addOptionalParam(
+    "wait",
+    "Seconds to wait for the tokens on the destination",
+    0,
+    types.int
+  )
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const chains = await loadChains(args.chains ?? defaultChainsFile(hre));
+    const lane = await connectLane(hre, chains, args.signer);
+    const destination = chainByKey(chains, args.to);
+    const { chainId } = lane.chain;
+    const router = routerContract(
+      await resolveContract(ROUTER, chainId),
+      lane.signer
+    );
+    if (!(await router.isChainSupported(destination.chainSelector))) {
+      throw new Error(`Router does not support ${destination.key}`);
+    }
+    const sender = await lane.signer.getAddress();
+    const receiver = args.receiver ?? sender;
+    const amount = utils.parseEther(args.amount);
+    const feeToken =
+      args.feeToken === undefined
+        ? constants.AddressZero
+        : await resolveToken(args.feeToken, chainId);
+    const message = transferMessage(
+      receiver,
+      lane.token.address,
+      amount,
+      feeToken
+    );
+    const fee: BigNumber = await router.getFee(
+      destination.chainSelector,
+      message
+    );
+    console.log(
+      `Fee: ${utils.formatEther(fee)} ${
+        feeToken === constants.AddressZero ? "native" : feeToken
+      }`
+    );
+
+    const approvals: [string, BigNumber][] = [[lane.token.address, amount]];
+    if (feeToken !== constants.AddressZero) {
+      approvals.push([feeToken, fee]);
+    }
+    for (const [address, needed] of approvals) {
+      const token = erc20(address, lane.signer);
+      if ((await token.allowance(sender, router.address)).lt(needed)) {
+        await sendTx(
+          token,
+          "approve",
+          [router.address, needed],
+          {},
+          `Approve router to send ${await token.symbol()}`
+        );
+      }
+    }
+
+    const remoteToken = await getAddress(
+      destination.token,
+      destination.chainId
+    );
+    const destinationToken =
+      remoteToken === undefined
+        ? undefined
+        : erc20(remoteToken, await chainProvider(hre, destination));
+    const before: BigNumber | undefined = await destinationToken?.balanceOf(
+      receiver
+    );
+    const {
+      result: messageId,
+      dryRun,
+      receipt,
+    } = await sendTx(
+      router,
+      "ccipSend",
+      [destination.chainSelector, message],
+      { value: feeToken === constants.AddressZero ? fee : 0 },
+      `Send ${args.amount} ${lane.chain.token} to ${destination.key}`
+    );
+    console.log(`Message id: ${messageId}`);
+    if (dryRun) {
+      return { messageId };
+    }
+    const report = (delivered: boolean, holds: BigNumber) =>
+      console.log(
+        `${
+          delivered ? "Delivered" : "Not delivered yet"
+        }, ${receiver} holds ${utils.formatEther(holds)} ${
+          destination.token
+        } on ${destination.key}`
+      );
+    // a local simulator delivers in the same tx, what its pool minted or released is read from the receipt
+    if (destination.chainId === chainId) {
+      if (receipt === undefined || destinationToken === undefined) {
+        throw new Error(
+          receipt === undefined
+            ? `No receipt of message ${messageId} on the local lane ${destination.key}`
+            : `${destination.token} is not recorded on ${destination.key}, what the local lane delivered is unknown`
+        );
+      }
+      const pool = await resolveContract(
+        poolName(destination.token),
+        destination.chainId
+      );
+      const delivered = deliveredIn(
+        receipt,
+        destinationToken.address,
+        pool,
+        receiver
+      );
+      report(delivered.gte(amount), await destinationToken.balanceOf(receiver));
+      return { messageId, delivered };
+    }
+    console.log(`Track it at https://ccip.chain.link/msg/${messageId}`);
+    if (destinationToken === undefined || args.wait == 0) {
+      return { messageId };
+    }
+    // live lanes take minutes, the receiver's balance is polled on the destination
+    const target = before!.add(amount);
+    const after = await waitForBalance(
+      destinationToken,
+      receiver,
+      target,
+      args.wait * 1000
+    );
+    report(after.gte(target), after);
+    return { messageId, delivered: after.sub(before!) };
+  });
+
+task(
+  "ccip:verify-stndx",
+  "Compiles stndx.json, checks it against deployed STNDX and submits it to the explorer"
+)
+  .addOptionalParam("input", "Standard JSON input", STNDX_INPUT)
+  .addOptionalParam("address", "STNDX address or address book name", "STNDX")
+  .addOptionalParam(
+    "compiler",
+    "Solc version, the first compiler of the hardhat config as default"
+  )
+  .addOptionalParam(
+    "apiUrl",
+    "Etherscan compatible API url, EXPLORER_API_URL or etherscan.customChains as default"
+  )
+  .addOptionalParam("apiKey", "Explorer API key, EXPLORER_API_KEY as default")
+  .addFlag("dryRun", "Only compare the compiled code with the deployed code")
+  .setAction(async (args, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const address = await resolveContract(args.address, chainId);
+    const input = await loadStandardInput(args.input);
+    const compiler = args.compiler ?? hre.config.solidity.compilers[0].version;
+    const build = await compileStandardInput(
+      hre,
+      input,
+      compiler,
+      STNDX_CONTRACT
+    );
+    const match = compareRuntimeCode(
+      build.deployedBytecode,
+      await hre.ethers.provider.getCode(address)
+    );
+    console.log(`${args.input} with solc ${build.longVersion}: ${match}`);
+    if (match === "mismatch") {
+      throw new Error(
+        `Code at ${address} was not compiled from ${args.input} with solc ${compiler}`
+      );
+    }
+    if (args.dryRun) {
+      return match;
+    }
+    const explorer = explorerFromConfig(hre, chainId, {
+      apiUrl: args.apiUrl,
+      apiKey: args.apiKey,
+    });
+    if (!explorer) {
+      throw new Error("No explorer API url for this chain, set --api-url");
+    }
+    if (await explorer.isVerified(address)) {
+      console.log(`${address} is verified already`);
+      return match;
+    }
+    const guid = await explorer.verifyStandardJson(
+      address,
+      STNDX_CONTRACT,
+      input,
+      `v${build.longVersion}`
+    );
+    console.log(await explorer.checkVerification(guid));
+    return match;
+  });
@@ -0,0 +1,251 @@
+/// Applies a deployment manifest to a network
+/// every step is skipped when the address book or chain state shows it was already applied,
+/// so an interrupted deployment can be resumed by running it again.
+/// on dry runs contracts get predicted addresses, and steps on them are skipped as there is no code to simulate against.
+/// example
+/// const manifest = await loadManifest("cli/deploy/manifests/localhost.json");
+/// await applyManifest(hre, manifest);
+
+import { Contract, Signer, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  deployAndRecord,
+  getAddress,
+  getStep,
+  recordStep,
+  resolveRole,
+  sendTx,
+  TxOutcome,
+} from "../helper";
+import {
+  deployOrder,
+  Manifest,
+  NAMED_ACCOUNTS,
+  references,
+  resolveValue,
+} from "./manifest";
+
+export interface ApplyResult {
+  addresses: { [name: string]: string };
+  applied: string[];
+  skipped: string[];
+}
+
+/// key of a call in the address book, changes when the target or args change
+function stepKey(contract: string, method: string, resolved: any) {
+  const hash = utils.id(JSON.stringify(resolved)).slice(0, 18);
+  return `deploy:${contract}.${method}:${hash}`;
+}
+
+export async function applyManifest(
+  hre: HardhatRuntimeEnvironment,
+  manifest: Manifest
+): Promise<ApplyResult> {
+  const { ethers } = hre;
+  const signers = await ethers.getSigners();
+  const chainId = await signers[0].getChainId();
+  const accounts: { [name: string]: string } = {};
+  const signerOf: { [name: string]: Signer } = {};
+  NAMED_ACCOUNTS.forEach((name, i) => {
+    if (signers[i] !== undefined) {
+      accounts[name] = signers[i].address;
+      signerOf[name] = signers[i];
+    }
+  });
+  const from = (name = "deployer") => {
+    if (signerOf[name] === undefined) {
+      throw new Error(`No signer for account ${name} on ${hre.network.name}`);
+    }
+    return signerOf[name];
+  };
+
+  const result: ApplyResult = { addresses: {}, applied: [], skipped: [] };
+  const contracts: { [name: string]: Contract } = {};
+  const resolve = (value: any) =>
+    resolveValue(value, result.addresses, accounts);
+  // contracts which only have a predicted address on dry runs
+  const predicted = new Set<string>();
+  const skipPredicted = (label: string, names: string[]) => {
+    const missing = names.filter((name) => predicted.has(name));
+    if (missing.length == 0) {
+      return false;
+    }
+    console.log(
+      `Dry run: ${label} skipped, ${missing.join(", ")} not deployed`
+    );
+    result.skipped.push(label);
+    return true;
+  };
+  const applied = (label: string, outcome: TxOutcome) => {
+    (outcome.dryRun ? result.skipped : result.applied).push(label);
+  };
+  const at = async (name: string) => {
+    const artifact = await hre.artifacts.readArtifact(
+      manifest.contracts[name].artifact
+    );
+    contracts[name] = new Contract(result.addresses[name], artifact.abi);
+  };
+
+  // deploy contracts in dependency order of constructor args
+  for (const name of deployOrder(manifest)) {
+    const spec = manifest.contracts[name];
+    if (spec.address !== undefined) {
+      result.addresses[name] = spec.address;
+      await at(name);
+      continue;
+    }
+    const existing = await getAddress(name, chainId);
+    if (
+      existing !== undefined &&
+      (await ethers.provider.getCode(existing)) != "0x"
+    ) {
+      console.log(`${name} is already deployed at ${existing}`);
+      result.addresses[name] = existing;
+      result.skipped.push(`deploy ${name}`);
+      await at(name);
+      continue;
+    }
+    if (spec.external) {
+      throw new Error(
+        `${name} is external but has no deployed contract in the address book of chain ${chainId}`
+      );
+    }
+    const factory = await ethers.getContractFactory(
+      spec.artifact,
+      from(spec.from)
+    );
+    const args = resolve(spec.args ?? []);
+    const deployed = await deployAndRecord(factory, name, args, spec.artifact);
+    if (deployed.dryRun) {
+      predicted.add(name);
+    }
+    result.addresses[name] = deployed.address;
+    applied(`deploy ${name}`, deployed);
+    contracts[name] = deployed.contract;
+  }
+
+  // calls are recorded as steps in the address book once they are mined
+  const call = async (
+    contract: string,
+    method: string,
+    args: any[] = [],
+    account?: string,
+    value?: string
+  ) => {
+    const resolved = resolve(args);
+    const key = stepKey(contract, method, [
+      result.addresses[contract],
+      resolved.map(String),
+      account ?? "deployer",
+      value,
+    ]);
+    const label = `${contract}.${method}(${resolved.join(", ")})`;
+    if ((await getStep(key, chainId)) !== undefined) {
+      console.log(`${label} is already applied`);
+      result.skipped.push(label);
+      return;
+    }
+    if (skipPredicted(label, [contract, ...references(args)])) {
+      return;
+    }
+    const overrides = value === undefined ? {} : { value: resolve(value) };
+    const outcome = await sendTx(
+      contracts[contract].connect(from(account)),
+      method,
+      resolved,
+      overrides,
+      `Execute ${label}`
+    );
+    if (outcome.receipt !== undefined) {
+      await recordStep(key, chainId, {
+        txHash: outcome.receipt.transactionHash,
+        block: outcome.receipt.blockNumber,
+      });
+    }
+    applied(label, outcome);
+  };
+
+  for (const name of Object.keys(manifest.contracts)) {
+    const spec = manifest.contracts[name];
+    if (spec.initialize !== undefined) {
+      await call(name, "initialize", spec.initialize, spec.from);
+    }
+  }
+  for (const spec of manifest.calls ?? []) {
+    await call(spec.contract, spec.method, spec.args, spec.from, spec.value);
+  }
+
+  const engineName = manifest.engine ?? "MatchingEngine";
+  if ((manifest.pairs ?? []).length + (manifest.spreads ?? []).length > 0) {
+    if (contracts[engineName] === undefined) {
+      throw new Error(`Pairs require ${engineName} in the manifest contracts`);
+    }
+  }
+  const engine = contracts[engineName]?.connect(from());
+
+  for (const spec of manifest.pairs ?? []) {
+    const [base, quote] = resolve([spec.base, spec.quote]);
+    const label = `addPair(${base}, ${quote})`;
+    if (
+      skipPredicted(label, [engineName, ...references([spec.base, spec.quote])])
+    ) {
+      continue;
+    }
+    const orderbook = await engine.getPair(base, quote);
+    if (orderbook != ethers.constants.AddressZero) {
+      console.log(`Pair is already listed at ${orderbook}`);
+      result.skipped.push(label);
+      continue;
+    }
+    applied(label, await sendTx(engine, "addPair", [base, quote], {}, label));
+  }
+
+  for (const spec of manifest.spreads ?? []) {
+    const [base, quote] = resolve([spec.base, spec.quote]);
+    const label = `setSpread(${base}, ${quote}, ${spec.market}, ${spec.limit})`;
+    if (
+      skipPredicted(label, [engineName, ...references([spec.base, spec.quote])])
+    ) {
+      continue;
+    }
+    const orderbook = await engine.getPair(base, quote);
+    // _setSpread fills DefaultSpread(market, limit) positionally, so the getter returns the market spread first
+    const [market, limit] = await engine.spreadLimits(orderbook);
+    if (market == spec.market && limit == spec.limit) {
+      console.log(`${label} is already applied`);
+      result.skipped.push(label);
+      continue;
+    }
+    applied(
+      label,
+      await sendTx(
+        engine,
+        "setSpread",
+        [base, quote, spec.market, spec.limit],
+        {},
+        label
+      )
+    );
+  }
+
+  for (const spec of manifest.roles ?? []) {
+    const role = resolveRole(spec.role);
+    const account = resolve(spec.account);
+    const label = `${spec.contract}.grantRole(${spec.role}, ${account})`;
+    if (skipPredicted(label, [spec.contract, ...references(spec.account)])) {
+      continue;
+    }
+    const contract = contracts[spec.contract].connect(from());
+    if (await contract.hasRole(role, account)) {
+      console.log(`${label} is already applied`);
+      result.skipped.push(label);
+      continue;
+    }
+    applied(
+      label,
+      await sendTx(contract, "grantRole", [role, account], {}, label)
+    );
+  }
+
+  return result;
+}
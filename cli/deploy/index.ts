@@ -0,0 +1,4 @@
+import "./tasks";
+
+export * from "./manifest";
+export * from "./apply";
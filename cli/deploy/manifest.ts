@@ -0,0 +1,196 @@
+/// Declarative deployment manifest of a network
+/// contracts are deployed in dependency order of their constructor args, then
+/// initialized, called, listed as pairs, configured with spreads and granted roles.
+/// values can reference other contracts and named accounts
+/// example
+/// {
+///   "contracts": {
+///     "OrderbookFactory": { "artifact": "OrderbookFactory", "initialize": ["${MatchingEngine.address}"] },
+///     "MatchingEngine": { "artifact": "MatchingEngine", "initialize": ["${OrderbookFactory.address}", "${Treasury.address}", "${WETH.address}"] },
+///     "WETH": { "artifact": "WETH9", "address": "0x4200000000000000000000000000000000000006" }
+///   },
+///   "calls": [{ "contract": "Token1", "method": "mint", "args": ["${trader1}", "1000000e18"] }]
+/// }
+
+import fs from "fs/promises";
+import { utils } from "ethers";
+
+/// accounts referenced by name, same order as namedAccounts in hardhat.config.ts
+export const NAMED_ACCOUNTS = ["deployer", "trader1", "trader2", "booker"];
+
+export interface ContractSpec {
+  /// artifact to deploy, its abi is used for contracts which already exist
+  artifact: string;
+  /// fixed address of an existing contract, it is not deployed
+  address?: string;
+  /// existing contract registered in the address book, it is not deployed
+  external?: boolean;
+  /// constructor args
+  args?: any[];
+  /// initialize args, initialize is not called when omitted
+  initialize?: any[];
+  /// named account deploying and initializing the contract, deployer as default
+  from?: string;
+}
+
+export interface CallSpec {
+  contract: string;
+  method: string;
+  args?: any[];
+  from?: string;
+  /// native currency sent with the call
+  value?: string;
+}
+
+export interface PairSpec {
+  base: string;
+  quote: string;
+}
+
+export interface SpreadSpec extends PairSpec {
+  market: number;
+  limit: number;
+}
+
+export interface RoleSpec {
+  contract: string;
+  /// role name such as MINTER_ROLE or a role hash
+  role: string;
+  account: string;
+}
+
+export interface Manifest {
+  /// contract name of MatchingEngine for pairs and spreads
+  engine?: string;
+  contracts: { [name: string]: ContractSpec };
+  calls?: CallSpec[];
+  pairs?: PairSpec[];
+  spreads?: SpreadSpec[];
+  roles?: RoleSpec[];
+}
+
+const REFERENCE = /\$\{([A-Za-z0-9_]+)(\.address)?\}/g;
+
+export function defaultManifest(network: string) {
+  return `cli/deploy/manifests/${network}.json`;
+}
+
+/// contract names referenced with ${Name.address} in a value
+export function references(value: any): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(references);
+  }
+  if (typeof value !== "string") {
+    return [];
+  }
+  return Array.from(value.matchAll(REFERENCE))
+    .filter((match) => match[2] !== undefined)
+    .map((match) => match[1]);
+}
+
+export async function loadManifest(file: string): Promise<Manifest> {
+  const content = await fs.readFile(file, { encoding: "utf8" });
+  const manifest: Manifest = JSON.parse(content);
+  validateManifest(manifest);
+  return manifest;
+}
+
+export function validateManifest(manifest: Manifest) {
+  if (manifest.contracts === undefined) {
+    throw new Error("manifest has no contracts field");
+  }
+  const names = Object.keys(manifest.contracts);
+  const check = (where: string, value: any) => {
+    for (const name of references(value)) {
+      if (!names.includes(name)) {
+        throw new Error(`${where} references unknown contract ${name}`);
+      }
+    }
+    for (const match of JSON.stringify(value ?? "").matchAll(REFERENCE)) {
+      if (match[2] === undefined && !NAMED_ACCOUNTS.includes(match[1])) {
+        throw new Error(`${where} references unknown account ${match[1]}`);
+      }
+    }
+  };
+  for (const [name, spec] of Object.entries(manifest.contracts)) {
+    if (spec.artifact === undefined) {
+      throw new Error(`${name} has no artifact`);
+    }
+    if (spec.address !== undefined && !utils.isAddress(spec.address)) {
+      throw new Error(`${name} has invalid address ${spec.address}`);
+    }
+    check(name, spec.args);
+    check(`${name}.initialize`, spec.initialize);
+  }
+  for (const call of manifest.calls ?? []) {
+    if (!names.includes(call.contract)) {
+      throw new Error(
+        `call ${call.method} targets unknown contract ${call.contract}`
+      );
+    }
+    check(`${call.contract}.${call.method}`, call.args);
+  }
+  for (const pair of [...(manifest.pairs ?? []), ...(manifest.spreads ?? [])]) {
+    check("pair", [pair.base, pair.quote]);
+  }
+  for (const role of manifest.roles ?? []) {
+    if (!names.includes(role.contract)) {
+      throw new Error(
+        `role ${role.role} targets unknown contract ${role.contract}`
+      );
+    }
+    check(`${role.contract}.${role.role}`, role.account);
+  }
+  deployOrder(manifest);
+}
+
+/// orders contracts so that contracts referenced in constructor args are deployed first
+export function deployOrder(manifest: Manifest): string[] {
+  const order: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (name: string, path: string[]) => {
+    if (order.includes(name)) {
+      return;
+    }
+    if (visiting.has(name)) {
+      throw new Error(
+        `constructor args have a cycle: ${[...path, name].join(" -> ")}`
+      );
+    }
+    visiting.add(name);
+    for (const dependency of references(manifest.contracts[name].args ?? [])) {
+      visit(dependency, [...path, name]);
+    }
+    visiting.delete(name);
+    order.push(name);
+  };
+  for (const name of Object.keys(manifest.contracts)) {
+    visit(name, []);
+  }
+  return order;
+}
+
+/// resolves references and amounts such as 1000000e18 into call args
+export function resolveValue(
+  value: any,
+  addresses: { [name: string]: string },
+  accounts: { [name: string]: string }
+): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveValue(item, addresses, accounts));
+  }
+  if (typeof value !== "string") {
+    return value;
+  }
+  const amount = /^(\d+(?:\.\d+)?)e(\d+)$/.exec(value);
+  if (amount !== null) {
+    return utils.parseUnits(amount[1], Number(amount[2]));
+  }
+  return value.replace(REFERENCE, (_, name: string, isContract?: string) => {
+    const resolved = isContract ? addresses[name] : accounts[name];
+    if (resolved === undefined) {
+      throw new Error(`${name} is not resolved yet`);
+    }
+    return resolved;
+  });
+}
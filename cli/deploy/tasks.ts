@@ -0,0 +1,45 @@
+import { task } from "hardhat/config";
+import {
+  addExecutorParams,
+  overwriteModeFromFlags,
+  setupExecutor,
+} from "../helper";
+import { applyManifest } from "./apply";
+import { defaultManifest, loadManifest } from "./manifest";
+
+addExecutorParams(
+  task(
+    "deploy:apply",
+    "Deploys and configures contracts from a network manifest"
+  )
+)
+  .addOptionalParam(
+    "manifest",
+    "Manifest file, cli/deploy/manifests/<network>.json as default"
+  )
+  .addFlag("yes", "Overwrite address book entries without asking")
+  .addFlag("noOverwrite", "Keep address book entries without asking")
+  .setAction(async (args, hre) => {
+    const { manifest, yes, noOverwrite } = args;
+    overwriteModeFromFlags(yes, noOverwrite);
+    await setupExecutor(hre, args);
+    const file = manifest ?? defaultManifest(hre.network.name);
+    console.log(`Applying ${file} to ${hre.network.name}`);
+    const [deployer] = await hre.ethers.getSigners();
+    console.log(
+      `Deployer balance: ${hre.ethers.utils.formatEther(
+        await deployer.getBalance()
+      )} ETH`
+    );
+    const result = await applyManifest(hre, await loadManifest(file));
+    console.log(
+      `Applied ${result.applied.length} steps, skipped ${result.skipped.length} already applied steps`
+    );
+    console.table(result.addresses);
+    console.log(
+      `Deployer balance: ${hre.ethers.utils.formatEther(
+        await deployer.getBalance()
+      )} ETH`
+    );
+    return result;
+  });
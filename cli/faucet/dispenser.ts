@@ -0,0 +1,230 @@
+/// TokenDispenser readers and relayed requests for the testnet faucet
+/// requestTokens pays msg.sender and marks it as served per token, so a relayer can't request for
+/// others directly. Each faucet request funds a fresh claimer wallet from the relayer for gas,
+/// requests the tokens from it, forwards them to the user and sweeps the ETH left back.
+/// The claimer key is derived from a relayer signature of the request, so funds a failed request
+/// leaves with its claimer are recovered with the same relayer.
+/// example
+/// const { dispenser, relayer } = await connectDispenser(hre);
+/// const tokens = await dispensedTokens(dispenser, [token1.address]);
+/// const claimer = await claimerOf(dispenser, relayer, user, Date.now());
+/// const txs = await dispense(dispenser, relayer, claimer, user, tokens);
+
+import { BigNumber, Contract, Signer, utils, Wallet } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveContract, sendRequest, sendTx } from "../helper";
+import { FaucetRequest } from "./limits";
+
+const TOKEN_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+];
+
+/// claimers request through a plain ABI, contracts of hardhat-ethers carry the fixed gas limit of the
+/// hardhat network, which a claimer is not funded for
+const DISPENSER_ABI = ["function requestTokens(address token)"];
+
+/// gas limits a claimer is funded for, above what requestTokens and transfer use with the executor buffer
+const REQUEST_GAS = 120000;
+const TRANSFER_GAS = 80000;
+const SWEEP_GAS = 21000;
+
+export interface DispensedToken {
+  token: string;
+  symbol: string;
+  decimals: number;
+  /// amount dispensed per request, zero when the token is not dispensed
+  amount: BigNumber;
+  /// balance of the dispenser
+  left: BigNumber;
+}
+
+export async function connectDispenser(
+  hre: HardhatRuntimeEnvironment,
+  signerAddress?: string,
+  name = "TokenDispenser"
+) {
+  const { ethers } = hre;
+  const relayer: Signer =
+    signerAddress === undefined
+      ? (await ethers.getSigners())[0]
+      : await ethers.getSigner(signerAddress);
+  const { chainId } = await ethers.provider.getNetwork();
+  const dispenser = await ethers.getContractAt(
+    "TokenDispenser",
+    await resolveContract(name, chainId),
+    relayer
+  );
+  return { chainId, relayer, dispenser };
+}
+
+export async function dispensedTokens(
+  dispenser: Contract,
+  tokens: string[]
+): Promise<DispensedToken[]> {
+  return Promise.all(
+    tokens.map(async (address) => {
+      const token = new Contract(address, TOKEN_ABI, dispenser.provider);
+      const [symbol, decimals, amount, left] = await Promise.all([
+        token.symbol(),
+        token.decimals(),
+        dispenser.tokenAmounts(address),
+        dispenser.left(address),
+      ]);
+      return { token: address, symbol, decimals, amount, left };
+    })
+  );
+}
+
+/// token amounts of a dispenser in token units, with the requests its balance still covers
+export function formatDispensed(tokens: DispensedToken[]) {
+  return tokens.map((token) => ({
+    token: token.token,
+    symbol: token.symbol,
+    amount: utils.formatUnits(token.amount, token.decimals),
+    left: utils.formatUnits(token.left, token.decimals),
+    requestsLeft: token.amount.isZero()
+      ? 0
+      : token.left.div(token.amount).toNumber(),
+  }));
+}
+
+/// gas price the claimer is funded at, the max fee on EIP-1559 networks
+async function fundingGasPrice(relayer: Signer): Promise<BigNumber> {
+  const feeData = await relayer.provider!.getFeeData();
+  return feeData.maxFeePerGas ?? feeData.gasPrice!;
+}
+
+/// claimer wallet of a request to an address at a unix time in milliseconds.
+/// signatures of a relayer key are deterministic, so the same request derives the same claimer.
+export async function claimerOf(
+  dispenser: Contract,
+  relayer: Signer,
+  to: string,
+  at: number
+): Promise<Wallet> {
+  const signature = await relayer.signMessage(
+    `TokenDispenser ${dispenser.address} claimer for ${utils.getAddress(
+      to
+    )} at ${at}`
+  );
+  return new Wallet(utils.keccak256(signature), relayer.provider);
+}
+
+/// pushes hashes of sent txs, outcomes of dry runs have none
+function collect(txs: string[]) {
+  return (outcome: { tx?: { hash: string } }) => {
+    if (outcome.tx) {
+      txs.push(outcome.tx.hash);
+    }
+  };
+}
+
+/// sends whatever gas the claimer did not use back to the relayer
+async function sweep(claimer: Wallet, relayer: Signer, txs: string[]) {
+  const sweepPrice = (await claimer.provider.getFeeData()).gasPrice!;
+  const rest = (await claimer.getBalance()).sub(sweepPrice.mul(SWEEP_GAS));
+  if (rest.gt(0)) {
+    collect(txs)(
+      await sendRequest(
+        claimer,
+        {
+          to: await relayer.getAddress(),
+          value: rest,
+          gasLimit: SWEEP_GAS,
+          gasPrice: sweepPrice,
+        },
+        "Sweep claimer"
+      )
+    );
+  }
+}
+
+/// sends the dispensed amount of each token to an address through a claimer.
+/// tx hashes are pushed to txs as they are sent, so they are kept when a later step fails.
+export async function dispense(
+  dispenser: Contract,
+  relayer: Signer,
+  claimer: Wallet,
+  to: string,
+  tokens: DispensedToken[],
+  txs: string[] = []
+): Promise<string[]> {
+  const gasPrice = await fundingGasPrice(relayer);
+  const budget = gasPrice.mul(
+    tokens.length * (REQUEST_GAS + TRANSFER_GAS) + SWEEP_GAS
+  );
+  const hash = collect(txs);
+
+  hash(
+    await sendRequest(
+      relayer,
+      { to: claimer.address, value: budget },
+      "Fund claimer"
+    )
+  );
+  for (const token of tokens) {
+    hash(
+      await sendTx(
+        new Contract(dispenser.address, DISPENSER_ABI, claimer),
+        "requestTokens",
+        [token.token],
+        {},
+        `Request ${token.symbol}`
+      )
+    );
+    hash(
+      await sendTx(
+        new Contract(token.token, TOKEN_ABI, claimer),
+        "transfer",
+        [to, token.amount],
+        {},
+        `Send ${token.symbol} to ${to}`
+      )
+    );
+  }
+  await sweep(claimer, relayer, txs);
+  return txs;
+}
+
+/// finishes a pending request, tokens its claimer holds go to the requester and the gas left to the relayer
+export async function recoverClaimer(
+  dispenser: Contract,
+  relayer: Signer,
+  request: FaucetRequest,
+  tokens: DispensedToken[]
+): Promise<string[]> {
+  const claimer = await claimerOf(
+    dispenser,
+    relayer,
+    request.address,
+    request.at
+  );
+  if (request.claimer !== undefined && request.claimer !== claimer.address) {
+    throw new Error(
+      `Claimer ${request.claimer} of ${
+        request.address
+      } was not derived by relayer ${await relayer.getAddress()}`
+    );
+  }
+  const hash = collect(request.txs);
+  for (const token of tokens) {
+    const erc20 = new Contract(token.token, TOKEN_ABI, claimer);
+    const balance: BigNumber = await erc20.balanceOf(claimer.address);
+    if (balance.gt(0)) {
+      hash(
+        await sendTx(
+          erc20,
+          "transfer",
+          [request.address, balance],
+          {},
+          `Send ${token.symbol} to ${request.address}`
+        )
+      );
+    }
+  }
+  await sweep(claimer, relayer, request.txs);
+  return request.txs;
+}
@@ -0,0 +1,5 @@
+import "./tasks";
+
+export * from "./dispenser";
+export * from "./limits";
+export * from "./server";
@@ -0,0 +1,129 @@
+/// per-address and per-IP rate limits of the faucet, persisted so restarts keep them
+/// example
+/// const limiter = await RateLimiter.open("data/faucet/84531.json", { addressWindow: 86400, ipLimit: 5, ipWindow: 3600 });
+/// const { ok, retryAfter } = limiter.check(address, ip);
+/// const served = await limiter.record({ address, ip, tokens: ["USDC"], txs: [], pending: true });
+
+import fs from "fs/promises";
+import path from "path";
+import { fileExists } from "../helper";
+
+export interface FaucetLimits {
+  /// seconds an address waits between requests
+  addressWindow: number;
+  /// requests an IP can make within ipWindow
+  ipLimit: number;
+  /// seconds IP requests are counted over
+  ipWindow: number;
+}
+
+export interface FaucetRequest {
+  address: string;
+  ip: string;
+  tokens: string[];
+  txs: string[];
+  /// claimer wallet funded for the request, its key is derived again with claimerOf
+  claimer?: string;
+  /// set until every tx of the request went through, the claimer may still hold funds
+  pending?: boolean;
+  /// set when dispensing threw, the request does not count towards the limits
+  failed?: boolean;
+  /// unix time in milliseconds
+  at: number;
+}
+
+export const DEFAULT_LIMITS: FaucetLimits = {
+  addressWindow: 86400,
+  ipLimit: 5,
+  ipWindow: 3600,
+};
+
+export interface LimitCheck {
+  ok: boolean;
+  reason?: string;
+  /// seconds until the request would be accepted
+  retryAfter?: number;
+}
+
+export class RateLimiter {
+  private constructor(
+    readonly file: string,
+    readonly limits: FaucetLimits,
+    private requests: FaucetRequest[]
+  ) {}
+
+  /// loads served requests of a ledger file
+  static async open(file: string, limits: FaucetLimits): Promise<RateLimiter> {
+    const requests: FaucetRequest[] = (await fileExists(file))
+      ? JSON.parse(await fs.readFile(file, { encoding: "utf8" }))
+      : [];
+    return new RateLimiter(file, limits, requests);
+  }
+
+  /// drops requests older than both windows, pending ones are kept until they are recovered
+  private prune(now: number) {
+    const window =
+      Math.max(this.limits.addressWindow, this.limits.ipWindow) * 1000;
+    this.requests = this.requests.filter(
+      (request) => request.pending || request.at > now - window
+    );
+  }
+
+  /// requests whose claimer may still hold funds
+  pending(): FaucetRequest[] {
+    return this.requests.filter((request) => request.pending);
+  }
+
+  check(address: string, ip: string, now = Date.now()): LimitCheck {
+    const counted = this.requests.filter((request) => !request.failed);
+    const last = counted
+      .filter(
+        (request) => request.address.toLowerCase() === address.toLowerCase()
+      )
+      .sort((a, b) => b.at - a.at)[0];
+    if (last && last.at > now - this.limits.addressWindow * 1000) {
+      return {
+        ok: false,
+        reason: `${address} was served already`,
+        retryAfter: Math.ceil(
+          (last.at + this.limits.addressWindow * 1000 - now) / 1000
+        ),
+      };
+    }
+    const fromIp = counted
+      .filter(
+        (request) =>
+          request.ip === ip && request.at > now - this.limits.ipWindow * 1000
+      )
+      .sort((a, b) => a.at - b.at);
+    if (fromIp.length >= this.limits.ipLimit) {
+      return {
+        ok: false,
+        reason: `${ip} made ${fromIp.length} requests`,
+        retryAfter: Math.ceil(
+          (fromIp[0].at + this.limits.ipWindow * 1000 - now) / 1000
+        ),
+      };
+    }
+    return { ok: true };
+  }
+
+  /// keeps a request in the ledger, later changes to the returned entry are written with save
+  async record(
+    request: Omit<FaucetRequest, "at">,
+    now = Date.now()
+  ): Promise<FaucetRequest> {
+    this.prune(now);
+    const served = { ...request, at: now };
+    this.requests.push(served);
+    await this.save();
+    return served;
+  }
+
+  async save() {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(this.file, JSON.stringify(this.requests, null, 2), {
+      encoding: "utf8",
+    });
+  }
+}
@@ -0,0 +1,209 @@
+/// HTTP faucet in front of TokenDispenser, requests are served one at a time through the relayer
+/// example
+/// const server = createFaucetServer({ dispenser, relayer, tokens, limiter });
+/// server.listen(8080);
+/// routes
+/// GET  /status           dispensed amount and left() of every token
+/// GET  /status/:token    the same for one token by address or symbol
+/// POST /request          { "address": "0x...", "tokens": ["USDC"] }, every token when tokens is omitted
+
+import http from "http";
+import { Contract, Signer, utils } from "ethers";
+import { describeError } from "../helper";
+import {
+  claimerOf,
+  dispense,
+  DispensedToken,
+  dispensedTokens,
+  formatDispensed,
+} from "./dispenser";
+import { RateLimiter } from "./limits";
+
+export interface Faucet {
+  dispenser: Contract;
+  relayer: Signer;
+  tokens: string[];
+  limiter: RateLimiter;
+}
+
+export interface FaucetServerOptions {
+  /// take the client IP from X-Forwarded-For, only behind a proxy which sets it
+  trustProxy?: boolean;
+  /// largest request body in bytes
+  maxBody?: number;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly headers: http.OutgoingHttpHeaders = {}
+  ) {
+    super(message);
+  }
+}
+
+function send(
+  res: http.ServerResponse,
+  status: number,
+  body: any,
+  headers: http.OutgoingHttpHeaders = {}
+) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+function readBody(req: http.IncomingMessage, maxBody: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > maxBody) {
+        reject(new HttpError(413, "Request body is too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      try {
+        resolve(body.length == 0 ? {} : JSON.parse(body));
+      } catch (e) {
+        reject(new HttpError(400, "Request body is not JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function clientIp(req: http.IncomingMessage, trustProxy: boolean): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string") {
+    return forwarded.split(",")[0].trim();
+  }
+  return req.socket.remoteAddress ?? "unknown";
+}
+
+function pick(tokens: DispensedToken[], names?: string[]): DispensedToken[] {
+  if (names === undefined) {
+    return tokens;
+  }
+  return names.map((name) => {
+    const token = tokens.find(
+      (token) =>
+        token.token.toLowerCase() === name.toLowerCase() ||
+        token.symbol.toLowerCase() === name.toLowerCase()
+    );
+    if (token === undefined) {
+      throw new HttpError(404, `Token ${name} is not dispensed`);
+    }
+    return token;
+  });
+}
+
+export function createFaucetServer(
+  faucet: Faucet,
+  options: FaucetServerOptions = {}
+): http.Server {
+  const { dispenser, relayer, limiter } = faucet;
+  // requests share the relayer nonce and the rate limit ledger, so they run one at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(job: () => Promise<T>): Promise<T> => {
+    const next = queue.then(job, job);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const request = async (body: any, ip: string) => {
+    if (typeof body.address !== "string" || !utils.isAddress(body.address)) {
+      throw new HttpError(400, "address is not an address");
+    }
+    const address = utils.getAddress(body.address);
+    const check = limiter.check(address, ip);
+    if (!check.ok) {
+      throw new HttpError(429, check.reason!, {
+        "Retry-After": String(check.retryAfter),
+      });
+    }
+    const tokens = pick(
+      await dispensedTokens(dispenser, faucet.tokens),
+      body.tokens
+    ).filter((token) => !token.amount.isZero());
+    const available = tokens.filter((token) => token.left.gte(token.amount));
+    if (available.length == 0) {
+      throw new HttpError(503, "The faucet ran dry");
+    }
+    const at = Date.now();
+    const claimer = await claimerOf(dispenser, relayer, address, at);
+    // recorded before dispensing, so faucet:recover finds the claimer of a failed request
+    const served = await limiter.record(
+      {
+        address,
+        ip,
+        tokens: available.map((token) => token.symbol),
+        txs: [],
+        claimer: claimer.address,
+        pending: true,
+      },
+      at
+    );
+    try {
+      await dispense(
+        dispenser,
+        relayer,
+        claimer,
+        address,
+        available,
+        served.txs
+      );
+      delete served.pending;
+    } catch (e) {
+      // the user may ask again, funds the claimer got are forwarded by faucet:recover
+      served.failed = true;
+      throw e;
+    } finally {
+      await limiter.save();
+    }
+    const { txs } = served;
+    return {
+      address,
+      sent: formatDispensed(available).map(({ symbol, amount }) => ({
+        symbol,
+        amount,
+      })),
+      empty: tokens
+        .filter((token) => !available.includes(token))
+        .map((token) => token.symbol),
+      txs,
+    };
+  };
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://faucet");
+    const parts = url.pathname.split("/").filter((part) => part.length > 0);
+    try {
+      if (req.method === "GET" && parts[0] === "status" && parts.length <= 2) {
+        const tokens = await dispensedTokens(dispenser, faucet.tokens);
+        const status = formatDispensed(
+          pick(tokens, parts[1] === undefined ? undefined : [parts[1]])
+        );
+        send(res, 200, {
+          dispenser: dispenser.address,
+          relayer: await relayer.getAddress(),
+          tokens: status,
+        });
+      } else if (req.method === "POST" && url.pathname === "/request") {
+        const body = await readBody(req, options.maxBody ?? 4096);
+        const ip = clientIp(req, options.trustProxy ?? false);
+        send(res, 200, await serialize(() => request(body, ip)));
+      } else {
+        throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+      }
+    } catch (e: any) {
+      if (e instanceof HttpError) {
+        send(res, e.status, { error: e.message }, e.headers);
+      } else {
+        console.log(`Faucet request failed: ${describeError(e)}`);
+        send(res, 500, { error: describeError(e) });
+      }
+    }
+  });
+}
@@ -0,0 +1,281 @@
+import path from "path";
+import { Contract, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import {
+  ConfigurableTaskDefinition,
+  HardhatRuntimeEnvironment,
+} from "hardhat/types";
+import {
+  addExecutorParams,
+  getExecutorConfig,
+  resolveToken,
+  sendTx,
+  setupExecutor,
+} from "../helper";
+import { listTokens, StandardClient } from "../sdk";
+import {
+  connectDispenser,
+  dispensedTokens,
+  formatDispensed,
+  recoverClaimer,
+} from "./dispenser";
+import { DEFAULT_LIMITS, RateLimiter } from "./limits";
+import { createFaucetServer } from "./server";
+
+function addDispenserParams(
+  definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+  return definition
+    .addOptionalParam(
+      "dispenser",
+      "TokenDispenser address or address book name",
+      "TokenDispenser"
+    )
+    .addOptionalParam("signer", "Address of the signer, deployer as default");
+}
+
+function ledgerFile(chainId: number, ledger?: string) {
+  return ledger ?? path.join("data", "faucet", `${chainId}.json`);
+}
+
+/// tokens given as a comma separated list, every token of listed pairs as default
+async function faucetTokens(
+  hre: HardhatRuntimeEnvironment,
+  dispenser: Contract,
+  chainId: number,
+  tokens?: string
+): Promise<string[]> {
+  if (tokens !== undefined) {
+    return Promise.all(
+      tokens.split(",").map((token) => resolveToken(token.trim(), chainId))
+    );
+  }
+  const listed = await listTokens(
+    await StandardClient.fromAddressBook(hre, dispenser.signer)
+  );
+  const dispensed = await dispensedTokens(dispenser, listed);
+  return dispensed
+    .filter((token) => !token.amount.isZero())
+    .map((token) => token.token);
+}
+
+addDispenserParams(
+  addExecutorParams(
+    task("faucet:set-amounts", "Sets amounts TokenDispenser gives per request")
+  )
+)
+  .addParam(
+    "amounts",
+    "Comma separated TOKEN=amount in token units, 0 stops dispensing a token"
+  )
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { chainId, dispenser, relayer } = await connectDispenser(
+      hre,
+      args.signer,
+      args.dispenser
+    );
+    for (const entry of args.amounts.split(",")) {
+      const [name, amount] = entry
+        .split("=")
+        .map((part: string) => part.trim());
+      if (amount === undefined) {
+        throw new Error(`Amount ${entry} is not TOKEN=amount`);
+      }
+      const token = new Contract(
+        await resolveToken(name, chainId),
+        ["function decimals() view returns (uint8)"],
+        relayer
+      );
+      await sendTx(
+        dispenser,
+        "setTokenAmount",
+        [token.address, utils.parseUnits(amount, await token.decimals())],
+        {},
+        `Set amount of ${name} to ${amount}`
+      );
+    }
+  });
+
+for (const [name, method] of [
+  ["grant-admin", "grantAdmin"],
+  ["revoke-admin", "revokeAdmin"],
+]) {
+  addDispenserParams(
+    addExecutorParams(
+      task(
+        `faucet:${name}`,
+        method === "grantAdmin"
+          ? "Grants the TokenDispenser admin role"
+          : "Revokes the TokenDispenser admin role"
+      )
+    )
+  )
+    .addParam("account", "Account address")
+    .setAction(async (args, hre) => {
+      await setupExecutor(hre, args);
+      const { dispenser } = await connectDispenser(
+        hre,
+        args.signer,
+        args.dispenser
+      );
+      await sendTx(
+        dispenser,
+        method,
+        [args.account],
+        {},
+        `${method === "grantAdmin" ? "Grant" : "Revoke"} admin of ${
+          args.account
+        }`
+      );
+    });
+}
+
+addDispenserParams(
+  task(
+    "faucet:status",
+    "Shows dispensed amounts and balances of TokenDispenser"
+  )
+)
+  .addOptionalParam(
+    "tokens",
+    "Comma separated token addresses or address book names, dispensed tokens of all pairs as default"
+  )
+  .addFlag("json", "Print as JSON")
+  .setAction(async (args, hre) => {
+    const { chainId, dispenser } = await connectDispenser(
+      hre,
+      args.signer,
+      args.dispenser
+    );
+    const tokens = await faucetTokens(hre, dispenser, chainId, args.tokens);
+    const status = formatDispensed(await dispensedTokens(dispenser, tokens));
+    if (args.json) {
+      console.log(JSON.stringify(status, null, 2));
+    } else {
+      console.table(status);
+    }
+    return status;
+  });
+
+addDispenserParams(
+  task(
+    "faucet:serve",
+    "Serves TokenDispenser requests over HTTP through a relayer"
+  )
+)
+  .addOptionalParam(
+    "tokens",
+    "Comma separated token addresses or address book names, dispensed tokens of all pairs as default"
+  )
+  .addOptionalParam("host", "Host to listen on", "127.0.0.1")
+  .addOptionalParam("port", "Port to listen on", 8080, types.int)
+  .addOptionalParam(
+    "addressWindow",
+    "Seconds an address waits between requests",
+    DEFAULT_LIMITS.addressWindow,
+    types.int
+  )
+  .addOptionalParam(
+    "ipLimit",
+    "Requests an IP can make within the IP window",
+    DEFAULT_LIMITS.ipLimit,
+    types.int
+  )
+  .addOptionalParam(
+    "ipWindow",
+    "Seconds IP requests are counted over",
+    DEFAULT_LIMITS.ipWindow,
+    types.int
+  )
+  .addOptionalParam(
+    "ledger",
+    "File served requests are kept in, data/faucet/<chainId>.json as default"
+  )
+  .addFlag("trustProxy", "Take client IPs from X-Forwarded-For")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, {});
+    const { chainId, dispenser, relayer } = await connectDispenser(
+      hre,
+      args.signer,
+      args.dispenser
+    );
+    const tokens = await faucetTokens(hre, dispenser, chainId, args.tokens);
+    if (tokens.length == 0) {
+      throw new Error(
+        "No token is dispensed, set amounts with faucet:set-amounts"
+      );
+    }
+    const limiter = await RateLimiter.open(ledgerFile(chainId, args.ledger), {
+      addressWindow: args.addressWindow,
+      ipLimit: args.ipLimit,
+      ipWindow: args.ipWindow,
+    });
+    const server = createFaucetServer(
+      { dispenser, relayer, tokens, limiter },
+      { trustProxy: args.trustProxy }
+    );
+    console.table(formatDispensed(await dispensedTokens(dispenser, tokens)));
+    const relayerAddress = await relayer.getAddress();
+    await new Promise<void>((resolve) => {
+      server.listen(args.port, args.host, () => {
+        console.log(
+          `Faucet of ${dispenser.address} relayed by ${relayerAddress} listening on http://${args.host}:${args.port}`
+        );
+      });
+      process.once("SIGINT", () => server.close(() => resolve()));
+    });
+  });
+
+addDispenserParams(
+  addExecutorParams(
+    task(
+      "faucet:recover",
+      "Finishes pending faucet requests of the ledger, claimers send their tokens on and their gas back"
+    )
+  )
+)
+  .addOptionalParam(
+    "tokens",
+    "Comma separated token addresses or address book names, dispensed tokens of all pairs as default"
+  )
+  .addOptionalParam(
+    "ledger",
+    "File served requests are kept in, data/faucet/<chainId>.json as default"
+  )
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { chainId, dispenser, relayer } = await connectDispenser(
+      hre,
+      args.signer,
+      args.dispenser
+    );
+    const tokens = await dispensedTokens(
+      dispenser,
+      await faucetTokens(hre, dispenser, chainId, args.tokens)
+    );
+    // limits only apply to new requests, the ledger is kept as it is
+    const limiter = await RateLimiter.open(
+      ledgerFile(chainId, args.ledger),
+      DEFAULT_LIMITS
+    );
+    const pending = limiter.pending();
+    const { dryRun } = getExecutorConfig();
+    for (const request of pending) {
+      console.log(
+        `Recovering claimer ${request.claimer} of ${request.address}`
+      );
+      if (dryRun) {
+        await recoverClaimer(dispenser, relayer, request, tokens);
+        continue;
+      }
+      try {
+        await recoverClaimer(dispenser, relayer, request, tokens);
+        delete request.pending;
+      } finally {
+        await limiter.save();
+      }
+    }
+    console.log(`${pending.length} pending requests recovered`);
+    return pending;
+  });
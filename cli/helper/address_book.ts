@@ -1,131 +1,309 @@
-/// Exporting directly due to function build error
+/// Address book of deployed contracts, one file per chain
+/// files are keyed by chain id and live in address-book/<chainId>.json, or in the directory of ADDRESS_BOOK.
+/// example
+/// await recordAddress("MatchingEngine", 31337, engine.address, { txHash, block, deployer });
+/// const engine = await getAddress("MatchingEngine", 31337);
 import fs from "fs/promises";
-const inquirer = require("inquirer");
+import path from "path";
 import "dotenv/config";
+import { utils } from "ethers";
 import { ChainId } from "./constants";
+import { prompt } from "./prompt";
+
+export const ADDRESS_BOOK_VERSION = 1;
+
+/// file written by earlier versions with every chain in it, keyed by chain name
+export const LEGACY_ADDRESS_BOOK = "address-book.json";
+
+export interface DeploymentInfo {
+  address: string;
+  /// artifact deployed at the address
+  artifact?: string;
+  /// constructor args as recorded at deploy time
+  args?: any[];
+  txHash?: string;
+  block?: number;
+  deployer?: string;
+  /// keccak256 of the deployed runtime bytecode
+  bytecodeHash?: string;
+  /// ISO time when the entry was written
+  updatedAt?: string;
+}
+
+export interface StepInfo {
+  txHash: string;
+  block?: number;
+}
+
+export interface AddressBook {
+  version: number;
+  chainId: number;
+  chain: string;
+  contracts: { [name: string]: DeploymentInfo };
+  /// configuration txs applied by deploy:apply
+  steps: { [key: string]: StepInfo };
+}
+
+/// behaviour when a name is recorded again with a different address
+/// prompt asks on interactive terminals and overwrites otherwise, as the prompt defaults to overwrite
+export type OverwriteMode = "prompt" | "yes" | "no";
+
+let overwriteMode: OverwriteMode = "prompt";
+
+export function setOverwriteMode(mode: OverwriteMode) {
+  if (!["prompt", "yes", "no"].includes(mode)) {
+    throw new Error(
+      `Invalid overwrite mode ${mode}, expected prompt, yes or no`
+    );
+  }
+  overwriteMode = mode;
+}
+
+if (process.env.ADDRESS_BOOK_OVERWRITE !== undefined) {
+  setOverwriteMode(process.env.ADDRESS_BOOK_OVERWRITE as OverwriteMode);
+}
+
+/// sets the overwrite mode from --yes and --no-overwrite task flags
+export function overwriteModeFromFlags(yes: boolean, noOverwrite: boolean) {
+  if (yes && noOverwrite) {
+    throw new Error("--yes and --no-overwrite can not be used together");
+  }
+  if (yes || noOverwrite) {
+    setOverwriteMode(yes ? "yes" : "no");
+  }
+}
 
 export function getChainNameFromId(id: number): string {
-  const chainName = ChainId[id]
+  const chainName = ChainId[id];
   if (chainName === undefined) {
     throw new Error(`ChainId ${id} not found`);
   }
   return chainName!;
 }
 
-export async function getAddress(contract: any, chain: ChainId) {
-  const filename = "address-book.json";
-  const exists = await fileExists(filename);
-  const chainName = getChainNameFromId(chain);
-  if (exists) {
-    var content = await loadAddresses();
-    return content[contract][chainName];
-  } else {
-    throw new Error("Contract not registered in address_bidOrdersook.json");
-  }
-}
-
-export async function recordAddress(name: any, chain: any, address: any) {
-  const filename = "address-book.json";
-  const exists = await fileExists(filename);
-  if (exists) {
-    // find out whether info is already written
-    var content = await loadAddresses();
-    if (contractExists(content, name, chain, address)) {
-      const overwrite = await confirmOverwrite(
-        filename,
-        name,
-        chain,
-        content[name][chain]
-      );
-      if (!overwrite) {
-        return false;
-      } else {
-        content[name][chain] = address;
-      }
-    } else {
-      if (!(name in content)) {
-        content[name] = {};
+export function addressBookDir() {
+  return process.env.ADDRESS_BOOK ?? "address-book";
+}
+
+export function addressBookFile(chainId: number) {
+  return path.join(addressBookDir(), `${chainId}.json`);
+}
+
+export function createAddressBook(chainId: number): AddressBook {
+  return {
+    version: ADDRESS_BOOK_VERSION,
+    chainId,
+    chain: ChainId[chainId] ?? String(chainId),
+    contracts: {},
+    steps: {},
+  };
+}
+
+/// loads the address book of a chain, entries of the legacy file are imported when the chain has no file yet
+export async function loadAddressBook(chainId: number): Promise<AddressBook> {
+  const file = addressBookFile(chainId);
+  if (await fileExists(file)) {
+    return readAddressBook(file);
+  }
+  const book = createAddressBook(chainId);
+  if (
+    ChainId[chainId] !== undefined &&
+    (await fileExists(LEGACY_ADDRESS_BOOK))
+  ) {
+    const legacy = JSON.parse(
+      await fs.readFile(LEGACY_ADDRESS_BOOK, { encoding: "utf8" })
+    );
+    for (const [name, chains] of Object.entries<any>(legacy)) {
+      const address = chains[ChainId[chainId]];
+      if (address !== undefined && utils.isAddress(address)) {
+        book.contracts[name] = { address };
       }
-      content[name][chain] = address;
     }
-  } else {
-    console.log(`Writing deployment info to ${filename}`);
-    content = {};
-    content[name] = {};
-    content[name][chain] = address;
   }
+  return book;
+}
 
-  const json = JSON.stringify(content, null, 2);
-  await fs.writeFile(filename, json, { encoding: "utf-8" });
-  return true;
+export async function readAddressBook(file: string): Promise<AddressBook> {
+  const content = await fs.readFile(file, { encoding: "utf8" });
+  const book = JSON.parse(content);
+  try {
+    validateAddressBook(book);
+  } catch (err) {
+    throw new Error(`error reading address book from ${file}: ${err}`);
+  }
+  return book;
+}
+
+/// writes the book through a temporary file so a crash never leaves a partial book
+export async function saveAddressBook(book: AddressBook) {
+  validateAddressBook(book);
+  const file = addressBookFile(book.chainId);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(book, null, 2), {
+    encoding: "utf-8",
+  });
+  await fs.rename(tmp, file);
 }
 
-export async function loadAddresses() {
-  let deploymentConfigFile = process.env.ADDRESS_bidOrdersOOK;
-  if (!deploymentConfigFile) {
-    console.log(
-      'no deploymentConfigFile field found in standard deployment config. attempting to read from default path "./address-book.json"'
+export function validateAddressBook(book: any) {
+  if (book.version !== ADDRESS_BOOK_VERSION) {
+    throw new Error(
+      `address book has version ${book.version}, expected ${ADDRESS_BOOK_VERSION}`
     );
-    deploymentConfigFile = "address-book.json";
   }
-  const content = await fs.readFile(deploymentConfigFile, { encoding: "utf8" });
-  const deployInfo = JSON.parse(content);
-  try {
-    validateDeploymentInfo(deployInfo);
-  } catch (err) {
+  if (!Number.isInteger(book.chainId)) {
+    throw new Error(`address book has invalid chainId ${book.chainId}`);
+  }
+  if (typeof book.contracts !== "object" || typeof book.steps !== "object") {
+    throw new Error("address book requires contracts and steps fields");
+  }
+  for (const [name, info] of Object.entries<any>(book.contracts)) {
+    if (info === null || !utils.isAddress(info.address)) {
+      throw new Error(`required field "${name}.address" is not an address`);
+    }
+    if (
+      info.bytecodeHash !== undefined &&
+      !utils.isHexString(info.bytecodeHash, 32)
+    ) {
+      throw new Error(`field "${name}.bytecodeHash" is not a hash`);
+    }
+  }
+  for (const [key, step] of Object.entries<any>(book.steps)) {
+    if (step === null || !utils.isHexString(step.txHash, 32)) {
+      throw new Error(`required field "${key}.txHash" is not a tx hash`);
+    }
+  }
+}
+
+/// returns the address of a contract on a chain, undefined when it is not recorded
+export async function getAddress(
+  contract: string,
+  chainId: number
+): Promise<string | undefined> {
+  const book = await loadAddressBook(chainId);
+  return book.contracts[contract]?.address;
+}
+
+export async function getDeployment(
+  contract: string,
+  chainId: number
+): Promise<DeploymentInfo | undefined> {
+  const book = await loadAddressBook(chainId);
+  return book.contracts[contract];
+}
+
+/// resolves a contract address, names are looked up in the address book
+export async function resolveContract(
+  contract: string,
+  chainId: number
+): Promise<string> {
+  if (utils.isAddress(contract)) {
+    return contract;
+  }
+  const address = await getAddress(contract, chainId);
+  if (address === undefined) {
     throw new Error(
-      `error reading deploy info from ${deploymentConfigFile}: ${err}`
+      `Contract ${contract} is not registered in the address book of chain ${chainId}`
     );
   }
-  return deployInfo;
+  return address;
 }
 
-export function validateDeploymentInfo(deployInfo: any) {
-  if (Object.keys(deployInfo).length == 0) {
-    throw new Error("loaded address book has no contract info registered");
+/// resolves a token address, names are looked up in the address book
+export async function resolveToken(
+  token: string,
+  chainId: number
+): Promise<string> {
+  if (utils.isAddress(token)) {
+    return token;
   }
-  const chainRequired = (arg: any) => {
-    if (!deployInfo.name.hasOwnProperty(arg)) {
-      throw new Error(`required field "contractName.${arg}" not found`);
+  const address = await getAddress(token, chainId);
+  if (address === undefined) {
+    throw new Error(`Token ${token} is not registered in the address book`);
+  }
+  return address;
+}
+
+/// records a contract with its deployment metadata, returns false when an existing entry is kept
+export async function recordAddress(
+  name: string,
+  chainId: number,
+  address: string,
+  metadata: Omit<DeploymentInfo, "address"> = {}
+) {
+  const book = await loadAddressBook(chainId);
+  const existing = book.contracts[name];
+  if (
+    existing !== undefined &&
+    existing.address.toLowerCase() !== address.toLowerCase()
+  ) {
+    const overwrite = await confirmOverwrite(
+      addressBookFile(chainId),
+      name,
+      book.chain,
+      existing.address
+    );
+    if (!overwrite) {
+      console.log(`Keeping ${name} at ${existing.address}`);
+      return false;
     }
+  }
+  book.contracts[name] = {
+    address: utils.getAddress(address),
+    ...metadata,
+    updatedAt: new Date().toISOString(),
   };
-
-  //chainRequired('chain')
+  await saveAddressBook(book);
+  return true;
 }
 
-export async function fileExists(path: any) {
-  try {
-    await fs.access(path);
-    return true;
-  } catch (e) {
+export async function removeAddress(name: string, chainId: number) {
+  const book = await loadAddressBook(chainId);
+  if (book.contracts[name] === undefined) {
     return false;
   }
+  delete book.contracts[name];
+  await saveAddressBook(book);
+  return true;
 }
 
-export function contractExists(
-  content: any,
-  name: any,
-  chain: any,
-  address: any
-) {
+export async function getStep(
+  key: string,
+  chainId: number
+): Promise<StepInfo | undefined> {
+  const book = await loadAddressBook(chainId);
+  return book.steps[key];
+}
+
+export async function recordStep(key: string, chainId: number, step: StepInfo) {
+  const book = await loadAddressBook(chainId);
+  book.steps[key] = step;
+  await saveAddressBook(book);
+}
+
+export async function fileExists(path: string) {
   try {
-    return (
-      content[name] !== undefined &&
-      content[name][chain] !== undefined &&
-      content[name][chain] !== address
-    );
+    await fs.access(path);
+    return true;
   } catch (e) {
     return false;
   }
 }
 
 export async function confirmOverwrite(
-  filename: any,
-  name: any,
-  chain: any,
-  address: any
+  filename: string,
+  name: string,
+  chain: string,
+  address: string
 ) {
-  const answers = await inquirer.prompt([
+  if (overwriteMode !== "prompt") {
+    return overwriteMode === "yes";
+  }
+  if (!process.stdin.isTTY || process.env.CI) {
+    return true;
+  }
+  const answers = await prompt([
     {
       type: "confirm",
       name: "overwrite",
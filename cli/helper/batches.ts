@@ -0,0 +1,214 @@
+/// resumable batched admin operations, completed batches are journaled so a crashed run resumes where it stopped
+/// a journal belongs to one run, identified by a fingerprint of its operation, params and items
+/// example
+/// const { journal, sent } = await runBatches({
+///   operation: "revokeBlocked",
+///   journal: "data/revoke/1.json",
+///   items: accounts,
+///   batchSize: 50,
+///   send: (batch, label) => sendTx(token, "revokeBlocked", [batch, to], {}, label),
+/// });
+
+import fs from "fs/promises";
+import path from "path";
+import { utils } from "ethers";
+import { fileExists } from "./address_book";
+import { getExecutorConfig, TxOutcome } from "./executor";
+import { prompt } from "./prompt";
+
+export interface BatchEntry {
+  index: number;
+  /// first item of the batch
+  from: number;
+  /// item after the last of the batch
+  to: number;
+  txHash?: string;
+  block?: number;
+  /// why the batch was not sent, like effects which were found on chain
+  note?: string;
+  /// ISO time the batch was journaled
+  at: string;
+}
+
+export interface BatchJournal<M = any> {
+  operation: string;
+  /// keccak256 of the operation, params and items
+  fingerprint: string;
+  batchSize: number;
+  total: number;
+  batches: BatchEntry[];
+  /// data recorded once when the journal is created, like a pre-flight snapshot
+  meta?: M;
+}
+
+export interface BatchRun<T, M = any> {
+  operation: string;
+  /// journal file, not written on dry runs
+  journal: string;
+  items: T[];
+  batchSize: number;
+  /// params which make a run differ besides its items
+  params?: any;
+  send: (batch: T[], label: string) => Promise<TxOutcome>;
+  /// true when a batch took effect already, for batches mined right before a crash
+  isDone?: (batch: T[]) => Promise<boolean>;
+  /// data recorded with a new journal, kept as it was when a run resumes
+  init?: () => Promise<M>;
+  /// asks before every batch
+  confirmEach?: boolean;
+}
+
+export interface BatchResult<M = any> {
+  journal: BatchJournal<M>;
+  /// batches journaled by earlier runs
+  resumed: number;
+  sent: number;
+  /// batches found done on chain without a journal entry
+  found: number;
+  /// batches left when the run was stopped at a confirmation
+  left: number;
+}
+
+/// splits items into batches of at most size items, without an empty trailing batch
+export function splitBatches<T>(items: T[], size: number): T[][] {
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error(`Batch size ${size} is not a positive integer`);
+  }
+  const batches: T[][] = [];
+  for (let from = 0; from < items.length; from += size) {
+    batches.push(items.slice(from, from + size));
+  }
+  return batches;
+}
+
+export function batchFingerprint(
+  operation: string,
+  params: any,
+  items: any[],
+  batchSize: number
+) {
+  return utils.id(JSON.stringify({ operation, params, items, batchSize }));
+}
+
+async function saveJournal(file: string, journal: BatchJournal) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(journal, null, 2), {
+    encoding: "utf8",
+  });
+}
+
+/// loads the journal of a run, or creates it with the meta of init
+export async function openJournal<M>(
+  run: BatchRun<any, M>
+): Promise<BatchJournal<M>> {
+  const fingerprint = batchFingerprint(
+    run.operation,
+    run.params ?? {},
+    run.items,
+    run.batchSize
+  );
+  if (await fileExists(run.journal)) {
+    const journal: BatchJournal<M> = JSON.parse(
+      await fs.readFile(run.journal, { encoding: "utf8" })
+    );
+    if (journal.fingerprint !== fingerprint) {
+      throw new Error(
+        `Journal ${run.journal} is of another ${journal.operation} run, move it away or pass another journal`
+      );
+    }
+    return journal;
+  }
+  return {
+    operation: run.operation,
+    fingerprint,
+    batchSize: run.batchSize,
+    total: run.items.length,
+    batches: [],
+    meta: run.init === undefined ? undefined : await run.init(),
+  };
+}
+
+async function confirmBatch(message: string): Promise<"send" | "stop"> {
+  const { action } = await prompt([
+    {
+      type: "list",
+      name: "action",
+      message,
+      choices: [
+        { name: "Send", value: "send" },
+        { name: "Stop, the journal keeps the progress", value: "stop" },
+      ],
+    },
+  ]);
+  return action;
+}
+
+/// sends the batches of a run in order, skipping those the journal or isDone marks as completed
+export async function runBatches<T, M = any>(
+  run: BatchRun<T, M>
+): Promise<BatchResult<M>> {
+  const { dryRun } = getExecutorConfig();
+  const journal = await openJournal(run);
+  const batches = splitBatches(run.items, run.batchSize);
+  const done = new Set(journal.batches.map((entry) => entry.index));
+  const result = {
+    journal,
+    resumed: done.size,
+    sent: 0,
+    found: 0,
+    left: 0,
+  };
+  if (done.size > 0) {
+    console.log(
+      `Resuming ${run.operation} from ${run.journal}, ${done.size} of ${batches.length} batches are done`
+    );
+  }
+  if (!dryRun) {
+    await saveJournal(run.journal, journal);
+  }
+
+  for (let index = 0; index < batches.length; index++) {
+    if (done.has(index)) {
+      continue;
+    }
+    const batch = batches[index];
+    const from = index * run.batchSize;
+    const label = `${run.operation} batch ${index + 1}/${batches.length}`;
+    const entry = { index, from, to: from + batch.length };
+    if (run.isDone !== undefined && (await run.isDone(batch))) {
+      console.log(`${label} took effect already`);
+      journal.batches.push({
+        ...entry,
+        note: "done on chain",
+        at: new Date().toISOString(),
+      });
+      result.found++;
+    } else {
+      if (
+        run.confirmEach &&
+        !dryRun &&
+        (await confirmBatch(`${label}, items ${from} to ${entry.to - 1}`)) ===
+          "stop"
+      ) {
+        result.left = batches.length - index;
+        break;
+      }
+      const outcome = await run.send(batch, label);
+      if (outcome.dryRun) {
+        result.sent++;
+        continue;
+      }
+      journal.batches.push({
+        ...entry,
+        txHash: outcome.receipt!.transactionHash,
+        block: outcome.receipt!.blockNumber,
+        at: new Date().toISOString(),
+      });
+      result.sent++;
+    }
+    if (!dryRun) {
+      await saveJournal(run.journal, journal);
+    }
+  }
+  return result;
+}
@@ -13,6 +13,12 @@ export const BLACKLISTER_ROLE =
   "0x98db8a220cd0f09badce9f22d0ba7e93edb3d404448cc3560d391ab096ad16e9";
 export const FACTORY_ROLE =
   "0xdfbefbf47cfe66b701d8cfdbce1de81c821590819cb07e71cb01b6602fb0ee27";
+export const ADMIN_ROLE =
+  "0xa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775";
+export const PROMOTER_ROLE =
+  "0x31d21b47aa35f094a3616347c7ceb430b0b5fc40cf6bda2b65bce38bd04a367a";
+export const REPORTER_ROLE =
+  "0x3204c940063673962b481a0395619b3dbbd137589c419e993978c1c71bcf68ec";
 
 export enum ChainId {
   LOCALHOST = 31337,
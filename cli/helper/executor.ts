@@ -0,0 +1,478 @@
+/// executes txs with simulation, gas estimation, EIP-1559 fee caps, per-signer nonces and speed-up
+/// every tx is simulated with eth_call first, so reverts are decoded into custom errors
+/// like TooManyMatches(n) before anything is sent. a dry run stops after the simulation.
+/// example
+/// await setupExecutor(hre, taskArgs);
+/// const { result, receipt } = await sendTx(engine.connect(deployer), "addPair", [base, quote], {}, "Add pair");
+/// logs
+/// Add pair: 0xf81ded9ca5936a06f9a4ee53db8a568eb84ffd39095ff6dfe0ff5aa60bb98058
+/// Mining...
+/// Mined!
+
+import {
+  BigNumber,
+  Contract,
+  ContractFactory,
+  PayableOverrides,
+  providers,
+  Signer,
+  utils,
+} from "ethers";
+import { types } from "hardhat/config";
+import {
+  ConfigurableTaskDefinition,
+  HardhatRuntimeEnvironment,
+} from "hardhat/types";
+
+export interface ExecutorConfig {
+  /// only simulate txs, DRY_RUN=true sets it for every task
+  dryRun: boolean;
+  confirmations: number;
+  /// percentage added to the estimated gas limit
+  gasBuffer: number;
+  /// cap of maxFeePerGas, or of gasPrice on legacy networks
+  maxFeePerGas?: BigNumber;
+  /// cap of maxPriorityFeePerGas
+  maxPriorityFeePerGas?: BigNumber;
+  /// milliseconds to wait for a receipt before the tx is sped up
+  timeout: number;
+  /// milliseconds between receipt polls
+  pollInterval: number;
+  /// percentage fees are raised by on speed-up, nodes require at least 10 to replace a tx
+  speedUp: number;
+  /// number of speed-ups before giving up on a tx
+  retries: number;
+  /// skips progress logs of sent and mined txs, for tasks sending many txs
+  quiet: boolean;
+}
+
+export interface TxOutcome {
+  /// return value of the simulation, unwrapped like callStatic when there is a single output
+  result?: any;
+  tx?: providers.TransactionResponse;
+  receipt?: providers.TransactionReceipt;
+  gasEstimate?: BigNumber;
+  dryRun: boolean;
+}
+
+export interface ExecutorTaskArgs {
+  dryRun?: boolean;
+  confirmations?: number;
+  maxFee?: string;
+  priorityFee?: string;
+}
+
+const config: ExecutorConfig = {
+  dryRun: ["true", "1"].includes(process.env.DRY_RUN ?? ""),
+  confirmations: 1,
+  gasBuffer: 20,
+  timeout: 120000,
+  pollInterval: 1000,
+  speedUp: 15,
+  retries: 3,
+  quiet: false,
+};
+
+export function configureExecutor(options: Partial<ExecutorConfig>) {
+  if (options.speedUp !== undefined && options.speedUp < 10) {
+    throw new Error("speedUp must be at least 10 percent to replace a tx");
+  }
+  Object.assign(config, options);
+}
+
+export function getExecutorConfig(): ExecutorConfig {
+  return { ...config };
+}
+
+/// registers --dry-run, --confirmations, --max-fee and --priority-fee on a task
+export function addExecutorParams(
+  definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+  return definition
+    .addFlag("dryRun", "Only simulate txs without sending them")
+    .addOptionalParam(
+      "confirmations",
+      "Confirmations to wait for each tx",
+      undefined,
+      types.int
+    )
+    .addOptionalParam("maxFee", "Cap of max fee per gas in gwei")
+    .addOptionalParam("priorityFee", "Cap of max priority fee per gas in gwei");
+}
+
+/// applies executor params of a task and loads custom errors of compiled artifacts
+export async function setupExecutor(
+  hre: HardhatRuntimeEnvironment,
+  args: ExecutorTaskArgs = {}
+) {
+  configureExecutor({
+    dryRun: config.dryRun || args.dryRun === true,
+    confirmations: args.confirmations ?? config.confirmations,
+    maxFeePerGas:
+      args.maxFee === undefined
+        ? config.maxFeePerGas
+        : utils.parseUnits(args.maxFee, "gwei"),
+    maxPriorityFeePerGas:
+      args.priorityFee === undefined
+        ? config.maxPriorityFeePerGas
+        : utils.parseUnits(args.priorityFee, "gwei"),
+  });
+  if (hre.network.name === "hardhat" || hre.network.name === "localhost") {
+    configureExecutor({ pollInterval: 200 });
+  }
+  await registerArtifactErrors(hre);
+  if (config.dryRun) {
+    console.log("Dry run: txs are simulated and not sent");
+  }
+}
+
+// error fragments of every compiled contract by selector
+const errorFragments: { [selector: string]: utils.ErrorFragment } = {};
+
+export function registerErrors(iface: utils.Interface) {
+  for (const fragment of Object.values(iface.errors)) {
+    errorFragments[iface.getSighash(fragment)] = fragment;
+  }
+}
+
+let artifactsLoaded = false;
+
+export async function registerArtifactErrors(hre: HardhatRuntimeEnvironment) {
+  if (artifactsLoaded) {
+    return;
+  }
+  for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+    const { abi } = await hre.artifacts.readArtifact(name);
+    const errors = abi.filter((item: any) => item.type === "error");
+    if (errors.length > 0) {
+      registerErrors(new utils.Interface(errors));
+    }
+  }
+  artifactsLoaded = true;
+}
+
+/// finds revert data in errors of hardhat and json rpc providers, which nest it differently
+function findRevertData(error: any, depth = 0): string | undefined {
+  if (error === null || typeof error !== "object" || depth > 4) {
+    return undefined;
+  }
+  if (typeof error.data === "string" && utils.isHexString(error.data)) {
+    return error.data;
+  }
+  for (const key of ["data", "error", "originalError"]) {
+    const data = findRevertData(error[key], depth + 1);
+    if (data !== undefined) {
+      return data;
+    }
+  }
+  if (typeof error.body === "string") {
+    try {
+      return findRevertData(JSON.parse(error.body), depth + 1);
+    } catch (e) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/// decodes revert data into Error(string), Panic(uint256) or a custom error like InvalidRole(role, sender)
+export function decodeRevertData(
+  data: string,
+  iface?: utils.Interface
+): string | undefined {
+  if (data.length < 10) {
+    return undefined;
+  }
+  const selector = data.slice(0, 10);
+  const payload = "0x" + data.slice(10);
+  if (selector === "0x08c379a0") {
+    return utils.defaultAbiCoder.decode(["string"], payload)[0];
+  }
+  if (selector === "0x4e487b71") {
+    return `Panic(${utils.defaultAbiCoder.decode(["uint256"], payload)[0]})`;
+  }
+  const fragment =
+    iface?.errors === undefined
+      ? errorFragments[selector]
+      : Object.values(iface.errors).find(
+          (error) => iface.getSighash(error) === selector
+        ) ?? errorFragments[selector];
+  if (fragment === undefined) {
+    return `unknown error ${selector}`;
+  }
+  const args = utils.defaultAbiCoder.decode(fragment.inputs, payload);
+  return `${fragment.name}(${args.map(String).join(", ")})`;
+}
+
+/// describes why a tx failed, decoding revert data when there is any
+export function describeError(error: any, iface?: utils.Interface): string {
+  const data = findRevertData(error);
+  const decoded =
+    data === undefined ? undefined : decodeRevertData(data, iface);
+  return decoded ?? error.reason ?? error.message ?? String(error);
+}
+
+// next nonce by chain id and signer address
+const nonces: { [key: string]: number } = {};
+
+async function nonceKey(signer: Signer) {
+  return `${await signer.getChainId()}:${(
+    await signer.getAddress()
+  ).toLowerCase()}`;
+}
+
+/// reserves the next nonce of a signer, txs sent back to back never share a nonce.
+/// the pending count is still read, so txs sent outside the executor are not reused.
+export async function nextNonce(signer: Signer): Promise<number> {
+  const key = await nonceKey(signer);
+  const pending = await signer.getTransactionCount("pending");
+  nonces[key] = Math.max(nonces[key] ?? 0, pending);
+  return nonces[key]++;
+}
+
+/// forgets the tracked nonce so it is read from the network again
+export async function resetNonce(signer: Signer) {
+  delete nonces[await nonceKey(signer)];
+}
+
+/// fee overrides from the network fee data, raised by a percentage above previous fees on speed-up
+async function feeOverrides(
+  provider: providers.Provider,
+  previous?: providers.TransactionResponse
+): Promise<PayableOverrides> {
+  const feeData = await provider.getFeeData();
+  const raise = (value?: BigNumber) =>
+    value?.mul(100 + config.speedUp).div(100);
+  const max = (a: BigNumber, b?: BigNumber) => (b && b.gt(a) ? b : a);
+  const cap = (value: BigNumber, limit?: BigNumber) =>
+    limit && value.gt(limit) ? limit : value;
+
+  if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+    // a legacy tx is replaced when both fees are above its gasPrice
+    const priority = cap(
+      max(
+        feeData.maxPriorityFeePerGas,
+        raise(previous?.maxPriorityFeePerGas ?? previous?.gasPrice)
+      ),
+      config.maxPriorityFeePerGas
+    );
+    const maxFee = cap(
+      max(
+        feeData.maxFeePerGas,
+        raise(previous?.maxFeePerGas ?? previous?.gasPrice)
+      ),
+      config.maxFeePerGas
+    );
+    return {
+      maxPriorityFeePerGas: priority,
+      maxFeePerGas: max(maxFee, priority),
+    };
+  }
+  if (feeData.gasPrice === null) {
+    throw new Error("Provider reports neither EIP-1559 fees nor a gasPrice");
+  }
+  return {
+    gasPrice: cap(
+      max(feeData.gasPrice, raise(previous?.gasPrice)),
+      config.maxFeePerGas
+    ),
+  };
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/// returns the receipt of whichever version of a tx was mined with enough confirmations
+async function receiptOf(
+  provider: providers.Provider,
+  txs: providers.TransactionResponse[],
+  confirmations: number
+): Promise<providers.TransactionReceipt | undefined> {
+  for (const tx of txs) {
+    const receipt = await provider.getTransactionReceipt(tx.hash);
+    if (receipt && receipt.confirmations >= confirmations) {
+      return receipt;
+    }
+  }
+  return undefined;
+}
+
+/// polls receipts of every version of a tx until one is confirmed or the timeout passes
+async function waitForAny(
+  provider: providers.Provider,
+  txs: providers.TransactionResponse[]
+): Promise<providers.TransactionReceipt | undefined> {
+  const deadline = Date.now() + config.timeout;
+  while (true) {
+    const receipt = await receiptOf(provider, txs, config.confirmations);
+    if (receipt !== undefined || Date.now() >= deadline) {
+      return receipt;
+    }
+    await sleep(config.pollInterval);
+  }
+}
+
+function progress(message: string) {
+  if (!config.quiet) {
+    console.log(message);
+  }
+}
+
+/// sends a populated tx request through simulation, estimation, fees and nonce tracking
+export async function sendRequest(
+  signer: Signer,
+  request: providers.TransactionRequest,
+  label: string,
+  iface?: utils.Interface,
+  method?: string
+): Promise<TxOutcome> {
+  const provider = signer.provider!;
+  const from = await signer.getAddress();
+  const unsigned = { ...request, from };
+
+  let returned: string;
+  let gasEstimate: BigNumber;
+  try {
+    returned = await signer.call(unsigned);
+    gasEstimate = await signer.estimateGas(unsigned);
+  } catch (error) {
+    throw new Error(`${label} reverts: ${describeError(error, iface)}`);
+  }
+  let result: any;
+  if (iface !== undefined && method !== undefined) {
+    const decoded = iface.decodeFunctionResult(method, returned);
+    result = decoded.length == 1 ? decoded[0] : decoded;
+  }
+  if (config.dryRun) {
+    console.log(`Dry run: ${label} succeeds using ${gasEstimate} gas`);
+    return { result, gasEstimate, dryRun: true };
+  }
+
+  let nonce = request.nonce ?? (await nextNonce(signer));
+  const base = {
+    ...request,
+    nonce,
+    gasLimit:
+      request.gasLimit ?? gasEstimate.mul(100 + config.gasBuffer).div(100),
+  };
+  const hasFees =
+    request.gasPrice !== undefined || request.maxFeePerGas !== undefined;
+  let tx: providers.TransactionResponse;
+  for (let retried = false; ; retried = true) {
+    try {
+      tx = await signer.sendTransaction(
+        hasFees ? base : { ...base, ...(await feeOverrides(provider)) }
+      );
+      break;
+    } catch (error) {
+      await resetNonce(signer);
+      const reason = describeError(error, iface);
+      // a tracked nonce goes stale when sent txs are dropped or the chain is reverted, it is read again once
+      if (retried || request.nonce !== undefined || !/nonce/i.test(reason)) {
+        throw new Error(`${label} failed: ${reason}`);
+      }
+      nonce = await nextNonce(signer);
+      base.nonce = nonce;
+    }
+  }
+  progress(`${label}: ${tx.hash}`);
+  progress("Mining...");
+
+  const sent = [tx];
+  for (let attempt = 0; ; ) {
+    const receipt = await waitForAny(provider, sent);
+    if (receipt !== undefined) {
+      if (receipt.status === 0) {
+        // replay at the mined block to decode why it reverted
+        const reason = await provider
+          .call(unsigned, receipt.blockNumber)
+          .then(() => "reverted")
+          .catch((error) => describeError(error, iface));
+        throw new Error(
+          `${label} reverted in ${receipt.transactionHash}: ${reason}`
+        );
+      }
+      progress("Mined!");
+      const mined = sent.find((tx) => tx.hash === receipt.transactionHash)!;
+      return { result, tx: mined, receipt, gasEstimate, dryRun: false };
+    }
+    if ((await receiptOf(provider, sent, 1)) !== undefined) {
+      // mined but not confirmed enough yet, keep waiting without a speed-up
+      continue;
+    }
+    if ((await provider.getTransactionCount(from, "latest")) > nonce) {
+      throw new Error(
+        `${label} with nonce ${nonce} was replaced by another tx`
+      );
+    }
+    if (attempt++ >= config.retries) {
+      throw new Error(
+        `${label} was not mined after ${config.retries} speed-ups, last tx ${
+          sent[sent.length - 1].hash
+        }`
+      );
+    }
+    // stuck or dropped, send it again with the same nonce and raised fees
+    // fees of the request are dropped, a gasPrice next to EIP-1559 fees makes the tx invalid
+    const { gasPrice, maxFeePerGas, maxPriorityFeePerGas, ...unpriced } = base;
+    let replacement: providers.TransactionResponse;
+    try {
+      replacement = await signer.sendTransaction({
+        ...unpriced,
+        ...(await feeOverrides(provider, sent[sent.length - 1])),
+      });
+    } catch (error) {
+      // a tx mined since the checks above fails the speed-up with nonce or replacement fee too low,
+      // so the nonce is checked again after waiting on what was sent
+      console.log(
+        `Speeding up ${label} failed: ${describeError(error, iface)}`
+      );
+      continue;
+    }
+    console.log(`Speeding up ${label}: ${replacement.hash}`);
+    sent.push(replacement);
+  }
+}
+
+/// calls a contract method through the executor
+export async function sendTx(
+  contract: Contract,
+  method: string,
+  args: any[] = [],
+  overrides: PayableOverrides = {},
+  label = method
+): Promise<TxOutcome> {
+  const request = await contract.populateTransaction[method](
+    ...args,
+    overrides
+  );
+  return sendRequest(
+    contract.signer,
+    request,
+    label,
+    contract.interface,
+    method
+  );
+}
+
+/// deploys a contract through the executor, the address is predicted from the nonce on dry runs
+export async function sendDeploy(
+  factory: ContractFactory,
+  args: any[] = [],
+  label = "Deploy"
+): Promise<TxOutcome & { address: string }> {
+  const request = factory.getDeployTransaction(...args);
+  const signer = factory.signer;
+  if (config.dryRun) {
+    const nonce = await nextNonce(signer);
+    const address = utils.getContractAddress({
+      from: await signer.getAddress(),
+      nonce,
+    });
+    const outcome = await sendRequest(signer, request, label);
+    return { ...outcome, address };
+  }
+  const outcome = await sendRequest(signer, request, label);
+  return { ...outcome, address: outcome.receipt!.contractAddress };
+}
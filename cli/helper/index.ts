@@ -1,3 +1,9 @@
-export * from "./address_book"
-export * from "./transactions"
-export * from "./constants"
+export * from "./address_book";
+export * from "./transactions";
+export * from "./constants";
+export * from "./roles";
+export * from "./executor";
+export * from "./batches";
+export * from "./verifications";
+export * from "./storage";
+export * from "./prompt";
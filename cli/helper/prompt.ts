@@ -0,0 +1,18 @@
+/// interactive prompts of tasks, inquirer is only loaded when a task asks something
+/// example
+/// if (!(await confirm(`Send ${txs.length} txs?`))) return;
+/// const { signer } = await prompt<{ signer: string }>([{ type: "list", name: "signer", message: "Choose signer", choices }]);
+
+/// asks inquirer questions, answers are keyed by the name of each question
+export async function prompt<T = any>(questions: object[]): Promise<T> {
+  const inquirer = require("inquirer");
+  return inquirer.prompt(questions);
+}
+
+/// asks a yes or no question before sending, no is the default
+export async function confirm(message: string): Promise<boolean> {
+  const { ok } = await prompt<{ ok: boolean }>([
+    { type: "confirm", name: "ok", message, default: false },
+  ]);
+  return ok;
+}
@@ -0,0 +1,43 @@
+import { utils } from "ethers";
+import {
+  ADMIN_ROLE,
+  BLACKLISTER_ROLE,
+  BURNER_ROLE,
+  DEFAULT_ADMIN_ROLE,
+  DEPOSITOR_ROLE,
+  FACTORY_ROLE,
+  MINTER_ROLE,
+  PAUSER_ROLE,
+  PROMOTER_ROLE,
+  REPORTER_ROLE,
+} from "./constants";
+
+export const ROLES: { [name: string]: string } = {
+  DEFAULT_ADMIN_ROLE,
+  MINTER_ROLE,
+  BURNER_ROLE,
+  PAUSER_ROLE,
+  DEPOSITOR_ROLE,
+  BLACKLISTER_ROLE,
+  FACTORY_ROLE,
+  ADMIN_ROLE,
+  PROMOTER_ROLE,
+  REPORTER_ROLE,
+};
+
+/// resolves a role name or hash into the role hash
+/// roles which are not in constants are hashed like keccak256("REPORTER_ROLE") in contracts
+export function resolveRole(role: string): string {
+  if (utils.isHexString(role, 32)) {
+    return role;
+  }
+  return ROLES[role] ?? utils.keccak256(utils.toUtf8Bytes(role));
+}
+
+/// returns the name of a known role hash, or the hash itself
+export function roleName(hash: string): string {
+  const name = Object.keys(ROLES).find(
+    (name) => ROLES[name] === hash.toLowerCase()
+  );
+  return name ?? hash;
+}
@@ -0,0 +1,42 @@
+import { Contract, providers, Signer, utils } from "ethers";
+
+const ERC20_ABI = [
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+/// reads a raw storage word of a contract, for config which has no getter
+/// json rpc nodes get the slot as a quantity, hardhat 2.8 rejects the 32 byte slots of getStorageAt
+export async function readWord(
+  contract: Contract,
+  slot: string | number
+): Promise<string> {
+  const { provider } = contract;
+  if (provider instanceof providers.JsonRpcProvider) {
+    return provider.send("eth_getStorageAt", [
+      contract.address,
+      utils.hexValue(slot),
+      "latest",
+    ]);
+  }
+  return provider.getStorageAt(contract.address, slot);
+}
+
+/// reads an address kept in the lower 20 bytes of a storage word
+export async function readAddress(contract: Contract, slot: string | number) {
+  return utils.getAddress(
+    utils.hexDataSlice(await readWord(contract, slot), 12)
+  );
+}
+
+export function erc20(
+  address: string,
+  signerOrProvider: Signer | providers.Provider
+) {
+  return new Contract(address, ERC20_ABI, signerOrProvider);
+}
@@ -1,65 +1,133 @@
-
 /// executes txs without race conditions in production environment
 /// example
 /// const tx = await factory.connect(deployer).setFeeTo(deployer.address);
 /// await executeTx(tx, "Execute setFeeTo at")
-/// logs 
+/// logs
 /// Executes setFeeTo at: 0xf81ded9ca5936a06f9a4ee53db8a568eb84ffd39095ff6dfe0ff5aa60bb98058
 
 import { ethers } from "ethers";
 import { ChainId, recordAddress, getAddress } from ".";
+import { getExecutorConfig, sendDeploy } from "./executor";
 
 /// Mining...
+/// txs which are not sent yet should go through sendTx in executor.ts instead
 export async function executeTx(tx: any, event: string) {
-    console.log(`${event}: ${tx.hash}`);
-    console.log("Mining...");
-    await tx.wait();
-    console.log("Mined!");
+  console.log(`${event}: ${tx.hash}`);
+  console.log("Mining...");
+  const receipt = await tx.wait(getExecutorConfig().confirmations);
+  console.log("Mined!");
+  return receipt;
 }
-  
+
 /// deploys a contract without race conditions in production environment
 /// example
-/// console.log(`Deploying Standard AMM router with the account: ${deployer.address}`);  
+/// console.log(`Deploying Standard AMM router with the account: ${deployer.address}`);
 /// const Router = await ethers.getContractFactory("UniswapV2Router02");
 /// const router = await Router.deploy(factory.address, weth);
 /// await deployContract(router, "UniswapV2Router02")
-/// logs 
+/// logs
 /// UniswapV2Router02 address: 0x4633C1F0F633Cc42FD0Ba394762283606C88ae52
 /// Mining...
-export async function deployContract(deploy: ethers.Contract, contract: string){
-    const chainId = (await deploy.provider.getNetwork()).chainId;
-    // Get network from chain ID
-    let chain = ChainId[chainId]
-    console.log(`${contract} address at Chain Id of ${chain}:`, deploy.address);
-    console.log(`Mining at ${deploy.hash}...`);
-    await deploy.deployed();
-    console.log("Mined!");
-    await recordAddress(contract, chain, deploy.address)
+export async function deployContract(
+  deploy: ethers.Contract,
+  contract: string,
+  metadata: { artifact?: string; args?: any[] } = {}
+) {
+  const chainId = (await deploy.provider.getNetwork()).chainId;
+  // Get network from chain ID
+  let chain = ChainId[chainId] ?? chainId;
+  console.log(`${contract} address at Chain Id of ${chain}:`, deploy.address);
+  console.log(`Mining at ${deploy.deployTransaction.hash}...`);
+  const receipt = await deploy.deployTransaction.wait();
+  console.log("Mined!");
+  const code = await deploy.provider.getCode(deploy.address);
+  await recordAddress(contract, chainId, deploy.address, {
+    artifact: metadata.artifact,
+    args: metadata.args && serializeArgs(metadata.args),
+    txHash: receipt.transactionHash,
+    block: receipt.blockNumber,
+    deployer: receipt.from,
+    bytecodeHash: ethers.utils.keccak256(code),
+  });
+}
+
+/// constructor args as JSON values for the address book, BigNumbers become decimal strings
+/// example
+/// serializeArgs([parseEther("1"), [trader1.address]]) // ["1000000000000000000", ["0x..."]]
+export function serializeArgs(args: any[]): any[] {
+  return args.map((arg) => {
+    if (ethers.BigNumber.isBigNumber(arg)) {
+      return arg.toString();
+    }
+    if (Array.isArray(arg)) {
+      return serializeArgs(arg);
+    }
+    return typeof arg === "object" && arg !== null ? String(arg) : arg;
+  });
+}
+
+/// deploys a contract through the executor and records it with deployment metadata
+/// example
+/// const Engine = await ethers.getContractFactory("MatchingEngine", deployer);
+/// const engine = await deployAndRecord(Engine, "MatchingEngine", []);
+/// logs
+/// Deploy MatchingEngine: 0x...
+/// Mining...
+/// Mined!
+/// MatchingEngine address at Chain Id of LOCALHOST: 0x4633C1F0F633Cc42FD0Ba394762283606C88ae52
+export async function deployAndRecord(
+  factory: ethers.ContractFactory,
+  contract: string,
+  args: any[] = [],
+  artifact?: string
+) {
+  const deployed = await sendDeploy(factory, args, `Deploy ${contract}`);
+  if (deployed.dryRun) {
+    console.log(`${contract} would be deployed at ${deployed.address}`);
+    return { ...deployed, contract: factory.attach(deployed.address) };
+  }
+  const provider = factory.signer.provider!;
+  const chainId = (await provider.getNetwork()).chainId;
+  console.log(
+    `${contract} address at Chain Id of ${ChainId[chainId] ?? chainId}:`,
+    deployed.address
+  );
+  const code = await provider.getCode(deployed.address);
+  await recordAddress(contract, chainId, deployed.address, {
+    artifact,
+    args: serializeArgs(args),
+    txHash: deployed.receipt!.transactionHash,
+    block: deployed.receipt!.blockNumber,
+    deployer: deployed.receipt!.from,
+    bytecodeHash: ethers.utils.keccak256(code),
+  });
+  return { ...deployed, contract: factory.attach(deployed.address) };
 }
 
 export async function deploySubgraph(hre: any, contractName: any) {
   const chainId = (await hre.provider.getNetwork()).chainId;
   const address = getAddress(contractName, chainId);
-  const a = hre.run('init', {contractName, address})
-  .then(() => console.log(`Subgraph deployed at ${a}`))
-  .catch((error: any) => {
-    console.error(error);
-    process.exit(1);
-  });
+  const a = hre
+    .run("init", { contractName, address })
+    .then(() => console.log(`Subgraph deployed at ${a}`))
+    .catch((error: any) => {
+      console.error(error);
+      process.exit(1);
+    });
 }
 
 export async function executeFrom(ethers: any, deployer: any, func: any) {
-    // Get before state
-    console.log(
-      `Deployer balance: ${ethers.utils.formatEther(
-        await deployer.getBalance()
-      )} ETH`
-    );
-    await func()
-    // Get results
-    console.log(
-      `Deployer balance: ${ethers.utils.formatEther(
-        await deployer.getBalance()
-      )} ETH`
-    );
-  }
\ No newline at end of file
+  // Get before state
+  console.log(
+    `Deployer balance: ${ethers.utils.formatEther(
+      await deployer.getBalance()
+    )} ETH`
+  );
+  await func();
+  // Get results
+  console.log(
+    `Deployer balance: ${ethers.utils.formatEther(
+      await deployer.getBalance()
+    )} ETH`
+  );
+}
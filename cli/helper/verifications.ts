@@ -1,9 +1,86 @@
+/// verifies contract sources on block explorers through hardhat-etherscan
+/// example
+/// const contract = await fullyQualifiedName(hre, "MatchingEngine");
+/// await verify(hre, contract, engine.address, []);
+import { BigNumber, providers, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+/// EIP-1167 minimal proxy runtime code around the implementation address, as deployed by CloneFactory
+const CLONE_PREFIX = "0x363d3d373d3d3d363d73";
+const CLONE_SUFFIX = "5af43d82803e903d91602b57fd5bf3";
 
-export async function verify(hre, contract, at, args) {
-    await hre.run("verify:verify", {
-        contract: "contracts/tokens/meter.sol:MeterToken",
-        address: at,
-        cosntructorArguments: args,
-      });
-}
\ No newline at end of file
+/// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const EIP1967_IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+export interface Implementation {
+  kind: "clone" | "eip1967";
+  implementation: string;
+}
+
+export async function verify(
+  hre: HardhatRuntimeEnvironment,
+  contract: string,
+  at: string,
+  args: any[] = []
+) {
+  await hre.run("verify:verify", {
+    contract,
+    address: at,
+    constructorArguments: args,
+  });
+}
+
+/// resolves an artifact name like MatchingEngine to contracts/exchange/MatchingEngine.sol:MatchingEngine
+export async function fullyQualifiedName(
+  hre: HardhatRuntimeEnvironment,
+  artifact: string
+) {
+  const { sourceName, contractName } = await hre.artifacts.readArtifact(
+    artifact
+  );
+  return `${sourceName}:${contractName}`;
+}
+
+/// constructor inputs of an artifact, empty for initializable contracts
+export async function constructorInputs(
+  hre: HardhatRuntimeEnvironment,
+  artifact: string
+): Promise<any[]> {
+  const { abi } = await hre.artifacts.readArtifact(artifact);
+  return abi.find((f: any) => f.type === "constructor")?.inputs ?? [];
+}
+
+/// implementation behind a minimal proxy clone or an EIP-1967 proxy, undefined for other contracts
+export async function implementationOf(
+  provider: providers.Provider,
+  address: string
+): Promise<Implementation | undefined> {
+  const code = (await provider.getCode(address)).toLowerCase();
+  if (code === "0x") {
+    return undefined;
+  }
+  if (
+    code.length === 2 + 45 * 2 &&
+    code.startsWith(CLONE_PREFIX) &&
+    code.endsWith(CLONE_SUFFIX)
+  ) {
+    return {
+      kind: "clone",
+      implementation: utils.getAddress(
+        "0x" + code.slice(CLONE_PREFIX.length, CLONE_PREFIX.length + 40)
+      ),
+    };
+  }
+  const slot = await provider.getStorageAt(
+    address,
+    EIP1967_IMPLEMENTATION_SLOT
+  );
+  if (!BigNumber.from(slot).isZero()) {
+    return {
+      kind: "eip1967",
+      implementation: utils.getAddress(utils.hexDataSlice(slot, 12)),
+    };
+  }
+  return undefined;
+}
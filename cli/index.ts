@@ -1,5 +1,16 @@
-
 import "./orderbook"
-
-
-
+import "./indexer"
+import "./deploy"
+import "./addressbook"
+import "./verify"
+import "./sim"
+import "./bench"
+import "./membership"
+import "./treasury"
+import "./accountant"
+import "./safu"
+import "./faucet"
+import "./ccip"
+import "./staking"
+import "./legacy"
+import "./orders"
\ No newline at end of file
@@ -0,0 +1,148 @@
+/// Trade prints and OHLCV candles built from indexed OrderMatched fills
+/// example
+/// const trades = toTrades(store);
+/// const candles = toCandles(trades, parseInterval("5m"));
+/// console.log(toCSV(candles));
+
+import { BigNumber, utils } from "ethers";
+import { PRICE_DECIMALS } from "../sdk";
+import { baseToQuote, quoteToBase } from "../sdk/book";
+import { EngineStore } from "./store";
+
+export interface Trade {
+  orderbook: string;
+  timestamp: number;
+  block: number;
+  txHash: string;
+  logIndex: number;
+  side: "buy" | "sell";
+  price: BigNumber;
+  baseAmount: BigNumber;
+  quoteAmount: BigNumber;
+  taker: string;
+  maker: string;
+}
+
+export interface Candle {
+  orderbook: string;
+  /// start of the interval in unix seconds
+  time: number;
+  open: BigNumber;
+  high: BigNumber;
+  low: BigNumber;
+  close: BigNumber;
+  volume: BigNumber;
+  quoteVolume: BigNumber;
+  trades: number;
+}
+
+const UNITS: { [unit: string]: number } = { m: 60, h: 3600, d: 86400 };
+
+/// parses intervals like 1m, 5m, 1h or 1d into seconds
+export function parseInterval(interval: string): number {
+  const match = /^(\d+)([mhd])$/.exec(interval);
+  if (match === null || Number(match[1]) == 0) {
+    throw new Error(
+      `Invalid interval ${interval}, expected e.g. 1m, 5m, 1h, 1d`
+    );
+  }
+  return Number(match[1]) * UNITS[match[2]];
+}
+
+/// converts fills into trade prints with both base and quote amounts, fills of unknown pairs are skipped
+export function toTrades(store: EngineStore, orderbook?: string): Trade[] {
+  const trades: Trade[] = [];
+  for (const fill of store.fills) {
+    const pair = store.pairs[fill.orderbook];
+    if (
+      pair === undefined ||
+      (orderbook !== undefined && fill.orderbook !== orderbook.toLowerCase())
+    ) {
+      continue;
+    }
+    const price = BigNumber.from(fill.price);
+    const amount = BigNumber.from(fill.amount);
+    // buyers give quote asset and sellers give base asset
+    trades.push({
+      orderbook: fill.orderbook,
+      timestamp: fill.timestamp,
+      block: fill.block,
+      txHash: fill.txHash,
+      logIndex: fill.logIndex,
+      side: fill.isBid ? "buy" : "sell",
+      price,
+      baseAmount: fill.isBid ? quoteToBase(pair, price, amount) : amount,
+      quoteAmount: fill.isBid ? amount : baseToQuote(pair, price, amount),
+      taker: fill.sender,
+      maker: fill.owner,
+    });
+  }
+  return trades.sort((a, b) => a.block - b.block || a.logIndex - b.logIndex);
+}
+
+/// buckets trades into candles per orderbook, intervals without trades are omitted
+export function toCandles(trades: Trade[], interval: number): Candle[] {
+  const candles: { [key: string]: Candle } = {};
+  for (const trade of trades) {
+    const time = trade.timestamp - (trade.timestamp % interval);
+    const key = `${trade.orderbook}:${time}`;
+    const candle = candles[key];
+    if (candle === undefined) {
+      candles[key] = {
+        orderbook: trade.orderbook,
+        time,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volume: trade.baseAmount,
+        quoteVolume: trade.quoteAmount,
+        trades: 1,
+      };
+      continue;
+    }
+    candle.high = trade.price.gt(candle.high) ? trade.price : candle.high;
+    candle.low = trade.price.lt(candle.low) ? trade.price : candle.low;
+    candle.close = trade.price;
+    candle.volume = candle.volume.add(trade.baseAmount);
+    candle.quoteVolume = candle.quoteVolume.add(trade.quoteAmount);
+    candle.trades += 1;
+  }
+  return Object.values(candles).sort(
+    (a, b) => a.orderbook.localeCompare(b.orderbook) || a.time - b.time
+  );
+}
+
+/// formats prices and amounts with the pair's decimals for export
+export function formatRows(
+  store: EngineStore,
+  rows: (Trade | Candle)[]
+): { [column: string]: string | number }[] {
+  return rows.map((row) => {
+    const pair = store.pairs[row.orderbook];
+    const formatted: { [column: string]: string | number } = {};
+    for (const [column, value] of Object.entries(row)) {
+      if (!BigNumber.isBigNumber(value)) {
+        formatted[column] = value as string | number;
+      } else if (["open", "high", "low", "close", "price"].includes(column)) {
+        formatted[column] = utils.formatUnits(value, PRICE_DECIMALS);
+      } else if (["volume", "baseAmount"].includes(column)) {
+        formatted[column] = utils.formatUnits(value, pair.bDecimal);
+      } else {
+        formatted[column] = utils.formatUnits(value, pair.qDecimal);
+      }
+    }
+    return formatted;
+  });
+}
+
+export function toCSV(rows: { [column: string]: string | number }[]): string {
+  if (rows.length == 0) {
+    return "";
+  }
+  const columns = Object.keys(rows[0]);
+  const lines = rows.map((row) =>
+    columns.map((column) => String(row[column])).join(",")
+  );
+  return [columns.join(","), ...lines].join("\n") + "\n";
+}
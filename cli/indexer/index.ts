@@ -0,0 +1,4 @@
+import "./tasks";
+export * from "./store";
+export * from "./indexer";
+export * from "./candles";
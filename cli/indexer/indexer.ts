@@ -0,0 +1,86 @@
+/// Pages through MatchingEngine logs by block range and applies them to an EngineStore
+/// example
+/// const store = await loadCheckpoint(file, chainId, engine.address);
+/// await runIndexer(engine, store, { batchSize: 2000, checkpoint: file });
+
+import { Contract, providers } from "ethers";
+import { applyEvent, EngineStore, saveCheckpoint } from "./store";
+
+export const INDEXED_EVENTS = [
+  "PairAdded",
+  "OrderPlaced",
+  "OrderMatched",
+  "OrderCanceled",
+  "OrderDeposit",
+];
+
+export interface IndexerOptions {
+  /// first block to index, continues from the store's last block as default
+  fromBlock?: number;
+  /// last block to index, latest block as default
+  toBlock?: number;
+  batchSize?: number;
+  /// checkpoint file written after each batch
+  checkpoint?: string;
+  onBatch?: (fromBlock: number, toBlock: number, logs: number) => void;
+}
+
+/// reads and applies logs up to toBlock, returns the last indexed block
+export async function runIndexer(
+  engine: Contract,
+  store: EngineStore,
+  {
+    fromBlock,
+    toBlock,
+    batchSize = 2000,
+    checkpoint,
+    onBatch,
+  }: IndexerOptions = {}
+): Promise<number> {
+  if (fromBlock !== undefined && fromBlock <= store.lastBlock) {
+    throw new Error(
+      `Block ${fromBlock} is already indexed up to ${store.lastBlock}, start from a new checkpoint to reindex`
+    );
+  }
+  const provider = engine.provider;
+  const topics = INDEXED_EVENTS.map((name) =>
+    engine.interface.getEventTopic(name)
+  );
+  const last = toBlock ?? (await provider.getBlockNumber());
+  const timestamps: { [block: number]: number } = {};
+
+  for (
+    let start = fromBlock ?? store.lastBlock + 1;
+    start <= last;
+    start += batchSize
+  ) {
+    const end = Math.min(start + batchSize - 1, last);
+    const logs: providers.Log[] = await provider.getLogs({
+      address: engine.address,
+      topics: [topics],
+      fromBlock: start,
+      toBlock: end,
+    });
+    for (const log of logs) {
+      if (timestamps[log.blockNumber] === undefined) {
+        timestamps[log.blockNumber] = (
+          await provider.getBlock(log.blockNumber)
+        ).timestamp;
+      }
+      applyEvent(
+        store,
+        engine.interface.parseLog(log),
+        log,
+        timestamps[log.blockNumber]
+      );
+    }
+    store.lastBlock = end;
+    if (checkpoint !== undefined) {
+      await saveCheckpoint(checkpoint, store);
+    }
+    if (onBatch !== undefined) {
+      onBatch(start, end, logs.length);
+    }
+  }
+  return store.lastBlock;
+}
@@ -0,0 +1,268 @@
+/// In-memory store of MatchingEngine state rebuilt from its events
+/// amounts are kept as raw integer strings so the store can be checkpointed as JSON.
+/// example
+/// const store = await loadCheckpoint("data/indexer/31337.json", chainId, engine.address);
+/// applyEvent(store, engine.interface.parseLog(log), log, timestamp);
+/// await saveCheckpoint("data/indexer/31337.json", store);
+
+import fs from "fs/promises";
+import path from "path";
+import { BigNumber, providers, utils } from "ethers";
+import { PairInfo } from "../sdk";
+import { baseToQuote, quoteToBase } from "../sdk/book";
+
+export const CHECKPOINT_VERSION = 1;
+
+export type OrderStatus = "open" | "filled" | "canceled";
+
+export interface IndexedPair extends PairInfo {
+  block: number;
+}
+
+export interface IndexedOrder {
+  orderbook: string;
+  id: number;
+  isBid: boolean;
+  owner: string;
+  price: string;
+  /// deposited amount when placed, quote asset on bids and base asset on asks
+  amount: string;
+  remaining: string;
+  status: OrderStatus;
+  block: number;
+  txHash: string;
+}
+
+export interface IndexedFill {
+  orderbook: string;
+  /// id of the matched maker order
+  id: number;
+  /// true when the taker was buying
+  isBid: boolean;
+  sender: string;
+  owner: string;
+  price: string;
+  /// taker's given amount, quote asset when isBid and base asset otherwise
+  amount: string;
+  block: number;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface AccountEntry {
+  event: string;
+  orderbook?: string;
+  id?: number;
+  block: number;
+  txHash: string;
+}
+
+export interface EngineStore {
+  version: number;
+  chainId: number;
+  engine: string;
+  lastBlock: number;
+  pairs: { [orderbook: string]: IndexedPair };
+  orders: { [key: string]: IndexedOrder };
+  fills: IndexedFill[];
+  accounts: { [account: string]: AccountEntry[] };
+  /// fees collected by asset from OrderDeposit events
+  fees: { [asset: string]: string };
+}
+
+export function createStore(chainId: number, engine: string): EngineStore {
+  return {
+    version: CHECKPOINT_VERSION,
+    chainId,
+    engine: engine.toLowerCase(),
+    lastBlock: -1,
+    pairs: {},
+    orders: {},
+    fills: [],
+    accounts: {},
+    fees: {},
+  };
+}
+
+export function orderKey(orderbook: string, isBid: boolean, id: number) {
+  return `${orderbook.toLowerCase()}:${isBid ? "bid" : "ask"}:${id}`;
+}
+
+export function openOrders(store: EngineStore, owner?: string): IndexedOrder[] {
+  return Object.values(store.orders).filter(
+    (order) =>
+      order.status === "open" &&
+      (owner === undefined || order.owner.toLowerCase() === owner.toLowerCase())
+  );
+}
+
+function record(store: EngineStore, account: string, entry: AccountEntry) {
+  const key = account.toLowerCase();
+  if (store.accounts[key] === undefined) {
+    store.accounts[key] = [];
+  }
+  store.accounts[key].push(entry);
+}
+
+/// decreases remaining amount of the maker order matched by a fill
+function fillOrder(store: EngineStore, fill: IndexedFill) {
+  const order = store.orders[orderKey(fill.orderbook, !fill.isBid, fill.id)];
+  const pair = store.pairs[fill.orderbook.toLowerCase()];
+  if (order === undefined || pair === undefined) {
+    return;
+  }
+  const price = BigNumber.from(fill.price);
+  const amount = BigNumber.from(fill.amount);
+  // taker buys with quote against ask deposits in base, and sells base against bid deposits in quote
+  const filled = fill.isBid
+    ? quoteToBase(pair, price, amount)
+    : baseToQuote(pair, price, amount);
+  const dust = fill.isBid
+    ? quoteToBase(pair, price, BigNumber.from(1))
+    : baseToQuote(pair, price, BigNumber.from(1));
+  const remaining = BigNumber.from(order.remaining).sub(filled);
+  order.remaining = remaining.lt(0) ? "0" : remaining.toString();
+  if (remaining.lte(dust)) {
+    order.status = "filled";
+  }
+}
+
+/// applies a decoded MatchingEngine event to the store, unknown events are ignored
+export function applyEvent(
+  store: EngineStore,
+  event: utils.LogDescription,
+  log: providers.Log,
+  timestamp: number
+) {
+  const block = log.blockNumber;
+  const txHash = log.transactionHash;
+  const args = event.args;
+  switch (event.name) {
+    case "PairAdded": {
+      const orderbook = (args.orderbook as string).toLowerCase();
+      store.pairs[orderbook] = {
+        orderbook,
+        base: args.base,
+        quote: args.quote,
+        bDecimal: args.bDecimal,
+        qDecimal: args.qDecimal,
+        block,
+      };
+      break;
+    }
+    case "OrderPlaced": {
+      const order: IndexedOrder = {
+        orderbook: (args.orderbook as string).toLowerCase(),
+        id: args.id.toNumber(),
+        isBid: args.isBid,
+        owner: args.owner,
+        price: args.price.toString(),
+        amount: args.amount.toString(),
+        remaining: args.amount.toString(),
+        status: "open",
+        block,
+        txHash,
+      };
+      store.orders[orderKey(order.orderbook, order.isBid, order.id)] = order;
+      record(store, order.owner, {
+        event: event.name,
+        orderbook: order.orderbook,
+        id: order.id,
+        block,
+        txHash,
+      });
+      break;
+    }
+    case "OrderMatched": {
+      const fill: IndexedFill = {
+        orderbook: (args.orderbook as string).toLowerCase(),
+        id: args.id.toNumber(),
+        isBid: args.isBid,
+        sender: args.sender,
+        owner: args.owner,
+        price: args.price.toString(),
+        amount: args.amount.toString(),
+        block,
+        timestamp,
+        txHash,
+        logIndex: log.logIndex,
+      };
+      store.fills.push(fill);
+      fillOrder(store, fill);
+      const entry = {
+        event: event.name,
+        orderbook: fill.orderbook,
+        id: fill.id,
+        block,
+        txHash,
+      };
+      record(store, fill.sender, entry);
+      if (fill.owner.toLowerCase() !== fill.sender.toLowerCase()) {
+        record(store, fill.owner, entry);
+      }
+      break;
+    }
+    case "OrderCanceled": {
+      const orderbook = (args.orderbook as string).toLowerCase();
+      const id = args.id.toNumber();
+      const order = store.orders[orderKey(orderbook, args.isBid, id)];
+      if (order !== undefined) {
+        order.status = "canceled";
+        order.remaining = "0";
+      }
+      record(store, args.owner, {
+        event: event.name,
+        orderbook,
+        id,
+        block,
+        txHash,
+      });
+      break;
+    }
+    case "OrderDeposit": {
+      const asset = (args.asset as string).toLowerCase();
+      store.fees[asset] = BigNumber.from(store.fees[asset] ?? 0)
+        .add(args.fee)
+        .toString();
+      record(store, args.sender, { event: event.name, block, txHash });
+      break;
+    }
+  }
+}
+
+/// loads a checkpoint for the engine, a fresh store is returned when there is none
+export async function loadCheckpoint(
+  file: string,
+  chainId: number,
+  engine: string
+): Promise<EngineStore> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, { encoding: "utf8" });
+  } catch (e) {
+    return createStore(chainId, engine);
+  }
+  const store: EngineStore = JSON.parse(content);
+  if (store.version !== CHECKPOINT_VERSION) {
+    throw new Error(
+      `Checkpoint ${file} has version ${store.version}, expected ${CHECKPOINT_VERSION}`
+    );
+  }
+  if (store.chainId !== chainId || store.engine !== engine.toLowerCase()) {
+    throw new Error(
+      `Checkpoint ${file} was written for engine ${store.engine} on chain ${store.chainId}`
+    );
+  }
+  return store;
+}
+
+/// writes the store through a temporary file so a crash never leaves a partial checkpoint
+export async function saveCheckpoint(file: string, store: EngineStore) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(store, null, 2), {
+    encoding: "utf-8",
+  });
+  await fs.rename(tmp, file);
+}
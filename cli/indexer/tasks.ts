@@ -0,0 +1,167 @@
+import fs from "fs/promises";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveContract } from "../helper";
+import {
+  formatRows,
+  parseInterval,
+  toCandles,
+  toCSV,
+  toTrades,
+} from "./candles";
+import { runIndexer } from "./indexer";
+import { loadCheckpoint, openOrders } from "./store";
+
+/// checkpoint path of a chain, data/ is ignored by git
+export function defaultCheckpoint(chainId: number) {
+  return `data/indexer/${chainId}.json`;
+}
+
+/// loads the checkpointed store of MatchingEngine on the current network
+export async function openStore(
+  hre: HardhatRuntimeEnvironment,
+  engineAddress?: string,
+  checkpoint?: string
+) {
+  const { ethers } = hre;
+  const { chainId } = await ethers.provider.getNetwork();
+  const engine = await ethers.getContractAt(
+    "MatchingEngine",
+    engineAddress ?? (await resolveContract("MatchingEngine", chainId))
+  );
+  const file = checkpoint ?? defaultCheckpoint(chainId);
+  const store = await loadCheckpoint(file, chainId, engine.address);
+  return { engine, store, file };
+}
+
+async function writeOutput(output: string, out?: string) {
+  if (out === undefined) {
+    process.stdout.write(output);
+  } else {
+    await fs.writeFile(out, output, { encoding: "utf-8" });
+    console.log(`Written to ${out}`);
+  }
+}
+
+task("index:run", "Indexes MatchingEngine events into a checkpointed store")
+  .addOptionalParam("engine", "MatchingEngine address, address book as default")
+  .addOptionalParam("from", "First block to index", undefined, types.int)
+  .addOptionalParam("to", "Last block to index", undefined, types.int)
+  .addOptionalParam("batch", "Blocks per log query", 2000, types.int)
+  .addOptionalParam("checkpoint", "Checkpoint file path")
+  .addFlag("follow", "Keep polling for new blocks")
+  .addOptionalParam(
+    "interval",
+    "Polling interval in milliseconds with --follow",
+    5000,
+    types.int
+  )
+  .setAction(
+    async (
+      { engine: engineAddress, from, to, batch, checkpoint, follow, interval },
+      hre
+    ) => {
+      const { engine, store, file } = await openStore(
+        hre,
+        engineAddress,
+        checkpoint
+      );
+      console.log(
+        `Indexing MatchingEngine ${engine.address} from block ${
+          from ?? store.lastBlock + 1
+        } into ${file}`
+      );
+
+      const onBatch = (start: number, end: number, logs: number) =>
+        console.log(`Blocks ${start}-${end}: ${logs} events`);
+      await runIndexer(engine, store, {
+        fromBlock: from,
+        toBlock: to,
+        batchSize: batch,
+        checkpoint: file,
+        onBatch,
+      });
+      while (follow) {
+        await new Promise((resolve) => setTimeout(resolve, interval));
+        await runIndexer(engine, store, {
+          batchSize: batch,
+          checkpoint: file,
+          onBatch,
+        });
+      }
+
+      console.log(`Indexed up to block ${store.lastBlock}`);
+      console.log(`Pairs: ${Object.keys(store.pairs).length}`);
+      console.log(`Open orders: ${openOrders(store).length}`);
+      console.log(`Fills: ${store.fills.length}`);
+      console.log(`Accounts: ${Object.keys(store.accounts).length}`);
+      return store;
+    }
+  );
+
+task("index:trades", "Exports trade prints from indexed OrderMatched events")
+  .addOptionalParam("engine", "MatchingEngine address, address book as default")
+  .addOptionalParam("checkpoint", "Checkpoint file path")
+  .addOptionalParam("orderbook", "Export trades of one orderbook only")
+  .addOptionalParam("format", "csv or json", "csv")
+  .addOptionalParam("out", "Output file, stdout as default")
+  .addFlag("nosync", "Export from the checkpoint without indexing new blocks")
+  .setAction(
+    async (
+      { engine: engineAddress, checkpoint, orderbook, format, out, nosync },
+      hre
+    ) => {
+      const { engine, store, file } = await openStore(
+        hre,
+        engineAddress,
+        checkpoint
+      );
+      if (!nosync) {
+        await runIndexer(engine, store, { checkpoint: file });
+      }
+      const rows = formatRows(store, toTrades(store, orderbook));
+      await writeOutput(
+        format === "json" ? JSON.stringify(rows, null, 2) + "\n" : toCSV(rows),
+        out
+      );
+    }
+  );
+
+task("index:candles", "Exports OHLCV candles from indexed OrderMatched events")
+  .addOptionalParam("engine", "MatchingEngine address, address book as default")
+  .addOptionalParam("checkpoint", "Checkpoint file path")
+  .addOptionalParam("orderbook", "Export candles of one orderbook only")
+  .addOptionalParam("interval", "Candle interval such as 1m, 5m, 1h, 1d", "1h")
+  .addOptionalParam("format", "csv or json", "csv")
+  .addOptionalParam("out", "Output file, stdout as default")
+  .addFlag("nosync", "Export from the checkpoint without indexing new blocks")
+  .setAction(
+    async (
+      {
+        engine: engineAddress,
+        checkpoint,
+        orderbook,
+        interval,
+        format,
+        out,
+        nosync,
+      },
+      hre
+    ) => {
+      const seconds = parseInterval(interval);
+      const { engine, store, file } = await openStore(
+        hre,
+        engineAddress,
+        checkpoint
+      );
+      if (!nosync) {
+        await runIndexer(engine, store, { checkpoint: file });
+      }
+      const candles = toCandles(toTrades(store, orderbook), seconds);
+      const rows = formatRows(store, candles);
+      await writeOutput(
+        format === "json" ? JSON.stringify(rows, null, 2) + "\n" : toCSV(rows),
+        out
+      );
+    }
+  );
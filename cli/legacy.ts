@@ -1,67 +1,122 @@
+import fs from "fs/promises";
+import path from "path";
 import { task, types } from "hardhat/config";
-import { BigNumber, constants } from "ethers";
+import { BigNumber, constants, Contract } from "ethers";
+import {
+  addExecutorParams,
+  deployAndRecord,
+  getExecutorConfig,
+  runBatches,
+  sendTx,
+  setupExecutor,
+} from "./helper";
 
 const assert = (condition, message) => {
     if (condition) return;
     throw new Error(message);
   };
 
-task("deploy-stnd-parent", "Deploy Standard Parent Token").setAction(async (args, { ethers }) => {
-    const [deployer] = await ethers.getSigners();
-  
-    console.log(`Deploying Standard Token with the account: ${deployer.address}`);
-  
-    console.log(
-      `Deployer balance: ${ethers.utils.formatEther(
-        await deployer.getBalance()
-      )} ETH`
-    );
-  
-    const Token = await ethers.getContractFactory("Standard");
-    const token = await Token.deploy();
-  
-    console.log("Token address:", token.address);
-  
-    console.log("Mining...");
-    await token.deployed();
-    console.log(
-      `Deployer balance: ${ethers.utils.formatEther(
-        await deployer.getBalance()
-      )} ETH`
-    );
-  });
+addExecutorParams(
+  task("deploy-stnd-parent", "Deploy Standard Parent Token")
+).setAction(async (args, hre) => {
+  const { ethers } = hre;
+  await setupExecutor(hre, args);
+  const [deployer] = await ethers.getSigners();
+
+  console.log(`Deploying Standard Token with the account: ${deployer.address}`);
+
+  console.log(
+    `Deployer balance: ${ethers.utils.formatEther(
+      await deployer.getBalance()
+    )} ETH`
+  );
+
+  const Token = await ethers.getContractFactory("Standard", deployer);
+  await deployAndRecord(Token, "Standard", [], "Standard");
+
+  console.log(
+    `Deployer balance: ${ethers.utils.formatEther(
+      await deployer.getBalance()
+    )} ETH`
+  );
+});
+
+/// balances of blocked accounts and the recipient before the first batch, kept in the journal across resumes
+interface RevokeSnapshot {
+  block: number;
+  to: string;
+  toBalance: string;
+  balances: { [account: string]: string };
+}
 
-task("revoke-blocked", "Revoke tokens from blocked accounts")
+/// compares balances after the run with the pre-flight snapshot
+async function reconcileRevoke(token: Contract, snapshot: RevokeSnapshot) {
+  const accounts = await Promise.all(
+    Object.entries(snapshot.balances).map(async ([account, before]) => {
+      const after: BigNumber = await token.balanceOf(account);
+      return {
+        account,
+        before: BigNumber.from(before),
+        after,
+        status: after.isZero() ? "revoked" : "remaining",
+      };
+    })
+  );
+  const expected = accounts.reduce(
+    (total, account) => total.add(account.before),
+    BigNumber.from(0)
+  );
+  const received = (await token.balanceOf(snapshot.to)).sub(snapshot.toBalance);
+  return { accounts, expected, received };
+}
+
+addExecutorParams(
+  task(
+    "revoke-blocked",
+    "Revoke tokens from blocked accounts in resumable batches"
+  )
+)
   .addParam("token", "Address of the protected token contract")
   .addParam("to", "Address to transfer revoked tokens to")
   .addParam(
     "json",
     'Path to the blocked accounts json. Example: ["0x1234", "0x5678", ...]'
   )
-  .setAction(async ({ token: tokenAddress, json, to }, {ethers}) => {
+  .addOptionalParam("batchSize", "Accounts per revokeBlocked tx", 50, types.int)
+  .addOptionalParam(
+    "journal",
+    "Journal of completed batches, data/revoke/<chainId>-<token>.json as default"
+  )
+  .addFlag("step", "Confirm every batch before it is sent")
+  .setAction(async (args, hre) => {
+    const { ethers } = hre;
+    const { token: tokenAddress, to, batchSize } = args;
     assert(
       ethers.utils.isAddress(tokenAddress),
       `Token address '${tokenAddress}' is invalid.`
     );
     assert(ethers.utils.isAddress(to), `Revoke to address '${to}' is invalid.`);
-    const blocked = require(json);
+    const blocked: string[] = JSON.parse(
+      await fs.readFile(path.resolve(args.json), { encoding: "utf8" })
+    );
     for (let account of blocked) {
       assert(
         ethers.utils.isAddress(account),
         `Blocked address '${account}' is invalid.`
       );
     }
+    const accounts = [
+      ...new Set(blocked.map((account) => ethers.utils.getAddress(account))),
+    ];
+    await setupExecutor(hre, args);
     const [sender] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
 
     const Token = await ethers.getContractFactory("Standard");
-    const token = await Token.attach(tokenAddress);
-
-    console.log(
-      `Revoking tokens from blocked accounts to ${to}. Transaction sender: ${sender.address}`
-    );
+    const token = Token.attach(tokenAddress).connect(sender);
 
     console.log(
-      `To balance: ${ethers.utils.formatEther(await token.balanceOf(to))}`
+      `Revoking tokens from ${accounts.length} blocked accounts to ${to}. Transaction sender: ${sender.address}`
     );
     console.log(
       `Sender balance: ${ethers.utils.formatEther(
@@ -69,22 +124,98 @@ task("revoke-blocked", "Revoke tokens from blocked accounts")
       )} ETH`
     );
 
-    let tx;
-    const batchSize: bigint = 50n;
-    for (let i: bigint = 0n; i <= BigInt(blocked.length) / batchSize; i++) {
-      let entries = blocked.slice(
-        i * batchSize,
-        (i + 1n) * batchSize
-      );
-      tx = await token.connect(sender).revokeBlocked(entries, to);
-      console.log(`Batch ${i + 1n}: ${tx.hash}`);
+    const { journal, resumed, sent, found, left } = await runBatches<
+      string,
+      RevokeSnapshot
+    >({
+      operation: "revokeBlocked",
+      journal:
+        args.journal ??
+        path.join(
+          "data",
+          "revoke",
+          `${chainId}-${tokenAddress.toLowerCase()}.json`
+        ),
+      items: accounts,
+      batchSize,
+      params: {
+        chainId,
+        token: tokenAddress.toLowerCase(),
+        to: to.toLowerCase(),
+      },
+      confirmEach: args.step,
+      init: async () => {
+        const block = await ethers.provider.getBlockNumber();
+        const balances: { [account: string]: string } = {};
+        for (const account of accounts) {
+          balances[account] = (
+            await token.balanceOf(account, { blockTag: block })
+          ).toString();
+        }
+        return {
+          block,
+          to,
+          toBalance: (
+            await token.balanceOf(to, { blockTag: block })
+          ).toString(),
+          balances,
+        };
+      },
+      isDone: async (batch) => {
+        const balances = await Promise.all(
+          batch.map((account) => token.balanceOf(account))
+        );
+        return balances.every((balance) => balance.isZero());
+      },
+      send: (batch, label) =>
+        sendTx(token, "revokeBlocked", [batch, to], {}, label),
+    });
+    console.log(
+      `Batches: ${sent} sent, ${resumed} from the journal, ${found} done on chain, ${left} left`
+    );
+    if (getExecutorConfig().dryRun) {
+      return;
     }
-    console.log("Mining...");
-    await (tx && tx.wait());
 
+    const {
+      accounts: report,
+      expected,
+      received,
+    } = await reconcileRevoke(token, journal.meta!);
+    const remaining = report.filter(
+      (account) => account.status === "remaining"
+    );
+    console.table(
+      report
+        .filter(
+          (account) => !account.before.isZero() || !account.after.isZero()
+        )
+        .map((account) => ({
+          account: account.account,
+          before: ethers.utils.formatEther(account.before),
+          after: ethers.utils.formatEther(account.after),
+          status: account.status,
+        }))
+    );
     console.log(
-      `To balance: ${ethers.utils.formatEther(await token.balanceOf(to))}`
+      `Blocked balances at block ${
+        journal.meta!.block
+      }: ${ethers.utils.formatEther(expected)}`
     );
+    console.log(`Received by ${to}: ${ethers.utils.formatEther(received)}`);
+    if (remaining.length > 0) {
+      console.log(
+        `${remaining.length} accounts still hold tokens${
+          left > 0 ? ", run the task again to resume" : ""
+        }`
+      );
+    } else if (!received.eq(expected)) {
+      console.log(
+        `${to} received ${ethers.utils.formatEther(
+          received.sub(expected)
+        )} off the snapshot, balances moved during the run`
+      );
+    }
     console.log(
       `Sender balance: ${ethers.utils.formatEther(
         await sender.getBalance()
@@ -92,17 +223,22 @@ task("revoke-blocked", "Revoke tokens from blocked accounts")
     );
   });
 
-task("disableProtection", "Manually disable liquidity protection")
+addExecutorParams(
+  task("disableProtection", "Manually disable liquidity protection")
+)
   .addParam("token", "Address of the protected token contract")
-  .setAction(async ({ token: tokenAddress }, {ethers}) => {
+  .setAction(async (args, hre) => {
+    const { ethers } = hre;
+    const { token: tokenAddress } = args;
     assert(
       ethers.utils.isAddress(tokenAddress),
       `Token address '${tokenAddress}' is invalid.`
     );
+    await setupExecutor(hre, args);
     const [sender] = await ethers.getSigners();
 
     const Token = await ethers.getContractFactory("Standard");
-    const token = await Token.attach(tokenAddress);
+    const token = Token.attach(tokenAddress).connect(sender);
 
     console.log(
       `Disabling liquidity protection with account: ${sender.address}`
@@ -114,10 +250,7 @@ task("disableProtection", "Manually disable liquidity protection")
       )} ETH`
     );
 
-    const tx = await token.connect(sender).disableProtection();
-    console.log(`${tx.hash}`);
-    console.log("Mining...");
-    await tx.wait();
+    await sendTx(token, "disableProtection", [], {}, "Disable protection");
 
     console.log(
       `Sender balance: ${ethers.utils.formatEther(
@@ -125,89 +258,3 @@ task("disableProtection", "Manually disable liquidity protection")
       )} ETH`
     );
   });
-
-  task("deploy-pool", "Deploy Standard Staking pools")
-    .addParam("reward", "Address of the reward token contract")
-    .addParam("input", "Address of the input token contract")
-    .addParam("starttime", "timestamp when reward starts")
-    .setAction(
-      async function ({ reward: rewardAddress, input: inputAddress, starttime }, {ethers}) {
-        assert(
-          ethers.utils.isAddress(rewardAddress),
-          `Token address '${rewardAddress}' is invalid.`
-        );
-        assert(
-          ethers.utils.isAddress(inputAddress),
-          `Token address '${inputAddress}' is invalid.`
-        );
-  
-        const [deployer] = await ethers.getSigners();
-  
-        console.log(
-          `Deploying Standard Staking Pool with the account: ${deployer.address}`
-        );
-  
-        console.log(
-          `Deployer balance: ${ethers.utils.formatEther(
-            await deployer.getBalance()
-          )} ETH`
-        );
-  
-        const Pool = await ethers.getContractFactory("WETHSTNDLPTokenSharePool");
-        const pool = await Pool.deploy(rewardAddress, inputAddress, starttime);
-  
-        console.log("Pool address:", pool.address);
-  
-        console.log("Mining...");
-        await pool.deployed();
-        console.log(
-          `Deployer balance: ${ethers.utils.formatEther(
-            await deployer.getBalance()
-          )} ETH`
-        );
-      }
-    );
-  
-  task("notify-reward", "Notify reward amount on Staking")
-    .addParam("pool", "Pool contract address to notify reward amount")
-    .addParam(
-      "reward",
-      "Total reward amount to rebase for staking in precision of 18 digit"
-    )
-    .setAction(async ({ pool: poolAddress, reward }, {ethers}) => {
-      assert(
-        ethers.utils.isAddress(poolAddress),
-        `Pool address '${poolAddress}' is invalid.`
-      );
-  
-      const [sender] = await ethers.getSigners();
-  
-      console.log(
-        `Notifier balance: ${ethers.utils.formatEther(
-          await sender.getBalance()
-        )} ETH`
-      );
-  
-      const Pool = await ethers.getContractFactory("WETHSTNDLPTokenSharePool");
-      const pool = await Pool.attach(poolAddress);
-  
-      console.log(
-        `Notifying total reward amount to rebase to ${poolAddress}. Transaction sender: ${sender.address}`
-      );
-  
-      console.log("Mining...");
-      await pool.connect(sender).notifyRewardAmount(reward);
-      console.log(
-        `Sender balance: ${ethers.utils.formatEther(
-          await sender.getBalance()
-        )} ETH`
-      );
-      console.log(
-        `Reward Rate: ${ethers.utils.formatEther(await pool.rewardRate())}`
-      );
-      console.log(`Last Update Time(timestamp): ${await pool.lastUpdateTime()}`);
-      console.log(
-        `Period Finishing Time(timestamp): ${await pool.periodFinish()}`
-      );
-    });
-  
\ No newline at end of file
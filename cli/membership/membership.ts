@@ -0,0 +1,190 @@
+/// Membership and SABT readers for ops tooling
+/// Membership keeps fees, subscriptions and its SABT address in private storage without getters,
+/// so they are read from storage slots following the layout of Membership.sol and MembershipLib.Member.
+/// example
+/// const { membership, sabt } = await connectMembership(hre);
+/// const fees = await readFees(membership, 1, stnd.address);
+/// const owner = await ownerOfUid(sabt, 5);
+
+import { BigNumber, Contract, Signer, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  getDeployment,
+  readAddress,
+  readWord,
+  resolveContract,
+  sendTx,
+  TxOutcome,
+} from "../helper";
+
+/// AccessControl._roles takes slot 0, MembershipLib.Member starts at slot 1
+const MEMBER_SLOT = 1;
+const SLOTS = {
+  subscriptions: MEMBER_SLOT,
+  subSTND: MEMBER_SLOT + 1,
+  metas: MEMBER_SLOT + 2,
+  fees: MEMBER_SLOT + 3,
+  sabt: MEMBER_SLOT + 4,
+  stnd: MEMBER_SLOT + 5,
+  foundation: MEMBER_SLOT + 6,
+  weth: MEMBER_SLOT + 7,
+};
+
+export interface MembershipConfig {
+  sabt: string;
+  stnd: string;
+  foundation: string;
+  weth: string;
+}
+
+export interface MembershipFees {
+  /// registration fee in fee token units
+  regFee: BigNumber;
+  /// subscription fee per block in fee token units
+  subFee: BigNumber;
+}
+
+export interface Subscription {
+  at: BigNumber;
+  until: BigNumber;
+  bonus: BigNumber;
+  with: string;
+}
+
+function mappingSlot(key: string | number, slot: string | number) {
+  const keyType = typeof key === "string" ? "address" : "uint256";
+  return utils.keccak256(
+    utils.defaultAbiCoder.encode([keyType, "uint256"], [key, slot])
+  );
+}
+
+function offset(slot: string, index: number) {
+  return BigNumber.from(slot).add(index).toHexString();
+}
+
+export async function readMembershipConfig(
+  membership: Contract
+): Promise<MembershipConfig> {
+  return {
+    sabt: await readAddress(membership, SLOTS.sabt),
+    stnd: await readAddress(membership, SLOTS.stnd),
+    foundation: await readAddress(membership, SLOTS.foundation),
+    weth: await readAddress(membership, SLOTS.weth),
+  };
+}
+
+/// fees[metaId][feeToken], zero fees mean the token is not accepted for the meta
+export async function readFees(
+  membership: Contract,
+  metaId: number,
+  feeToken: string
+): Promise<MembershipFees> {
+  const slot = mappingSlot(feeToken, mappingSlot(metaId, SLOTS.fees));
+  // Fees { feeToken, regFee, subFee }
+  return {
+    regFee: BigNumber.from(await readWord(membership, offset(slot, 1))),
+    subFee: BigNumber.from(await readWord(membership, offset(slot, 2))),
+  };
+}
+
+export async function readSubscription(
+  membership: Contract,
+  uid: number
+): Promise<Subscription> {
+  const slot = mappingSlot(uid, SLOTS.subscriptions);
+  const [at, until, bonus, withToken] = await Promise.all(
+    [0, 1, 2, 3].map((i) => readWord(membership, offset(slot, i)))
+  );
+  return {
+    at: BigNumber.from(at),
+    until: BigNumber.from(until),
+    bonus: BigNumber.from(bonus),
+    with: utils.getAddress(utils.hexDataSlice(withToken, 12)),
+  };
+}
+
+/// connects to Membership and the SABT it mints with
+export async function connectMembership(
+  hre: HardhatRuntimeEnvironment,
+  signerAddress?: string,
+  name = "Membership"
+) {
+  const { ethers } = hre;
+  const signer: Signer =
+    signerAddress === undefined
+      ? (await ethers.getSigners())[0]
+      : await ethers.getSigner(signerAddress);
+  const { chainId } = await ethers.provider.getNetwork();
+  const membership = await ethers.getContractAt(
+    "Membership",
+    await resolveContract(name, chainId),
+    signer
+  );
+  const config = await readMembershipConfig(membership);
+  const sabt = await ethers.getContractAt("SABT", config.sabt, signer);
+  return { chainId, signer, membership, sabt, config };
+}
+
+/// current holder of a uid, SABT is an ERC1155 without ownerOf so transfers of the uid are replayed
+export async function ownerOfUid(
+  sabt: Contract,
+  uid: number,
+  fromBlock = 0
+): Promise<string | undefined> {
+  const [singles, batches] = await Promise.all([
+    sabt.queryFilter(sabt.filters.TransferSingle(), fromBlock),
+    sabt.queryFilter(sabt.filters.TransferBatch(), fromBlock),
+  ]);
+  const transfers = [
+    ...singles
+      .filter((event) => event.args!.id.eq(uid))
+      .map((event) => ({ event, to: event.args!.to as string })),
+    ...batches
+      .filter((event) => event.args!.ids.some((id: BigNumber) => id.eq(uid)))
+      .map((event) => ({ event, to: event.args!.to as string })),
+  ].sort(
+    (a, b) =>
+      a.event.blockNumber - b.event.blockNumber ||
+      a.event.logIndex - b.event.logIndex
+  );
+  const last = transfers[transfers.length - 1];
+  if (last === undefined || (await sabt.balanceOf(last.to, uid)).isZero()) {
+    return undefined;
+  }
+  return last.to;
+}
+
+/// block SABT was deployed at, so owner lookups do not scan the whole chain
+export async function sabtDeployBlock(chainId: number, sabt: string) {
+  const deployment = await getDeployment("SABT", chainId);
+  return deployment?.address.toLowerCase() === sabt.toLowerCase()
+    ? deployment.block ?? 0
+    : 0;
+}
+
+export async function tokenLabel(token: Contract) {
+  const [symbol, decimals] = await Promise.all([
+    token.symbol(),
+    token.decimals(),
+  ]);
+  return { symbol: symbol as string, decimals: decimals as number };
+}
+
+/// approves Membership to pull a fee when the allowance does not cover it
+export async function approveFee(
+  token: Contract,
+  spender: string,
+  amount: BigNumber
+): Promise<TxOutcome | undefined> {
+  const owner = await token.signer.getAddress();
+  if ((await token.allowance(owner, spender)).gte(amount)) {
+    return undefined;
+  }
+  return sendTx(
+    token,
+    "approve",
+    [spender, amount],
+    {},
+    "Approve Membership to use fee"
+  );
+}
@@ -0,0 +1,404 @@
+import { BigNumber, constants, Contract, providers, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import { ConfigurableTaskDefinition } from "hardhat/types";
+import {
+  addExecutorParams,
+  erc20,
+  resolveToken,
+  sendTx,
+  setupExecutor,
+} from "../helper";
+import {
+  approveFee,
+  connectMembership,
+  ownerOfUid,
+  readFees,
+  readSubscription,
+  sabtDeployBlock,
+  tokenLabel,
+} from "./membership";
+
+function addMembershipParams(
+  definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+  return addExecutorParams(definition)
+    .addOptionalParam(
+      "membership",
+      "Membership address or address book name",
+      "Membership"
+    )
+    .addOptionalParam("signer", "Address of the signer, deployer as default");
+}
+
+/// uid minted to the sender, read from the SABT TransferSingle of the receipt or the simulated return value
+function mintedUid(
+  sabt: Contract,
+  receipt: providers.TransactionReceipt | undefined,
+  simulated: number
+): number {
+  for (const log of receipt?.logs ?? []) {
+    if (log.address === sabt.address) {
+      const event = sabt.interface.parseLog(log);
+      if (event.name === "TransferSingle") {
+        return event.args.id.toNumber();
+      }
+    }
+  }
+  return simulated;
+}
+
+addMembershipParams(
+  task(
+    "membership:set-membership",
+    "Enables a meta with a fee token, fees and quota"
+  )
+)
+  .addParam("meta", "Meta id, 1 and above", undefined, types.int)
+  .addParam("feeToken", "Fee token address or address book name")
+  .addParam("regFee", "Registration fee in whole tokens", undefined, types.int)
+  .addParam(
+    "subFee",
+    "Subscription fee per block in whole tokens",
+    undefined,
+    types.int
+  )
+  .addParam("quota", "Number of memberships of the meta", undefined, types.int)
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { chainId, membership } = await connectMembership(
+      hre,
+      args.signer,
+      args.membership
+    );
+    const feeToken = await resolveToken(args.feeToken, chainId);
+    await sendTx(
+      membership,
+      "setMembership",
+      [args.meta, feeToken, args.regFee, args.subFee, args.quota],
+      {},
+      `Set membership of meta ${args.meta}`
+    );
+  });
+
+addMembershipParams(
+  task(
+    "membership:set-fees",
+    "Sets registration and subscription fees of a meta"
+  )
+)
+  .addParam("meta", "Meta id", undefined, types.int)
+  .addParam("feeToken", "Fee token address or address book name")
+  .addParam("regFee", "Registration fee in whole tokens")
+  .addParam("subFee", "Subscription fee per block in whole tokens")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { chainId, membership } = await connectMembership(
+      hre,
+      args.signer,
+      args.membership
+    );
+    const feeToken = await resolveToken(args.feeToken, chainId);
+    await sendTx(
+      membership,
+      "setFees",
+      [args.meta, feeToken, args.regFee, args.subFee],
+      {},
+      `Set fees of meta ${args.meta}`
+    );
+  });
+
+addMembershipParams(task("membership:set-quota", "Sets the quota of a meta"))
+  .addParam("meta", "Meta id", undefined, types.int)
+  .addParam("quota", "Number of memberships of the meta", undefined, types.int)
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { membership } = await connectMembership(
+      hre,
+      args.signer,
+      args.membership
+    );
+    await sendTx(
+      membership,
+      "setQuota",
+      [args.meta, args.quota],
+      {},
+      `Set quota of meta ${args.meta}`
+    );
+  });
+
+addMembershipParams(
+  task(
+    "membership:set-foundation",
+    "Sets the account receiving membership fees"
+  )
+)
+  .addParam("foundation", "Foundation address")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { membership } = await connectMembership(
+      hre,
+      args.signer,
+      args.membership
+    );
+    await sendTx(
+      membership,
+      "setFoundation",
+      [args.foundation],
+      {},
+      "Set foundation"
+    );
+  });
+
+addMembershipParams(
+  task("membership:set-stnd", "Sets the token counted as subscribed STND")
+)
+  .addParam("stnd", "STND address or address book name")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { chainId, membership } = await connectMembership(
+      hre,
+      args.signer,
+      args.membership
+    );
+    const stnd = await resolveToken(args.stnd, chainId);
+    await sendTx(membership, "setSTND", [stnd], {}, "Set STND");
+  });
+
+addMembershipParams(
+  task(
+    "membership:register",
+    "Registers a membership paying the fee in a token"
+  )
+)
+  .addParam("meta", "Meta id", undefined, types.int)
+  .addParam("feeToken", "Fee token address or address book name")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { chainId, signer, membership, sabt } = await connectMembership(
+      hre,
+      args.signer,
+      args.membership
+    );
+    const feeToken = await resolveToken(args.feeToken, chainId);
+    const isAdmin = await membership.hasRole(
+      constants.HashZero,
+      await signer.getAddress()
+    );
+    // admins register without paying
+    if (!isAdmin) {
+      const { regFee } = await readFees(membership, args.meta, feeToken);
+      const token = erc20(feeToken, signer);
+      const { symbol, decimals } = await tokenLabel(token);
+      console.log(
+        `Registration fee: ${utils.formatUnits(regFee, decimals)} ${symbol}`
+      );
+      await approveFee(token, membership.address, regFee);
+    }
+    const { result, receipt } = await sendTx(
+      membership,
+      "register",
+      [args.meta, feeToken],
+      {},
+      `Register meta ${args.meta}`
+    );
+    const uid = mintedUid(sabt, receipt, result);
+    console.log(`Registered uid ${uid}`);
+    return uid;
+  });
+
+addMembershipParams(
+  task(
+    "membership:register-eth",
+    "Registers a membership paying the fee in ETH"
+  )
+)
+  .addParam("meta", "Meta id", undefined, types.int)
+  .addOptionalParam(
+    "value",
+    "ETH to send, the WETH registration fee as default"
+  )
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { signer, membership, sabt, config } = await connectMembership(
+      hre,
+      args.signer,
+      args.membership
+    );
+    const { regFee } = await readFees(membership, args.meta, config.weth);
+    const value =
+      args.value === undefined ? regFee : utils.parseEther(args.value);
+    // registerETH wraps msg.value for Membership and still pulls the fee in WETH from the sender
+    await approveFee(erc20(config.weth, signer), membership.address, regFee);
+    const { result, receipt } = await sendTx(
+      membership,
+      "registerETH",
+      [args.meta],
+      { value },
+      `Register meta ${args.meta} with ${utils.formatEther(value)} ETH`
+    );
+    const uid = mintedUid(sabt, receipt, result);
+    console.log(`Registered uid ${uid}`);
+    return uid;
+  });
+
+addMembershipParams(
+  task("membership:subscribe", "Subscribes a uid for a number of blocks")
+)
+  .addParam("uid", "Membership uid", undefined, types.int)
+  .addParam("blocks", "Blocks to stay subscribed", undefined, types.int)
+  .addParam("feeToken", "Fee token address or address book name")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { chainId, signer, membership, sabt } = await connectMembership(
+      hre,
+      args.signer,
+      args.membership
+    );
+    const feeToken = await resolveToken(args.feeToken, chainId);
+    const { subFee } = await readFees(
+      membership,
+      await sabt.metaId(args.uid),
+      feeToken
+    );
+    const token = erc20(feeToken, signer);
+    const { symbol, decimals } = await tokenLabel(token);
+    const amount = subFee.mul(args.blocks);
+    console.log(
+      `Subscription fee: ${utils.formatUnits(amount, decimals)} ${symbol} for ${
+        args.blocks
+      } blocks`
+    );
+    await approveFee(token, membership.address, amount);
+    await sendTx(
+      membership,
+      "subscribe",
+      [args.uid, args.blocks, feeToken],
+      {},
+      `Subscribe uid ${args.uid}`
+    );
+  });
+
+addMembershipParams(
+  task("membership:subscribe-eth", "Subscribes a uid paying the fee in ETH")
+)
+  .addParam("uid", "Membership uid", undefined, types.int)
+  .addParam("blocks", "Blocks to stay subscribed", undefined, types.int)
+  .addOptionalParam(
+    "value",
+    "ETH to send, the WETH subscription fee of the blocks as default"
+  )
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { signer, membership, sabt, config } = await connectMembership(
+      hre,
+      args.signer,
+      args.membership
+    );
+    const { subFee } = await readFees(
+      membership,
+      await sabt.metaId(args.uid),
+      config.weth
+    );
+    const amount = subFee.mul(args.blocks);
+    const value =
+      args.value === undefined ? amount : utils.parseEther(args.value);
+    // subscribeETH wraps msg.value for Membership and still pulls the fee in WETH from the sender
+    await approveFee(erc20(config.weth, signer), membership.address, amount);
+    await sendTx(
+      membership,
+      "subscribeETH",
+      [args.uid, args.blocks],
+      { value },
+      `Subscribe uid ${args.uid} with ${utils.formatEther(value)} ETH`
+    );
+  });
+
+addMembershipParams(
+  task(
+    "membership:unsubscribe",
+    "Ends a subscription and refunds the blocks left"
+  )
+)
+  .addParam("uid", "Membership uid", undefined, types.int)
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const { membership } = await connectMembership(
+      hre,
+      args.signer,
+      args.membership
+    );
+    await sendTx(
+      membership,
+      "unsubscribe",
+      [args.uid],
+      {},
+      `Unsubscribe uid ${args.uid}`
+    );
+  });
+
+task("membership:inspect", "Shows level, subscription and owner of a uid")
+  .addParam("uid", "Membership uid", undefined, types.int)
+  .addOptionalParam(
+    "membership",
+    "Membership address or address book name",
+    "Membership"
+  )
+  .addFlag("json", "Print as JSON")
+  .setAction(async (args, hre) => {
+    const { chainId, signer, membership, sabt, config } =
+      await connectMembership(hre, undefined, args.membership);
+    const uid: number = args.uid;
+    const lvl: number = await membership.getLvl(uid);
+    const meta = await membership.getMeta(lvl);
+    const subscription = await readSubscription(membership, uid);
+    const owner = await ownerOfUid(
+      sabt,
+      uid,
+      await sabtDeployBlock(chainId, sabt.address)
+    );
+    const block = await hre.ethers.provider.getBlockNumber();
+
+    let fees: { token: string; subFee: string } | undefined;
+    if (subscription.with !== constants.AddressZero) {
+      const token = erc20(subscription.with, signer);
+      const { symbol, decimals } = await tokenLabel(token);
+      const { subFee } = await readFees(membership, lvl, subscription.with);
+      fees = {
+        token: symbol,
+        subFee: `${utils.formatUnits(subFee, decimals)} ${symbol} per block`,
+      };
+    }
+    const info = {
+      uid,
+      owner: owner ?? null,
+      sabt: sabt.address,
+      lvl,
+      meta: { metaId: meta.metaId, quota: meta.quota },
+      isSubscribed: await membership.isSubscribed(uid),
+      subscribedAt: subscription.at.toNumber(),
+      subscribedUntil: subscription.until.toNumber(),
+      blocksLeft: Math.max(subscription.until.toNumber() - block, 0),
+      bonusBlocks: subscription.bonus.toNumber(),
+      subscribedWith: subscription.with,
+      fees: fees ?? null,
+      subSTND: (await membership.getSubSTND(uid)).toString(),
+      isReportable:
+        owner === undefined ? false : await membership.isReportable(owner, uid),
+      stnd: config.stnd,
+      foundation: config.foundation,
+    };
+    if (args.json) {
+      console.log(JSON.stringify(info, null, 2));
+    } else {
+      console.table(
+        Object.entries(info).map(([field, value]) => ({
+          field,
+          value:
+            typeof value === "object" && value !== null
+              ? JSON.stringify(value)
+              : value,
+        }))
+      );
+    }
+    return info;
+  });
@@ -1,57 +1,236 @@
-const { task } = require("hardhat/config");
-const { Contract } = require("ethers");
-const { ethers } = require("hardhat");
-const { keccak256 } = require("ethers/lib/utils");
-const { AccessControl } = require("@openzeppelin/contracts");
-
-task(
-  "grant-role",
-  "Grants a role to an address using AccessControl.sol contract"
-)
-  .addParam("address", "The address to grant the role to")
-  .addOptionalParam("role", "The name of the role to grant", "")
-  .setAction(async ({ address, role }) => {
-    // Get the contract owner's signer account
-    const [owner] = await ethers.getSigners();
-
-    // Deploy the AccessControl.sol contract
-    const accessControl = await new Contract(
-      "ACCESS_CONTROL_CONTRACT_ADDRESS",
-      AccessControl.abi,
-      owner
+import { Contract, Signer } from "ethers";
+import { task, types } from "hardhat/config";
+import {
+  ConfigurableTaskDefinition,
+  HardhatRuntimeEnvironment,
+} from "hardhat/types";
+import {
+  addExecutorParams,
+  DEFAULT_ADMIN_ROLE,
+  getDeployment,
+  resolveContract,
+  resolveRole,
+  roleName,
+  sendTx,
+  setupExecutor,
+} from "../../helper";
+
+export const ACCESS_CONTROL_ABI = [
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function getRoleAdmin(bytes32 role) view returns (bytes32)",
+  "function grantRole(bytes32 role, address account)",
+  "function revokeRole(bytes32 role, address account)",
+  "function renounceRole(bytes32 role, address account)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+];
+
+export interface RoleHolders {
+  [role: string]: string[];
+}
+
+/// connects to an AccessControl contract by address book name or address
+async function accessControl(
+  hre: HardhatRuntimeEnvironment,
+  contract: string,
+  signerAddress?: string
+) {
+  const signers = await hre.ethers.getSigners();
+  const signer: Signer =
+    signerAddress === undefined
+      ? signers[0]
+      : await hre.ethers.getSigner(signerAddress);
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const address = await resolveContract(contract, chainId);
+  return {
+    chainId,
+    signer,
+    access: new Contract(address, ACCESS_CONTROL_ABI, signer),
+  };
+}
+
+/// fails early when the signer can not manage the role
+async function requireRoleAdmin(
+  access: Contract,
+  role: string,
+  signer: Signer
+) {
+  const admin = await access.getRoleAdmin(role);
+  const sender = await signer.getAddress();
+  if (!(await access.hasRole(admin, sender))) {
+    throw new Error(
+      `${sender} does not have ${roleName(admin)}, the admin role of ${roleName(
+        role
+      )}`
     );
+  }
+}
 
-    // Define the role's hash
-    const roleHash = keccak256(Buffer.from(role));
+/// replays RoleGranted and RoleRevoked events into current role holders
+export async function auditRoles(
+  access: Contract,
+  fromBlock: number,
+  toBlock: number,
+  batchSize = 5000
+): Promise<RoleHolders> {
+  const holders: { [role: string]: Set<string> } = {};
+  const topics = [
+    access.interface.getEventTopic("RoleGranted"),
+    access.interface.getEventTopic("RoleRevoked"),
+  ];
+  for (let start = fromBlock; start <= toBlock; start += batchSize) {
+    const logs = await access.provider.getLogs({
+      address: access.address,
+      topics: [topics],
+      fromBlock: start,
+      toBlock: Math.min(start + batchSize - 1, toBlock),
+    });
+    for (const log of logs) {
+      const event = access.interface.parseLog(log);
+      const role = event.args.role as string;
+      if (holders[role] === undefined) {
+        holders[role] = new Set();
+      }
+      if (event.name === "RoleGranted") {
+        holders[role].add(event.args.account);
+      } else {
+        holders[role].delete(event.args.account);
+      }
+    }
+  }
+  const result: RoleHolders = {};
+  for (const [role, accounts] of Object.entries(holders)) {
+    result[role] = Array.from(accounts);
+  }
+  return result;
+}
 
-    // Grant the role to the specified address
-    await accessControl.grantRole(roleHash, address);
+function addRoleParams(
+  definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+  return addExecutorParams(definition)
+    .addParam(
+      "contract",
+      "Contract address or address book name, e.g. MatchingEngine, Treasury"
+    )
+    .addParam("role", "Role name like MINTER_ROLE or a role hash")
+    .addOptionalParam("signer", "Address of the signer, deployer as default");
+}
 
-    console.log(`Role ${role} granted to ${address}`);
+addRoleParams(task("access:grant", "Grants a role on a deployed contract"))
+  .addParam("account", "The address to grant the role to")
+  .setAction(async (args, hre) => {
+    const { contract, role, account, signer } = args;
+    await setupExecutor(hre, args);
+    const { access, signer: sender } = await accessControl(
+      hre,
+      contract,
+      signer
+    );
+    const hash = resolveRole(role);
+    if (await access.hasRole(hash, account)) {
+      console.log(`${account} already has ${roleName(hash)} on ${contract}`);
+      return false;
+    }
+    await requireRoleAdmin(access, hash, sender);
+    await sendTx(
+      access,
+      "grantRole",
+      [hash, account],
+      {},
+      `Grant ${roleName(hash)} to ${account}`
+    );
+    return true;
   });
 
-task(
-  "remove-role",
-  "Removes a role from an address using AccessControl.sol contract"
-)
-  .addParam("address", "The address to remove the role from")
-  .addParam("role", "The name of the role to remove")
-  .setAction(async ({ address, role }) => {
-    // Get the contract owner's signer account
-    const [owner] = await ethers.getSigners();
-
-    // Deploy the AccessControl.sol contract
-    const accessControl = await new Contract(
-      "ACCESS_CONTROL_CONTRACT_ADDRESS",
-      AccessControl.abi,
-      owner
+addRoleParams(task("access:revoke", "Revokes a role on a deployed contract"))
+  .addParam("account", "The address to revoke the role from")
+  .setAction(async (args, hre) => {
+    const { contract, role, account, signer } = args;
+    await setupExecutor(hre, args);
+    const { access, signer: sender } = await accessControl(
+      hre,
+      contract,
+      signer
+    );
+    const hash = resolveRole(role);
+    if (!(await access.hasRole(hash, account))) {
+      console.log(`${account} does not have ${roleName(hash)} on ${contract}`);
+      return false;
+    }
+    await requireRoleAdmin(access, hash, sender);
+    await sendTx(
+      access,
+      "revokeRole",
+      [hash, account],
+      {},
+      `Revoke ${roleName(hash)} from ${account}`
     );
+    return true;
+  });
 
-    // Define the role's hash
-    const roleHash = keccak256(Buffer.from(role));
+addRoleParams(
+  task("access:renounce", "Renounces a role of the signer on a contract")
+).setAction(async (args, hre) => {
+  const { contract, role, signer } = args;
+  await setupExecutor(hre, args);
+  const { access, signer: sender } = await accessControl(hre, contract, signer);
+  const hash = resolveRole(role);
+  const account = await sender.getAddress();
+  if (!(await access.hasRole(hash, account))) {
+    console.log(`${account} does not have ${roleName(hash)} on ${contract}`);
+    return false;
+  }
+  if (hash === DEFAULT_ADMIN_ROLE) {
+    console.log(
+      `Warning: renouncing DEFAULT_ADMIN_ROLE can leave ${contract} without an admin`
+    );
+  }
+  await sendTx(
+    access,
+    "renounceRole",
+    [hash, account],
+    {},
+    `Renounce ${roleName(hash)} of ${account}`
+  );
+  return true;
+});
 
-    // Revoke the role from the specified address
-    await accessControl.revokeRole(roleHash, address);
+task("access:audit", "Lists role holders by replaying role events")
+  .addParam("contract", "Contract address or address book name")
+  .addOptionalParam(
+    "from",
+    "First block to replay, deployment block in the address book as default",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("batch", "Blocks per log query", 5000, types.int)
+  .addFlag("json", "Print role holders as JSON")
+  .setAction(async ({ contract, from, batch, json }, hre) => {
+    const { access, chainId } = await accessControl(hre, contract);
+    const deployment = await getDeployment(contract, chainId);
+    const fromBlock = from ?? deployment?.block ?? 0;
+    const toBlock = await hre.ethers.provider.getBlockNumber();
+    const holders = await auditRoles(access, fromBlock, toBlock, batch);
 
-    console.log(`Role ${role} revoked from ${address}`);
+    // events are replayed from fromBlock, so holders are confirmed against current state
+    const rows = [];
+    for (const [role, accounts] of Object.entries(holders)) {
+      for (const account of accounts) {
+        rows.push({
+          role: roleName(role),
+          account,
+          confirmed: await access.hasRole(role, account),
+        });
+      }
+    }
+    if (json) {
+      console.log(JSON.stringify(rows, null, 2));
+      return rows;
+    }
+    console.log(
+      `Role holders of ${contract} (${access.address}) from block ${fromBlock} to ${toBlock}`
+    );
+    console.table(rows);
+    return rows;
   });
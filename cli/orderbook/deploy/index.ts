@@ -1,2 +1 @@
-import "./deploy-tokens"
-import "./deploy-orderbook"
\ No newline at end of file
+import "./deploy-tokens"
\ No newline at end of file
@@ -0,0 +1,241 @@
+/// Mock token list deployed by deploy-tokens
+/// each token is deployed with a mock variant matching its decimals, then minted to accounts and
+/// approved to MatchingEngine. accounts are named accounts of hardhat.config.ts or addresses.
+/// example
+/// {
+///   "tokens": [
+///     { "name": "WBTC", "symbol": "WBTC", "decimals": 8, "variant": "MockBTC",
+///       "mints": [{ "to": "trader1", "amount": "100" }],
+///       "approvals": [{ "from": "trader1", "amount": "max" }] },
+///     { "name": "USDC", "symbol": "USDC", "decimals": 6,
+///       "mints": [{ "to": "trader2", "amount": "1000000" }] }
+///   ]
+/// }
+
+import fs from "fs/promises";
+import path from "path";
+import { BigNumber, constants, Contract, Signer, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  deployAndRecord,
+  getAddress,
+  getExecutorConfig,
+  sendTx,
+} from "../../helper";
+import { NAMED_ACCOUNTS } from "../../deploy";
+
+/// decimals of mock variants, MockDecimals takes them as a constructor arg
+export const TOKEN_VARIANTS: { [variant: string]: number | undefined } = {
+  MockToken: 18,
+  MockBase: 18,
+  MockQuote: 18,
+  MockBTC: 8,
+  ErrToken: 20,
+  MockDecimals: undefined,
+};
+
+export interface MintSpec {
+  /// named account or address
+  to: string;
+  /// amount in token units
+  amount: string;
+}
+
+export interface ApprovalSpec {
+  /// named account approving MatchingEngine
+  from: string;
+  /// amount in token units or max
+  amount: string;
+}
+
+export interface TokenSpec {
+  /// address book name
+  name: string;
+  symbol: string;
+  decimals: number;
+  /// mock contract to deploy, chosen from decimals when omitted
+  variant?: string;
+  mints?: MintSpec[];
+  approvals?: ApprovalSpec[];
+}
+
+export interface TokenList {
+  tokens: TokenSpec[];
+}
+
+export interface DeployedToken {
+  name: string;
+  symbol: string;
+  decimals: number;
+  variant: string;
+  address: string;
+}
+
+/// default list of the project, found from the hardhat root rather than the working directory
+export function defaultTokenList(hre: HardhatRuntimeEnvironment) {
+  return path.join(
+    hre.config.paths.root,
+    "cli",
+    "orderbook",
+    "deploy",
+    "tokens",
+    "default.json"
+  );
+}
+
+/// mock variant of a token, variants with fixed decimals must match the decimals of the token
+export function tokenVariant(spec: TokenSpec): string {
+  if (spec.variant === undefined) {
+    return (
+      Object.keys(TOKEN_VARIANTS).find(
+        (variant) => TOKEN_VARIANTS[variant] === spec.decimals
+      ) ?? "MockDecimals"
+    );
+  }
+  if (!(spec.variant in TOKEN_VARIANTS)) {
+    throw new Error(
+      `${spec.name} has unknown variant ${
+        spec.variant
+      }, use one of ${Object.keys(TOKEN_VARIANTS).join(", ")}`
+    );
+  }
+  const fixed = TOKEN_VARIANTS[spec.variant];
+  if (fixed !== undefined && fixed !== spec.decimals) {
+    throw new Error(
+      `${spec.name} has ${spec.decimals} decimals but ${spec.variant} has ${fixed}`
+    );
+  }
+  return spec.variant;
+}
+
+export function validateTokenList(list: TokenList) {
+  if (!Array.isArray(list.tokens)) {
+    throw new Error("token list has no tokens field");
+  }
+  const names = new Set<string>();
+  for (const spec of list.tokens) {
+    if (!spec.name || !spec.symbol || !Number.isInteger(spec.decimals)) {
+      throw new Error(
+        `token ${JSON.stringify(spec)} needs a name, symbol and decimals`
+      );
+    }
+    if (names.has(spec.name)) {
+      throw new Error(`token ${spec.name} is listed twice`);
+    }
+    names.add(spec.name);
+    tokenVariant(spec);
+    for (const approval of spec.approvals ?? []) {
+      if (!NAMED_ACCOUNTS.includes(approval.from)) {
+        throw new Error(
+          `${spec.name} approval from ${approval.from} is not a named account`
+        );
+      }
+    }
+    for (const mint of spec.mints ?? []) {
+      if (!NAMED_ACCOUNTS.includes(mint.to) && !utils.isAddress(mint.to)) {
+        throw new Error(
+          `${spec.name} mint to ${mint.to} is not a named account or address`
+        );
+      }
+    }
+  }
+}
+
+export async function loadTokenList(file: string): Promise<TokenList> {
+  const list: TokenList = JSON.parse(
+    await fs.readFile(file, { encoding: "utf8" })
+  );
+  validateTokenList(list);
+  return list;
+}
+
+function parseAmount(amount: string, decimals: number): BigNumber {
+  return amount === "max"
+    ? constants.MaxUint256
+    : utils.parseUnits(amount, decimals);
+}
+
+/// deploys every token of a list, then mints and approves in list order
+export async function deployTokenList(
+  hre: HardhatRuntimeEnvironment,
+  list: TokenList
+): Promise<DeployedToken[]> {
+  const { ethers } = hre;
+  const signers = await ethers.getSigners();
+  const accounts: { [name: string]: Signer } = Object.fromEntries(
+    NAMED_ACCOUNTS.map((name, i) => [name, signers[i]])
+  );
+  const deployed: { spec: TokenSpec; token: Contract; variant: string }[] = [];
+  for (const spec of list.tokens) {
+    const variant = tokenVariant(spec);
+    const args =
+      TOKEN_VARIANTS[variant] === undefined
+        ? [spec.name, spec.symbol, spec.decimals]
+        : [spec.name, spec.symbol];
+    const { contract: token } = await deployAndRecord(
+      await ethers.getContractFactory(variant),
+      spec.name,
+      args,
+      variant
+    );
+    deployed.push({ spec, token, variant });
+  }
+  const tokens = deployed.map(({ spec, token, variant }) => ({
+    name: spec.name,
+    symbol: spec.symbol,
+    decimals: spec.decimals,
+    variant,
+    address: token.address,
+  }));
+  if (getExecutorConfig().dryRun) {
+    console.log(
+      "Dry run: mints and approvals are skipped as tokens are not deployed"
+    );
+    return tokens;
+  }
+
+  for (const { token, variant } of deployed) {
+    await hre.tenderly.persistArtifacts({
+      name: variant,
+      address: token.address,
+    });
+  }
+  for (const { spec, token } of deployed) {
+    for (const mint of spec.mints ?? []) {
+      const to = utils.isAddress(mint.to)
+        ? mint.to
+        : await accounts[mint.to].getAddress();
+      await sendTx(
+        token,
+        "mint",
+        [to, parseAmount(mint.amount, spec.decimals)],
+        {},
+        `Mint ${mint.amount} ${spec.symbol} to ${mint.to}`
+      );
+    }
+  }
+
+  const chainId = (await ethers.provider.getNetwork()).chainId;
+  const approvals = deployed.filter(
+    ({ spec }) => (spec.approvals ?? []).length > 0
+  );
+  const engine = await getAddress("MatchingEngine", chainId);
+  if (approvals.length > 0 && engine === undefined) {
+    console.log(
+      "MatchingEngine is not in the address book, approvals are skipped"
+    );
+    return tokens;
+  }
+  for (const { spec, token } of approvals) {
+    for (const approval of spec.approvals!) {
+      await sendTx(
+        token.connect(accounts[approval.from]),
+        "approve",
+        [engine, parseAmount(approval.amount, spec.decimals)],
+        {},
+        `Approve ${approval.amount} ${spec.symbol} from ${approval.from}`
+      );
+    }
+  }
+  return tokens;
+}
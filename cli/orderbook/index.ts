@@ -1,2 +1,4 @@
 import "./deploy";
-import "./interact";
\ No newline at end of file
+import "./interact";
+import "./view";
+import "./access";
\ No newline at end of file
@@ -1,68 +1,51 @@
-import { executeTx, deployContract, getAddress } from "../../../helper";
+import { constants } from "ethers";
 import { task } from "hardhat/config";
-import { WETH9_ADDRESS } from "../../../helper/constants";
-import { ChainId } from "../../../helper/constants";
+import {
+  addExecutorParams,
+  resolveToken,
+  sendTx,
+  setupExecutor,
+} from "../../../helper";
+import { StandardClient } from "../../../sdk";
+import { chooseSigner } from "../trade/common";
 
-task("interact-add-pair", "Deploy orderbook")
-  .addParam("base", "The Base token contract address")
-  .addParam("quote", "The Quote token contract address")
-  .addParam("feetoken", "The Fee token contract address")
-  .setAction(async ({ base, quote, feetoken }, { ethers }) => {
-    const inquirer = require("inquirer");
-    const [deployer, trader1, trader2, booker] = await ethers.getSigners();
-    const chainId: ChainId = await deployer.getChainId();
+addExecutorParams(task("pair:add", "Lists a base/quote pair on MatchingEngine"))
+  .addParam("base", "Base token address or address book name")
+  .addParam("quote", "Quote token address or address book name")
+  .addOptionalParam("signer", "Address of the signer to add the pair with")
+  .setAction(async (args, hre) => {
+    const { base, quote, signer: signerAddress } = args;
+    await setupExecutor(hre, args);
+    const signer = await chooseSigner(hre, signerAddress);
+    const chainId = await signer.getChainId();
+    const client = await StandardClient.fromAddressBook(hre, signer);
+    const baseAddress = await resolveToken(base, chainId);
+    const quoteAddress = await resolveToken(quote, chainId);
 
-    const result = await inquirer.prompt([
-      {
-        type: "list",
-        name: "signer",
-        message: "Choose signer",
-        choices: [
-          deployer.address,
-          trader1.address,
-          trader2.address,
-          booker.address,
-        ],
-      },
-    ]);
-
-    const signer = await ethers.getSigner(result.signer);
-    // get balance of fee token from Signer
-    const FeeToken = await ethers.getContractFactory("MockToken");
-    const feeT = new ethers.Contract(
-      feetoken,
-      FeeToken.interface,
-      ethers.provider
-    );
-    const feeTokenBalance = await feeT.balanceOf(signer.address);
-
-    // Check if signer has enough FeeToken balance
-    if (feeTokenBalance.lt(ethers.utils.parseEther("300"))) {
-      throw new Error(`Insufficient FeeToken balance: current balance is ${feeTokenBalance} and required balance is 300 ether`);
+    const listed = await client.engine.getPair(baseAddress, quoteAddress);
+    if (listed !== constants.AddressZero) {
+      console.log(`Pair is already listed at ${listed}`);
+      return listed;
     }
 
-    const MatchingEngine = await ethers.getContractFactory("MatchingEngine");
-    const matchingEngine = new ethers.Contract(
-      await getAddress("MatchingEngine", chainId),
-      MatchingEngine.interface
-    );
-
-    // Deployer approves matching engine of FeeToken as STND
-    const FeeTokenBySigner = await feeT.connect(signer);
-    const approveFeeTokenBySigner = await FeeTokenBySigner.approve(
-      matchingEngine.address,
-      ethers.utils.parseEther("1000000")
-    );
-    await executeTx(
-      approveFeeTokenBySigner,
-      "Approve Matching Engine to use FeeToken at"
+    const outcome = await sendTx(
+      client.engine,
+      "addPair",
+      [baseAddress, quoteAddress],
+      {},
+      "Add pair"
     );
+    if (!outcome.receipt) {
+      console.log(`Dry run: addPair would create orderbook ${outcome.result}`);
+      return outcome.result;
+    }
 
-    // Add WETH, STND base/quote pair to MatchingEngine by signer
-    const matchingEngineBySigner = await matchingEngine.connect(signer);
-    const addTokenPairBySigner = await matchingEngineBySigner.addPair(
-      base,
-      quote
+    const added = outcome.receipt.logs
+      .filter((log) => log.address === client.engine.address)
+      .map((log) => client.engine.interface.parseLog(log))
+      .find((event) => event.name === "PairAdded")!;
+    console.log(
+      `Added orderbook ${added.args.orderbook} (base ${added.args.base} with ${added.args.bDecimal} decimals, quote ${added.args.quote} with ${added.args.qDecimal} decimals)`
     );
-    await executeTx(addTokenPairBySigner, "Add token pair at");
+    return added.args.orderbook;
   });
@@ -0,0 +1,45 @@
+import { task, types } from "hardhat/config";
+import { resolveContract } from "../../../helper";
+import {
+  DEFAULT_FEE_NUM,
+  feeNumOf,
+  feeTreasury,
+  StandardClient,
+} from "../../../sdk";
+
+task("pair:fees", "Shows maker and taker fee rates MatchingEngine applies")
+  .addOptionalParam("uid", "Membership uid of the trader", 0, types.int)
+  .addOptionalParam(
+    "account",
+    "Trader address checked with isReportable, the first signer as default"
+  )
+  .addOptionalParam(
+    "treasury",
+    "Treasury address or address book name",
+    "Treasury"
+  )
+  .setAction(async ({ uid, account, treasury }, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const chainId = await signer.getChainId();
+    const client = await StandardClient.fromAddressBook(hre, signer);
+    const feeDenom: number = await client.engine.feeDenom();
+    const trader = account ?? signer.address;
+
+    let maker = DEFAULT_FEE_NUM;
+    let taker = DEFAULT_FEE_NUM;
+    let reportable = false;
+    if (uid != 0) {
+      const revenue = feeTreasury(
+        await resolveContract(treasury, chainId),
+        signer
+      );
+      reportable = await revenue.isReportable(trader, uid);
+      maker = await feeNumOf(revenue, trader, uid, true);
+      taker = await feeNumOf(revenue, trader, uid, false);
+    }
+    const format = (num: number) => `${num} (${(num * 100) / feeDenom}%)`;
+    console.log(`uid ${uid} for ${trader}, reportable: ${reportable}`);
+    console.log(`maker fee: ${format(maker)}`);
+    console.log(`taker fee: ${format(taker)}`);
+    return { uid, reportable, maker, taker, feeDenom };
+  });
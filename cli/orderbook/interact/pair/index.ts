@@ -1,3 +1,4 @@
-import "./setFees"
-import "./manageAdmin"
-import "./addPair"
\ No newline at end of file
+import "./addPair";
+import "./spread";
+import "./listPairs";
+import "./fees";
@@ -0,0 +1,35 @@
+import { task, types } from "hardhat/config";
+import { getSpread, listPairs, StandardClient } from "../../../sdk";
+
+task("pair:list", "Lists pairs with names, decimals, mktPrice and spreads")
+  .addOptionalParam("count", "Number of pairs to list", undefined, types.int)
+  .addFlag("json", "Print pairs as JSON")
+  .setAction(async ({ count, json }, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const client = await StandardClient.fromAddressBook(hre, signer);
+    const pairs = await listPairs(client, count);
+    const rows = [];
+    for (const pair of pairs) {
+      const spread = await getSpread(client, pair);
+      rows.push({
+        id: pair.id,
+        name: pair.name,
+        orderbook: pair.orderbook,
+        base: pair.base,
+        quote: pair.quote,
+        bDecimal: pair.bDecimal,
+        qDecimal: pair.qDecimal,
+        mktPrice: pair.mktPrice.isZero()
+          ? null
+          : client.formatPrice(pair.mktPrice),
+        marketSpread: spread.market,
+        limitSpread: spread.limit,
+      });
+    }
+    if (json) {
+      console.log(JSON.stringify(rows, null, 2));
+    } else {
+      console.table(rows);
+    }
+    return rows;
+  });
@@ -0,0 +1,86 @@
+import { constants } from "ethers";
+import { task, types } from "hardhat/config";
+import {
+  addExecutorParams,
+  resolveToken,
+  sendTx,
+  setupExecutor,
+} from "../../../helper";
+import { getSpread, StandardClient } from "../../../sdk";
+import { chooseSigner } from "../trade/common";
+
+/// spreads are in 1/10000, so 200 is 2%
+function formatSpread(spread: number) {
+  return `${spread} (${spread / 100}%)`;
+}
+
+async function listedPair(client: StandardClient, base: string, quote: string) {
+  const chainId = await client.engine.signer.getChainId();
+  const pair = await client.getPair(
+    await resolveToken(base, chainId),
+    await resolveToken(quote, chainId)
+  );
+  if (pair.orderbook === constants.AddressZero) {
+    throw new Error(`Pair ${base}/${quote} is not listed`);
+  }
+  return pair;
+}
+
+task("pair:spread", "Shows market and limit spread limits of a pair")
+  .addParam("base", "Base token address or address book name")
+  .addParam("quote", "Quote token address or address book name")
+  .setAction(async ({ base, quote }, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const client = await StandardClient.fromAddressBook(hre, signer);
+    const pair = await listedPair(client, base, quote);
+    const spread = await getSpread(client, pair);
+    console.log(`Orderbook ${pair.orderbook}`);
+    console.log(`market spread: ${formatSpread(spread.market)}`);
+    console.log(`limit spread:  ${formatSpread(spread.limit)}`);
+    return spread;
+  });
+
+addExecutorParams(
+  task("pair:set-spread", "Sets market and limit spread limits of a pair")
+)
+  .addParam("base", "Base token address or address book name")
+  .addParam("quote", "Quote token address or address book name")
+  .addParam("market", "Market order spread in 1/10000", undefined, types.int)
+  .addParam("limit", "Limit order spread in 1/10000", undefined, types.int)
+  .addOptionalParam("signer", "Address of the signer with DEFAULT_ADMIN_ROLE")
+  .setAction(async (args, hre) => {
+    const { base, quote, market, limit, signer: signerAddress } = args;
+    await setupExecutor(hre, args);
+    const signer = await chooseSigner(hre, signerAddress);
+    const client = await StandardClient.fromAddressBook(hre, signer);
+    const pair = await listedPair(client, base, quote);
+    const before = await getSpread(client, pair);
+
+    // reverts with InvalidRole when the signer is not an admin of MatchingEngine
+    const outcome = await sendTx(
+      client.engine,
+      "setSpread",
+      [pair.base, pair.quote, market, limit],
+      {},
+      "Set spread"
+    );
+    if (!outcome.receipt) {
+      console.log(
+        `Dry run: setSpread would change market ${before.market} -> ${market}, limit ${before.limit} -> ${limit}`
+      );
+      return before;
+    }
+
+    const after = await getSpread(client, pair);
+    console.log(
+      `market spread: ${formatSpread(before.market)} -> ${formatSpread(
+        after.market
+      )}`
+    );
+    console.log(
+      `limit spread:  ${formatSpread(before.limit)} -> ${formatSpread(
+        after.limit
+      )}`
+    );
+    return after;
+  });
@@ -0,0 +1,193 @@
+/// shared params, prompts and logging for trade tasks
+/// params which are not given on the command line are asked interactively
+/// example
+/// npx hardhat trade:limit-buy --base Token1 --quote Token2 --price 1.5 --amount 100 --network localhost
+
+import { Signer } from "ethers";
+import { types } from "hardhat/config";
+import {
+  ConfigurableTaskDefinition,
+  HardhatRuntimeEnvironment,
+} from "hardhat/types";
+import {
+  addExecutorParams,
+  ExecutorTaskArgs,
+  prompt,
+  resolveToken,
+  setupExecutor,
+} from "../../../helper";
+import { MAX_MATCHES, OrderResult, StandardClient } from "../../../sdk";
+
+export interface OrderTaskArgs extends ExecutorTaskArgs {
+  signer?: string;
+  base?: string;
+  quote?: string;
+  price?: string;
+  amount?: string;
+  maker: boolean;
+  n: number;
+  uid: number;
+  recipient?: string;
+}
+
+export type OrderField = "base" | "quote" | "price" | "amount";
+
+const FIELD_MESSAGES: { [field in OrderField]: string } = {
+  base: "Base token address or address book name",
+  quote: "Quote token address or address book name",
+  price: "Price in quote per base",
+  amount: "Amount to deposit",
+};
+
+/// registers params of an order task, only listed fields are added besides the common order options
+export function addOrderParams(
+  definition: ConfigurableTaskDefinition,
+  fields: OrderField[]
+): ConfigurableTaskDefinition {
+  definition.addOptionalParam("signer", "Address of the signer to trade with");
+  for (const field of fields) {
+    definition.addOptionalParam(field, FIELD_MESSAGES[field]);
+  }
+  return addExecutorParams(definition)
+    .addOptionalParam(
+      "maker",
+      "Place remaining amount as a maker order",
+      true,
+      types.boolean
+    )
+    .addOptionalParam(
+      "n",
+      "The maximum number of orders to match",
+      MAX_MATCHES,
+      types.int
+    )
+    .addOptionalParam("uid", "Membership uid for fee tier", 0, types.int)
+    .addOptionalParam(
+      "recipient",
+      "Recipient of traded asset and owner of the made order, signer as default"
+    );
+}
+
+export async function chooseSigner(
+  hre: HardhatRuntimeEnvironment,
+  address?: string
+): Promise<Signer> {
+  const { ethers } = hre;
+  if (address === undefined) {
+    const signers = await ethers.getSigners();
+    const result = await prompt([
+      {
+        type: "list",
+        name: "signer",
+        message: "Choose signer",
+        choices: signers.slice(0, 4).map((signer) => signer.address),
+      },
+    ]);
+    address = result.signer as string;
+  }
+  return ethers.getSigner(address);
+}
+
+/// asks for order fields which were not given as params
+export async function promptMissing(
+  args: OrderTaskArgs,
+  fields: OrderField[]
+): Promise<OrderTaskArgs> {
+  const missing = fields.filter((field) => args[field] === undefined);
+  if (missing.length == 0) {
+    return args;
+  }
+  const answers = await prompt(
+    missing.map((field) => ({
+      type: "input",
+      name: field,
+      message: FIELD_MESSAGES[field],
+    }))
+  );
+  return { ...args, ...answers };
+}
+
+/// resolves signer, client and token addresses for an order task
+export async function prepareOrder(
+  hre: HardhatRuntimeEnvironment,
+  taskArgs: OrderTaskArgs,
+  fields: OrderField[]
+) {
+  await setupExecutor(hre, taskArgs);
+  const signer = await chooseSigner(hre, taskArgs.signer);
+  const args = await promptMissing(taskArgs, fields);
+  const chainId = await signer.getChainId();
+  const client = await StandardClient.fromAddressBook(hre, signer);
+  const base = args.base && (await resolveToken(args.base, chainId));
+  const quote = args.quote && (await resolveToken(args.quote, chainId));
+  const options = {
+    amount: args.amount!,
+    isMaker: args.maker,
+    n: args.n,
+    uid: args.uid,
+    recipient: args.recipient,
+  };
+  return { signer, client, base, quote, price: args.price, options };
+}
+
+/// approves the deposited token to MatchingEngine if the allowance is not enough
+/// returns false on a dry run which only simulated the approval, the order would revert on transferFrom in its simulation
+export async function approveDeposit(
+  client: StandardClient,
+  base: string,
+  quote: string,
+  amount: string,
+  isBid: boolean
+): Promise<boolean> {
+  const pair = await client.getPair(base, quote);
+  const deposit = isBid ? pair.quote : pair.base;
+  const approval = await client.ensureAllowance(
+    deposit,
+    client.parseAmount(pair, amount, isBid)
+  );
+  if (approval?.dryRun) {
+    console.log(
+      `Dry run: order is not simulated, the allowance of ${deposit} to MatchingEngine is below ${amount}`
+    );
+    return false;
+  }
+  return true;
+}
+
+/// logs the order result with decoded OrderPlaced and OrderMatched events
+export function printOrder(client: StandardClient, order: OrderResult) {
+  const { pair } = order;
+  if (order.tx === undefined) {
+    console.log("Dry run: order is simulated and not sent");
+  } else {
+    console.log(`Order placed at: ${order.tx.hash}`);
+  }
+  for (const event of order.events) {
+    if (event.name === "OrderMatched") {
+      const { id, isBid, owner, price, amount } = event.args;
+      console.log(
+        `OrderMatched: ${isBid ? "buy" : "sell"} matched ${
+          isBid ? "ask" : "bid"
+        } #${id} of ${owner} at ${client.formatPrice(
+          price
+        )} for ${client.formatAmount(pair, amount, isBid)}`
+      );
+    } else if (event.name === "OrderPlaced") {
+      const { id, isBid, owner, price, amount } = event.args;
+      console.log(
+        `OrderPlaced: ${
+          isBid ? "bid" : "ask"
+        } #${id} of ${owner} at ${client.formatPrice(
+          price
+        )} for ${client.formatAmount(pair, amount, isBid)}`
+      );
+    }
+  }
+  console.log(
+    `Result: makePrice ${client.formatPrice(
+      order.makePrice
+    )}, placed ${client.formatAmount(pair, order.placed, order.isBid)}, id ${
+      order.id
+    }`
+  );
+}
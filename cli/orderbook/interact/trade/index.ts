@@ -1 +1,2 @@
-import "./limitOrder";
\ No newline at end of file
+import "./limitOrder";
+import "./marketOrder";
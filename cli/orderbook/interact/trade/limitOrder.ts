@@ -1,81 +1,96 @@
+import { task } from "hardhat/config";
 import {
-    executeTx,
-    deployContract,
-    ChainId,
-    FACTORY_ROLE,
-    getAddress,
-    ZERO,
-  } from "../../../helper";
-  import { task } from "hardhat/config";
-  import { WETH9_ADDRESS } from "../../../helper/constants";
+  addOrderParams,
+  approveDeposit,
+  OrderTaskArgs,
+  prepareOrder,
+  printOrder,
+} from "./common";
 
-task("interact-limit-buy", "Limit buys on orderbook")
-  .setAction(async ( { ethers }) => {
-    const hre = require("hardhat");
-    const inquirer = require("inquirer");
-    const { deployer, trader1, trader2, booker } = hre.namedAccounts;
-
-    const signerAddress = await inquirer.prompt([
-      {
-        type: "list",
-        name: "signer",
-        message: "Choose signer",
-        choices: [deployer, trader1, trader2, booker],
-      },
-    ]);
-
-    const signer = await ethers.getSigner(signerAddress);
-
-    // Limit Buy on Orderbook
-    const orderbook = await ethers.getContractAt(
-      "MatchingEngine",
-      await getAddress("MatchingEngine", ChainId.LOCALHOST)
-    );
-    const orderbookBySigner = orderbook.connect(signer);
-    orderbookBySigner.limitBuy(
-      await getAddress("Token1", ChainId.LOCALHOST),
-      await getAddress("Token2", ChainId.LOCALHOST),
-      1,
-      1,
-    )
+addOrderParams(
+  task(
+    "trade:limit-buy",
+    "Limit buys base asset with quote asset on orderbook"
+  ),
+  ["base", "quote", "price", "amount"]
+).setAction(async (taskArgs: OrderTaskArgs, hre) => {
+  const { client, base, quote, price, options } = await prepareOrder(
+    hre,
+    taskArgs,
+    ["base", "quote", "price", "amount"]
+  );
+  if (!(await approveDeposit(client, base!, quote!, options.amount, true))) {
+    return;
+  }
+  const order = await client.limitBuy({
+    base: base!,
+    quote: quote!,
+    price: price!,
+    ...options,
   });
+  printOrder(client, order);
+});
 
-task("interact-limit-sell", "Limit sells on orderbook")
-  .setAction(async ( { ethers }) => {
-    const hre = require("hardhat");
-    const inquirer = require("inquirer");
-    const { trader1, trader2, booker } = hre.namedAccounts;
-
-    const signerAddress = await inquirer.prompt([
-      {
-        type: "list",
-        name: "signer",
-        message: "Choose signer",
-        choices: [trader1, trader2, booker],
-      },
-    ]);
-
-    const signer = await ethers.getSigner(signerAddress);
-
-    // Do something with the signer...
+addOrderParams(
+  task(
+    "trade:limit-sell",
+    "Limit sells base asset for quote asset on orderbook"
+  ),
+  ["base", "quote", "price", "amount"]
+).setAction(async (taskArgs: OrderTaskArgs, hre) => {
+  const { client, base, quote, price, options } = await prepareOrder(
+    hre,
+    taskArgs,
+    ["base", "quote", "price", "amount"]
+  );
+  if (!(await approveDeposit(client, base!, quote!, options.amount, false))) {
+    return;
+  }
+  const order = await client.limitSell({
+    base: base!,
+    quote: quote!,
+    price: price!,
+    ...options,
   });
+  printOrder(client, order);
+});
 
-task("interact-add-book", "Add another book to orderbook")
-  .setAction(async ( { ethers }) => {
-    const hre = require("hardhat");
-    const inquirer = require("inquirer");
-    const { trader1, trader2, booker } = hre.namedAccounts;
-
-    const signerAddress = await inquirer.prompt([
-      {
-        type: "list",
-        name: "signer",
-        message: "Choose signer",
-        choices: [trader1, trader2, booker],
-      },
-    ]);
-
-    const signer = await ethers.getSigner(signerAddress);
+addOrderParams(
+  task(
+    "trade:limit-buy-eth",
+    "Limit buys base asset with native currency on orderbook"
+  ),
+  ["base", "price", "amount"]
+).setAction(async (taskArgs: OrderTaskArgs, hre) => {
+  const { client, base, price, options } = await prepareOrder(hre, taskArgs, [
+    "base",
+    "price",
+    "amount",
+  ]);
+  const order = await client.limitBuyETH({
+    base: base!,
+    price: price!,
+    ...options,
+  });
+  printOrder(client, order);
+});
 
-    // Do something with the signer...
+addOrderParams(
+  task(
+    "trade:limit-sell-eth",
+    "Limit sells native currency for quote asset on orderbook"
+  ),
+  ["quote", "price", "amount"]
+).setAction(async (taskArgs: OrderTaskArgs, hre) => {
+  const { client, quote, price, options } = await prepareOrder(hre, taskArgs, [
+    "quote",
+    "price",
+    "amount",
+  ]);
+  const order = await client.limitSellETH({
+    quote: quote!,
+    price: price!,
+    ...options,
   });
+  printOrder(client, order);
+});
@@ -0,0 +1,84 @@
+import { task } from "hardhat/config";
+import {
+  addOrderParams,
+  approveDeposit,
+  OrderTaskArgs,
+  prepareOrder,
+  printOrder,
+} from "./common";
+
+addOrderParams(
+  task(
+    "trade:market-buy",
+    "Market buys base asset with quote asset on orderbook"
+  ),
+  ["base", "quote", "amount"]
+).setAction(async (taskArgs: OrderTaskArgs, hre) => {
+  const { client, base, quote, options } = await prepareOrder(hre, taskArgs, [
+    "base",
+    "quote",
+    "amount",
+  ]);
+  if (!(await approveDeposit(client, base!, quote!, options.amount, true))) {
+    return;
+  }
+  const order = await client.marketBuy({
+    base: base!,
+    quote: quote!,
+    ...options,
+  });
+  printOrder(client, order);
+});
+
+addOrderParams(
+  task(
+    "trade:market-sell",
+    "Market sells base asset for quote asset on orderbook"
+  ),
+  ["base", "quote", "amount"]
+).setAction(async (taskArgs: OrderTaskArgs, hre) => {
+  const { client, base, quote, options } = await prepareOrder(hre, taskArgs, [
+    "base",
+    "quote",
+    "amount",
+  ]);
+  if (!(await approveDeposit(client, base!, quote!, options.amount, false))) {
+    return;
+  }
+  const order = await client.marketSell({
+    base: base!,
+    quote: quote!,
+    ...options,
+  });
+  printOrder(client, order);
+});
+
+addOrderParams(
+  task(
+    "trade:market-buy-eth",
+    "Market buys base asset with native currency on orderbook"
+  ),
+  ["base", "amount"]
+).setAction(async (taskArgs: OrderTaskArgs, hre) => {
+  const { client, base, options } = await prepareOrder(hre, taskArgs, [
+    "base",
+    "amount",
+  ]);
+  const order = await client.marketBuyETH({ base: base!, ...options });
+  printOrder(client, order);
+});
+
+addOrderParams(
+  task(
+    "trade:market-sell-eth",
+    "Market sells native currency for quote asset on orderbook"
+  ),
+  ["quote", "amount"]
+).setAction(async (taskArgs: OrderTaskArgs, hre) => {
+  const { client, quote, options } = await prepareOrder(hre, taskArgs, [
+    "quote",
+    "amount",
+  ]);
+  const order = await client.marketSellETH({ quote: quote!, ...options });
+  printOrder(client, order);
+});
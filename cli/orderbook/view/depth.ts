@@ -0,0 +1,149 @@
+import { BigNumber, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import { StandardClient, PairInfo } from "../../sdk";
+import {
+  BookLevel,
+  baseToQuote,
+  getMktPrice,
+  getPairById,
+  quoteToBase,
+  readBook,
+} from "../../sdk/book";
+import { resolveToken } from "../../helper";
+
+interface LadderRow {
+  price: string;
+  size: string;
+  total: string;
+  cumulative: string;
+  orders: number;
+}
+
+/// aggregates levels into rows with size in base asset and total in quote asset
+function buildLadder(
+  client: StandardClient,
+  pair: PairInfo,
+  levels: BookLevel[],
+  isBid: boolean
+): LadderRow[] {
+  let cumulative = BigNumber.from(0);
+  return levels.map((level) => {
+    const size = isBid
+      ? quoteToBase(pair, level.price, level.depositAmount)
+      : level.depositAmount;
+    const total = isBid
+      ? level.depositAmount
+      : baseToQuote(pair, level.price, level.depositAmount);
+    cumulative = cumulative.add(size);
+    return {
+      price: client.formatPrice(level.price),
+      size: utils.formatUnits(size, pair.bDecimal),
+      total: utils.formatUnits(total, pair.qDecimal),
+      cumulative: utils.formatUnits(cumulative, pair.bDecimal),
+      orders: level.orders.length,
+    };
+  });
+}
+
+function printRows(rows: LadderRow[]) {
+  for (const row of rows) {
+    console.log(
+      [
+        row.price.padStart(20),
+        row.size.padStart(26),
+        row.total.padStart(26),
+        row.cumulative.padStart(26),
+        String(row.orders).padStart(7),
+      ].join(" ")
+    );
+  }
+}
+
+task("orderbook:depth", "Shows aggregated bid/ask ladder of a pair")
+  .addOptionalParam("base", "Base token address or address book name")
+  .addOptionalParam("quote", "Quote token address or address book name")
+  .addOptionalParam("id", "Pair id in OrderbookFactory", undefined, types.int)
+  .addOptionalParam("levels", "Number of price levels per side", 20, types.int)
+  .addOptionalParam(
+    "orders",
+    "Number of orders to read per level",
+    50,
+    types.int
+  )
+  .addFlag("json", "Print depth as JSON")
+  .setAction(async ({ base, quote, id, levels, orders, json }, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const chainId = await signer.getChainId();
+    const client = await StandardClient.fromAddressBook(hre, signer);
+
+    let pair: PairInfo;
+    if (id !== undefined) {
+      pair = await getPairById(client, id);
+    } else if (base !== undefined && quote !== undefined) {
+      pair = await client.getPair(
+        await resolveToken(base, chainId),
+        await resolveToken(quote, chainId)
+      );
+    } else {
+      throw new Error("Either --id or both --base and --quote are required");
+    }
+
+    const [bidLevels, askLevels, mktPrice] = await Promise.all([
+      readBook(client, pair, true, { levels, orders }),
+      readBook(client, pair, false, { levels, orders }),
+      getMktPrice(client, pair),
+    ]);
+    const bids = buildLadder(client, pair, bidLevels, true);
+    const asks = buildLadder(client, pair, askLevels, false);
+
+    const bestBid = bidLevels.length > 0 ? bidLevels[0].price : undefined;
+    const bestAsk = askLevels.length > 0 ? askLevels[0].price : undefined;
+    const mid =
+      bestBid && bestAsk ? bestBid.add(bestAsk).div(2) : bestBid ?? bestAsk;
+    const spread = bestBid && bestAsk ? bestAsk.sub(bestBid) : undefined;
+    const format = (price?: BigNumber) =>
+      price === undefined ? null : client.formatPrice(price);
+
+    const depth = {
+      pair,
+      mktPrice: format(mktPrice),
+      bestBid: format(bestBid),
+      bestAsk: format(bestAsk),
+      mid: format(mid),
+      spread: format(spread),
+      spreadBps:
+        spread && mid && !mid.isZero()
+          ? spread.mul(10000).div(mid).toNumber()
+          : null,
+      bids,
+      asks,
+    };
+
+    if (json) {
+      console.log(JSON.stringify(depth, null, 2));
+      return depth;
+    }
+
+    console.log(
+      `Orderbook ${pair.orderbook} (base ${pair.base}, quote ${pair.quote})`
+    );
+    console.log(
+      [
+        "price".padStart(20),
+        "size".padStart(26),
+        "total".padStart(26),
+        "cumulative".padStart(26),
+        "orders".padStart(7),
+      ].join(" ")
+    );
+    console.log("ASKS");
+    printRows([...asks].reverse());
+    console.log(
+      `---- mid ${depth.mid ?? "-"} | spread ${depth.spread ?? "-"} (${
+        depth.spreadBps ?? "-"
+      } bps) | mktPrice ${depth.mktPrice ?? "-"} ----`
+    );
+    console.log("BIDS");
+    printRows(bids);
+    return depth;
+  });
@@ -0,0 +1,2 @@
+import "./depth";
+import "./quote";
@@ -0,0 +1,140 @@
+import { task, types } from "hardhat/config";
+import { resolveContract, resolveToken } from "../../helper";
+import {
+  FEE_DENOM,
+  getPairById,
+  MarketQuote,
+  MAX_MATCHES,
+  PairInfo,
+  quoteMarket,
+  StandardClient,
+} from "../../sdk";
+
+/// human readable quote, amounts of the deposit asset are in quote asset on buys and base asset on sells
+function formatQuote(client: StandardClient, quote: MarketQuote) {
+  const { pair, isBid } = quote;
+  const price = (value?: typeof quote.limitPrice) =>
+    value === undefined ? null : client.formatPrice(value);
+  return {
+    side: isBid ? "buy" : "sell",
+    amount: client.formatAmount(pair, quote.amount, isBid),
+    fee: client.formatAmount(pair, quote.fee, isBid),
+    feeRate: `${(quote.feeNum * 100) / FEE_DENOM}%`,
+    bestPrice: price(quote.bestPrice),
+    limitPrice: price(quote.limitPrice),
+    outOfSpread: quote.outOfSpread,
+    averagePrice: price(quote.averagePrice),
+    slippageBps: quote.slippageBps ?? null,
+    matches: quote.fills.length,
+    matched: client.formatAmount(pair, quote.matched, isBid),
+    received: client.formatAmount(pair, quote.received, !isBid),
+    makePrice: price(quote.makePrice),
+    placed: client.formatAmount(pair, quote.placed, isBid),
+    refunded: client.formatAmount(pair, quote.refunded, isBid),
+    tooManyMatches: quote.tooManyMatches,
+    tooSmall: quote.tooSmall,
+  };
+}
+
+task(
+  "orderbook:quote",
+  "Simulates a market buy or sell on the current book without sending it"
+)
+  .addParam("side", "buy or sell")
+  .addParam(
+    "amount",
+    "Amount to deposit, quote asset on buys and base asset on sells"
+  )
+  .addOptionalParam("base", "Base token address or address book name")
+  .addOptionalParam("quote", "Quote token address or address book name")
+  .addOptionalParam("id", "Pair id in OrderbookFactory", undefined, types.int)
+  .addOptionalParam(
+    "n",
+    "The maximum number of orders to match",
+    MAX_MATCHES,
+    types.int
+  )
+  .addOptionalParam("uid", "Membership uid for fee tier", 0, types.int)
+  .addOptionalParam(
+    "account",
+    "Sender whose uid decides the fee, the first signer as default"
+  )
+  .addOptionalParam(
+    "treasury",
+    "Treasury address or address book name, read for the fee of --uid",
+    "Treasury"
+  )
+  .addOptionalParam(
+    "maker",
+    "Place remaining amount as a maker order",
+    true,
+    types.boolean
+  )
+  .addFlag("fills", "Also list the orders the quote matches")
+  .addFlag("json", "Print the quote as JSON")
+  .setAction(async (args, hre) => {
+    if (args.side !== "buy" && args.side !== "sell") {
+      throw new Error(`Side ${args.side} is not buy or sell`);
+    }
+    const isBid = args.side === "buy";
+    const [signer] = await hre.ethers.getSigners();
+    const chainId = await signer.getChainId();
+    const client = await StandardClient.fromAddressBook(hre, signer);
+
+    let pair: PairInfo;
+    if (args.id !== undefined) {
+      pair = await getPairById(client, args.id);
+    } else if (args.base !== undefined && args.quote !== undefined) {
+      pair = await client.getPair(
+        await resolveToken(args.base, chainId),
+        await resolveToken(args.quote, chainId)
+      );
+    } else {
+      throw new Error("Either --id or both --base and --quote are required");
+    }
+
+    const quote = await quoteMarket(client, pair, {
+      isBid,
+      amount: client.parseAmount(pair, args.amount, isBid),
+      n: args.n,
+      isMaker: args.maker,
+      uid: args.uid,
+      account: args.account ?? signer.address,
+      treasury:
+        args.uid == 0
+          ? undefined
+          : await resolveContract(args.treasury, chainId),
+    });
+    const summary = formatQuote(client, quote);
+    const fills = quote.fills.map((fill) => ({
+      id: fill.id,
+      owner: fill.owner,
+      price: client.formatPrice(fill.price),
+      given: client.formatAmount(pair, fill.given, isBid),
+      received: client.formatAmount(pair, fill.received, !isBid),
+      cleared: fill.cleared,
+    }));
+
+    if (args.json) {
+      console.log(JSON.stringify({ pair, ...summary, fills }, null, 2));
+      return quote;
+    }
+    console.log(
+      `Orderbook ${pair.orderbook} (base ${pair.base}, quote ${pair.quote})`
+    );
+    console.table(summary);
+    if (args.fills && fills.length > 0) {
+      console.table(fills);
+    }
+    if (quote.tooManyMatches) {
+      console.log(
+        `n ${args.n} is above ${MAX_MATCHES}, the order reverts with TooManyMatches`
+      );
+    }
+    if (quote.tooSmall) {
+      console.log(
+        "The amount is worth one unit or less at mktPrice, the order reverts with OrderSizeTooSmall"
+      );
+    }
+    return quote;
+  });
@@ -0,0 +1,2 @@
+import "./tasks";
+export * from "./tracker";
@@ -0,0 +1,201 @@
+import { task, types } from "hardhat/config";
+import {
+  addExecutorParams,
+  confirm,
+  getExecutorConfig,
+  prompt,
+  setupExecutor,
+  splitBatches,
+} from "../helper";
+import { runIndexer } from "../indexer";
+import { openStore } from "../indexer/tasks";
+import { connectMembership, ownerOfUid, sabtDeployBlock } from "../membership";
+import { listPairs, StandardClient } from "../sdk";
+import {
+  formatOrder,
+  mergeOrders,
+  scanBooks,
+  TrackedOrder,
+  trackOrders,
+} from "./tracker";
+
+/// picks orders by "all" or comma separated row numbers of the table, asks with a checkbox otherwise
+async function selectOrders(
+  client: StandardClient,
+  orders: TrackedOrder[],
+  selection?: string
+): Promise<TrackedOrder[]> {
+  if (selection === "all") {
+    return orders;
+  }
+  if (selection !== undefined) {
+    return selection.split(",").map((row) => {
+      const order = orders[Number(row.trim())];
+      if (!/^\d+$/.test(row.trim()) || order === undefined) {
+        throw new Error(
+          `Row ${row} is not in the table of ${orders.length} orders`
+        );
+      }
+      return order;
+    });
+  }
+  const { picked } = await prompt([
+    {
+      type: "checkbox",
+      name: "picked",
+      message: "Orders to cancel",
+      choices: orders.map((order, row) => {
+        const { pair, side, id, price, remaining } = formatOrder(client, order);
+        return {
+          name: `${pair} ${side} #${id} at ${price}, ${remaining} left`,
+          value: row,
+        };
+      }),
+    },
+  ]);
+  return (picked as number[]).map((row) => orders[row]);
+}
+
+addExecutorParams(
+  task(
+    "orders:mine",
+    "Lists open orders of a trader across every pair and cancels a selection"
+  )
+)
+  .addOptionalParam("address", "Owner of the orders")
+  .addOptionalParam(
+    "uid",
+    "Membership uid, its holder is the owner and the uid is reported on cancels",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("checkpoint", "Indexer checkpoint file path")
+  .addFlag("nosync", "List from the checkpoint without indexing new blocks")
+  .addFlag(
+    "scan",
+    "Also walk every book for orders the index does not know, their fill is unknown"
+  )
+  .addOptionalParam(
+    "levels",
+    "Price levels per side with --scan",
+    50,
+    types.int
+  )
+  .addOptionalParam(
+    "orders",
+    "Orders per price level with --scan",
+    100,
+    types.int
+  )
+  .addOptionalParam(
+    "cancel",
+    'Cancels "all" or comma separated rows of the table, "pick" to choose them'
+  )
+  .addOptionalParam(
+    "batchSize",
+    "Orders per cancelOrders transaction",
+    20,
+    types.int
+  )
+  .addFlag("yes", "Skip the confirmation")
+  .addFlag("json", "Print as JSON")
+  .setAction(async (args, hre) => {
+    const { ethers } = hre;
+    let owner: string | undefined = args.address;
+    if (owner === undefined && args.uid === undefined) {
+      throw new Error("Either --address or --uid is required");
+    }
+    if (owner === undefined) {
+      const { chainId, sabt } = await connectMembership(hre);
+      owner = await ownerOfUid(
+        sabt,
+        args.uid,
+        await sabtDeployBlock(chainId, sabt.address)
+      );
+      if (owner === undefined) {
+        throw new Error(`uid ${args.uid} has no holder`);
+      }
+    }
+    owner = ethers.utils.getAddress(owner);
+
+    const { engine, store, file } = await openStore(
+      hre,
+      undefined,
+      args.checkpoint
+    );
+    if (!args.nosync) {
+      await runIndexer(engine, store, { checkpoint: file });
+    }
+    const [signer] = await ethers.getSigners();
+    const reader = await StandardClient.fromAddressBook(hre, signer);
+    const pairs = await listPairs(reader);
+    let orders = await trackOrders(reader, store, owner, pairs);
+    if (args.scan) {
+      orders = mergeOrders(
+        orders,
+        await scanBooks(reader, owner, pairs, {
+          levels: args.levels,
+          orders: args.orders,
+        })
+      );
+    }
+    const rows = orders.map((order) => formatOrder(reader, order));
+    if (args.json) {
+      console.log(JSON.stringify({ owner, orders: rows }, null, 2));
+    } else {
+      console.log(
+        `${orders.length} open orders of ${owner} on ${pairs.length} pairs, indexed up to block ${store.lastBlock}`
+      );
+      if (rows.length > 0) {
+        console.table(rows);
+      }
+    }
+    if (args.cancel === undefined || orders.length == 0) {
+      return rows;
+    }
+
+    await setupExecutor(hre, args);
+    const selected = await selectOrders(
+      reader,
+      orders,
+      args.cancel === "pick" ? undefined : args.cancel
+    );
+    if (selected.length == 0) {
+      console.log("No orders selected");
+      return rows;
+    }
+    if (
+      !args.yes &&
+      !getExecutorConfig().dryRun &&
+      !(await confirm(`Cancel ${selected.length} orders of ${owner}?`))
+    ) {
+      console.log("Cancelled");
+      return rows;
+    }
+    // orders are canceled by their owner only
+    const client = await StandardClient.fromAddressBook(
+      hre,
+      await ethers.getSigner(owner)
+    );
+    for (const batch of splitBatches(selected, args.batchSize)) {
+      const { refunded, tx } = await client.cancelOrders(
+        batch.map((order) => ({
+          base: order.pair.base,
+          quote: order.pair.quote,
+          isBid: order.isBid,
+          orderId: order.id,
+        })),
+        args.uid ?? 0
+      );
+      console.table(
+        batch.map((order, i) => ({
+          ...formatOrder(client, order),
+          refunded: client.formatAmount(order.pair, refunded[i], order.isBid),
+        }))
+      );
+      if (tx !== undefined) {
+        console.log(`Canceled ${batch.length} orders at: ${tx.hash}`);
+      }
+    }
+    return rows;
+  });
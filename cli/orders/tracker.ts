@@ -0,0 +1,166 @@
+/// open orders of a trader across every pair, from indexed OrderPlaced events checked against the live book
+/// the index knows when and how much an order was placed for, getOrder knows what is left of it
+/// example
+/// const { engine, store } = await openStore(hre);
+/// await runIndexer(engine, store);
+/// const orders = await trackOrders(client, store, owner, await listPairs(client));
+
+import { BigNumber } from "ethers";
+import { EngineStore, openOrders, orderKey } from "../indexer";
+import { ListedPair, quoteToBase, readBook, StandardClient } from "../sdk";
+
+export interface TrackedOrder {
+  pair: ListedPair;
+  isBid: boolean;
+  id: number;
+  owner: string;
+  price: BigNumber;
+  /// deposit when placed, undefined for orders found on the book but not in the index
+  placed?: BigNumber;
+  /// deposit left on the book, quote asset on bids and base asset on asks
+  remaining: BigNumber;
+  /// OrderMatched events against the order
+  fills: number;
+  block?: number;
+  txHash?: string;
+}
+
+export interface ScanOptions {
+  /// number of price levels to read from the head of each side
+  levels?: number;
+  /// number of orders to read at each price level
+  orders?: number;
+}
+
+/// filled share of the placed deposit in percent with 2 decimals
+export function fillPercent(order: TrackedOrder): number | undefined {
+  if (order.placed === undefined || order.placed.isZero()) {
+    return undefined;
+  }
+  const filled = order.placed.sub(order.remaining);
+  return filled.lte(0)
+    ? 0
+    : filled.mul(10000).div(order.placed).toNumber() / 100;
+}
+
+function countFills(store: EngineStore) {
+  const fills: { [key: string]: number } = {};
+  for (const fill of store.fills) {
+    // fills carry the taker side, the matched maker order rests on the other
+    const key = orderKey(fill.orderbook, !fill.isBid, fill.id);
+    fills[key] = (fills[key] ?? 0) + 1;
+  }
+  return fills;
+}
+
+/// open orders of owner in the index which are still on the book with a deposit.
+/// orders of pairs which are not listed are skipped.
+export async function trackOrders(
+  client: StandardClient,
+  store: EngineStore,
+  owner: string,
+  pairs: ListedPair[]
+): Promise<TrackedOrder[]> {
+  const byOrderbook = new Map(
+    pairs.map((pair) => [pair.orderbook.toLowerCase(), pair])
+  );
+  const fills = countFills(store);
+  const tracked: TrackedOrder[] = [];
+  for (const order of openOrders(store, owner)) {
+    const pair = byOrderbook.get(order.orderbook);
+    if (pair === undefined) {
+      continue;
+    }
+    // the index leaves dust of rounded fills open, the book has the exact deposit
+    const live = await client.engine.getOrder(
+      pair.base,
+      pair.quote,
+      order.isBid,
+      order.id
+    );
+    if (
+      live.owner.toLowerCase() !== owner.toLowerCase() ||
+      live.depositAmount.isZero()
+    ) {
+      continue;
+    }
+    tracked.push({
+      pair,
+      isBid: order.isBid,
+      id: order.id,
+      owner: live.owner,
+      price: BigNumber.from(order.price),
+      placed: BigNumber.from(order.amount),
+      remaining: live.depositAmount,
+      fills: fills[orderKey(order.orderbook, order.isBid, order.id)] ?? 0,
+      block: order.block,
+      txHash: order.txHash,
+    });
+  }
+  return tracked;
+}
+
+/// orders of owner resting on the books, read from the head through getOrderIds.
+/// deep books are read up to the given levels and orders per level.
+export async function scanBooks(
+  client: StandardClient,
+  owner: string,
+  pairs: ListedPair[],
+  options: ScanOptions = {}
+): Promise<TrackedOrder[]> {
+  const found: TrackedOrder[] = [];
+  for (const pair of pairs) {
+    for (const isBid of [true, false]) {
+      for (const level of await readBook(client, pair, isBid, options)) {
+        for (const order of level.orders) {
+          if (order.owner.toLowerCase() !== owner.toLowerCase()) {
+            continue;
+          }
+          found.push({
+            pair,
+            isBid,
+            id: order.id,
+            owner: order.owner,
+            price: order.price,
+            remaining: order.depositAmount,
+            fills: 0,
+          });
+        }
+      }
+    }
+  }
+  return found;
+}
+
+/// adds scanned orders which the index does not know
+export function mergeOrders(
+  tracked: TrackedOrder[],
+  scanned: TrackedOrder[]
+): TrackedOrder[] {
+  const key = (order: TrackedOrder) =>
+    orderKey(order.pair.orderbook, order.isBid, order.id);
+  const known = new Set(tracked.map(key));
+  return [...tracked, ...scanned.filter((order) => !known.has(key(order)))];
+}
+
+export function formatOrder(client: StandardClient, order: TrackedOrder) {
+  const { pair, isBid } = order;
+  const size = isBid
+    ? quoteToBase(pair, order.price, order.remaining)
+    : order.remaining;
+  const fill = fillPercent(order);
+  return {
+    pair: pair.name,
+    side: isBid ? "bid" : "ask",
+    id: order.id,
+    price: client.formatPrice(order.price),
+    placed:
+      order.placed === undefined
+        ? ""
+        : client.formatAmount(pair, order.placed, isBid),
+    remaining: client.formatAmount(pair, order.remaining, isBid),
+    size: client.formatAmount(pair, size, false),
+    filled: fill === undefined ? "" : `${fill}%`,
+    fills: order.fills,
+  };
+}
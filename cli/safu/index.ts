@@ -0,0 +1,3 @@
+import "./tasks";
+
+export * from "./safu";
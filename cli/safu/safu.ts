@@ -0,0 +1,278 @@
+/// SAFU NetworkState readers and bond positions for CDP tasks and safu:watch
+/// bonds are EIP-1167 clones created with create2, so their addresses are predicted from the collateral,
+/// the currency and the bond id. NetworkState keeps its config in private storage, which is read
+/// following the layout of NetworkState.sol and NetworkStateLibrary.State.
+/// example
+/// const ctx = await connectNetworkState(hre);
+/// const bonds = await findBonds(ctx, [weth.address]);
+/// const positions = await Promise.all(bonds.map((bond) => bondPosition(ctx, bond)));
+
+import { BigNumber, Contract, Signer, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { erc20, readAddress, readWord, resolveContract } from "../helper";
+import { PRICE_DECIMALS } from "../sdk";
+
+/// Initializable takes slot 0, NetworkStateLibrary.State starts at slot 1
+const STATE_SLOT = 1;
+const SLOTS = {
+  supply: STATE_SLOT,
+  count: STATE_SLOT + 1,
+  coupon: STATE_SLOT + 3,
+  gov: STATE_SLOT + 4,
+  currency: STATE_SLOT + 5,
+  market: STATE_SLOT + 6,
+  treasury: STATE_SLOT + 7,
+  liquidator: STATE_SLOT + 8,
+  weth: STATE_SLOT + 9,
+  impl: STATE_SLOT + 10,
+};
+
+const COUPON_ABI = ["function ownerOf(uint256 tokenId) view returns (address)"];
+
+const BOND_ABI = [
+  "function borrow() view returns (uint256)",
+  "function getDebt() returns (uint256)",
+  "function liquidate()",
+];
+
+export interface StateConfig {
+  /// desired supply of the currency
+  supply: BigNumber;
+  /// number of bonds created, ids run from 0
+  count: number;
+  coupon: string;
+  gov: string;
+  currency: string;
+  market: string;
+  treasury: string;
+  liquidator: string;
+  weth: string;
+  impl: string;
+}
+
+export interface SafuContext {
+  chainId: number;
+  signer: Signer;
+  state: Contract;
+  /// MatchingEngine the collateral prices come from
+  engine: Contract;
+  config: StateConfig;
+}
+
+export interface BondRef {
+  id: number;
+  collateral: string;
+  bond: string;
+}
+
+export type BondStatus = "safe" | "warning" | "liquidatable" | "no price";
+
+export interface BondPosition extends BondRef {
+  owner?: string;
+  symbol: string;
+  /// collateral held by the bond
+  cAmount: BigNumber;
+  /// getDebt with stability fees, or the borrowed amount when getDebt reverts
+  debt: BigNumber;
+  /// collateral price in currency with 8 decimals
+  price: BigNumber;
+  /// collateral value in currency units
+  value: BigNumber;
+  /// collateral value over debt in percent, undefined without debt
+  ratio?: number;
+  /// minimum collateral ratio of the collateral in percent
+  mcr: number;
+  status: BondStatus;
+}
+
+export interface PositionOptions {
+  /// prices by lowercase collateral address with 8 decimals, replacing mktPrice on local nodes
+  prices?: Map<string, BigNumber>;
+  /// percent above mcr a position is flagged as a warning at
+  warn?: number;
+}
+
+export async function readStateConfig(state: Contract): Promise<StateConfig> {
+  return {
+    supply: BigNumber.from(await readWord(state, SLOTS.supply)),
+    // count is a uint128 in the lower half of its slot
+    count: BigNumber.from(await readWord(state, SLOTS.count))
+      .mask(128)
+      .toNumber(),
+    coupon: await readAddress(state, SLOTS.coupon),
+    gov: await readAddress(state, SLOTS.gov),
+    currency: await readAddress(state, SLOTS.currency),
+    market: await readAddress(state, SLOTS.market),
+    treasury: await readAddress(state, SLOTS.treasury),
+    liquidator: await readAddress(state, SLOTS.liquidator),
+    weth: await readAddress(state, SLOTS.weth),
+    impl: await readAddress(state, SLOTS.impl),
+  };
+}
+
+export async function connectNetworkState(
+  hre: HardhatRuntimeEnvironment,
+  signerAddress?: string,
+  name = "NetworkState"
+): Promise<SafuContext> {
+  const { ethers } = hre;
+  const signer: Signer =
+    signerAddress === undefined
+      ? (await ethers.getSigners())[0]
+      : await ethers.getSigner(signerAddress);
+  const { chainId } = await ethers.provider.getNetwork();
+  const state = await ethers.getContractAt(
+    "NetworkState",
+    await resolveContract(name, chainId),
+    signer
+  );
+  const config = await readStateConfig(state);
+  const engine = await ethers.getContractAt(
+    "MatchingEngine",
+    config.market,
+    signer
+  );
+  return { chainId, signer, state, engine, config };
+}
+
+/// NetworkStateLibrary._predictAddress, create2 of an EIP-1167 clone of impl salted with collateral, debt and id
+export function predictBondAddress(
+  state: string,
+  impl: string,
+  collateral: string,
+  debt: string,
+  id: number
+): string {
+  const salt = utils.solidityKeccak256(
+    ["address", "address", "uint128"],
+    [collateral, debt, id]
+  );
+  const clone = utils.solidityPack(
+    ["bytes", "address", "bytes"],
+    [
+      "0x3d602d80600a3d3981f3363d3d373d3d3d363d73",
+      impl,
+      "0x5af43d82803e903d91602b57fd5bf3",
+    ]
+  );
+  return utils.getCreate2Address(state, salt, utils.keccak256(clone));
+}
+
+/// bonds created so far, every id is tried with each collateral as bonds record no creation event
+export async function findBonds(
+  ctx: SafuContext,
+  collaterals: string[]
+): Promise<BondRef[]> {
+  const { state, config } = ctx;
+  const bonds: BondRef[] = [];
+  for (let id = 0; id < config.count; id++) {
+    for (const collateral of collaterals) {
+      const bond = predictBondAddress(
+        state.address,
+        config.impl,
+        collateral,
+        config.currency,
+        id
+      );
+      if ((await state.provider.getCode(bond)) !== "0x") {
+        bonds.push({ id, collateral, bond });
+        break;
+      }
+    }
+  }
+  return bonds;
+}
+
+export function bondContract(address: string, signer: Signer) {
+  return new Contract(address, BOND_ABI, signer);
+}
+
+/// collateral value in currency units at a price with 8 decimals
+export function collateralValue(
+  cAmount: BigNumber,
+  cDecimals: number,
+  price: BigNumber,
+  dDecimals: number
+): BigNumber {
+  return cAmount
+    .mul(price)
+    .mul(BigNumber.from(10).pow(dDecimals))
+    .div(BigNumber.from(10).pow(cDecimals + PRICE_DECIMALS));
+}
+
+/// mktPrice of the pair, zero when MatchingEngine has no pair for it
+export async function marketPrice(
+  engine: Contract,
+  base: string,
+  quote: string
+): Promise<BigNumber> {
+  try {
+    return await engine.mktPrice(base, quote);
+  } catch {
+    return BigNumber.from(0);
+  }
+}
+
+export function classify(
+  ratio: number | undefined,
+  mcr: number,
+  warn: number
+): BondStatus {
+  if (ratio === undefined || ratio >= mcr * (1 + warn / 100)) {
+    return "safe";
+  }
+  return ratio < mcr ? "liquidatable" : "warning";
+}
+
+export async function bondPosition(
+  ctx: SafuContext,
+  ref: BondRef,
+  options: PositionOptions = {}
+): Promise<BondPosition> {
+  const { config, engine, signer } = ctx;
+  const bond = bondContract(ref.bond, signer);
+  const collateral = erc20(ref.collateral, signer);
+  const currency = erc20(config.currency, signer);
+  const [symbol, cDecimals, dDecimals, cAmount] = await Promise.all([
+    collateral.symbol(),
+    collateral.decimals(),
+    currency.decimals(),
+    collateral.balanceOf(ref.bond),
+  ]);
+  let debt: BigNumber;
+  try {
+    debt = await bond.callStatic.getDebt();
+  } catch {
+    debt = await bond.borrow();
+  }
+  let owner: string | undefined;
+  try {
+    owner = await new Contract(config.coupon, COUPON_ABI, signer).ownerOf(
+      ref.id
+    );
+  } catch {
+    owner = undefined;
+  }
+  const { mcr } = await ctx.state.getCDP(ref.collateral);
+  const price =
+    options.prices?.get(ref.collateral.toLowerCase()) ??
+    (await marketPrice(engine, ref.collateral, config.currency));
+  const value = collateralValue(cAmount, cDecimals, price, dDecimals);
+  const ratio = debt.isZero()
+    ? undefined
+    : value.mul(10000).div(debt).toNumber() / 100;
+  return {
+    ...ref,
+    owner,
+    symbol,
+    cAmount,
+    debt,
+    price,
+    value,
+    ratio,
+    mcr,
+    status: price.isZero()
+      ? "no price"
+      : classify(ratio, mcr, options.warn ?? 10),
+  };
+}
@@ -0,0 +1,458 @@
+import { BigNumber, Contract, utils } from "ethers";
+import { task, types } from "hardhat/config";
+import {
+  ConfigurableTaskDefinition,
+  HardhatRuntimeEnvironment,
+} from "hardhat/types";
+import {
+  addExecutorParams,
+  describeError,
+  erc20,
+  resolveToken,
+  sendTx,
+  setupExecutor,
+} from "../helper";
+import { listTokens, PRICE_DECIMALS, StandardClient } from "../sdk";
+import {
+  BondPosition,
+  bondContract,
+  bondPosition,
+  connectNetworkState,
+  findBonds,
+  readStateConfig,
+  SafuContext,
+} from "./safu";
+
+function addStateParams(
+  definition: ConfigurableTaskDefinition
+): ConfigurableTaskDefinition {
+  return addExecutorParams(definition)
+    .addOptionalParam(
+      "state",
+      "NetworkState address or address book name",
+      "NetworkState"
+    )
+    .addOptionalParam("signer", "Address of the signer, deployer as default");
+}
+
+async function parseTokenAmount(token: Contract, amount: string) {
+  return utils.parseUnits(amount, await token.decimals());
+}
+
+/// approves NetworkState to pull a token when the allowance does not cover it
+async function approveState(
+  ctx: SafuContext,
+  token: Contract,
+  amount: BigNumber
+) {
+  const owner = await ctx.signer.getAddress();
+  if ((await token.allowance(owner, ctx.state.address)).gte(amount)) {
+    return;
+  }
+  await sendTx(
+    token,
+    "approve",
+    [ctx.state.address, amount],
+    {},
+    "Approve NetworkState to use collateral"
+  );
+}
+
+/// prices as SYMBOL=price pairs, names are resolved from the address book
+async function parsePrices(
+  prices: string | undefined,
+  chainId: number
+): Promise<Map<string, BigNumber>> {
+  const parsed = new Map<string, BigNumber>();
+  for (const entry of prices?.split(",") ?? []) {
+    const [token, price] = entry.split("=").map((part) => part.trim());
+    if (price === undefined) {
+      throw new Error(`Price ${entry} is not TOKEN=price`);
+    }
+    parsed.set(
+      (await resolveToken(token, chainId)).toLowerCase(),
+      utils.parseUnits(price, PRICE_DECIMALS)
+    );
+  }
+  return parsed;
+}
+
+addStateParams(task("safu:set-cdp", "Sets CDP ratios of a collateral"))
+  .addParam("collateral", "Collateral address or address book name")
+  .addParam(
+    "mcr",
+    "Minimum collateral ratio in percent, 0 keeps it",
+    undefined,
+    types.int
+  )
+  .addParam("rfr", "Redemption fee ratio, 0 keeps it", undefined, types.int)
+  .addParam(
+    "lfr",
+    "Liquidation fee ratio in percent, 0 keeps it",
+    undefined,
+    types.int
+  )
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ctx = await connectNetworkState(hre, args.signer, args.state);
+    const collateral = await resolveToken(args.collateral, ctx.chainId);
+    await sendTx(
+      ctx.state,
+      "setCDP",
+      [collateral, args.mcr, args.rfr, args.lfr],
+      {},
+      "Set CDP"
+    );
+  });
+
+task(
+  "safu:get-cdp",
+  "Shows CDP ratios of a collateral and the NetworkState config"
+)
+  .addParam("collateral", "Collateral address or address book name")
+  .addOptionalParam(
+    "state",
+    "NetworkState address or address book name",
+    "NetworkState"
+  )
+  .addFlag("json", "Print as JSON")
+  .setAction(async (args, hre) => {
+    const ctx = await connectNetworkState(hre, undefined, args.state);
+    const collateral = await resolveToken(args.collateral, ctx.chainId);
+    const { mcr, rfr, lfr, decimals } = await ctx.state.getCDP(collateral);
+    const info = {
+      collateral,
+      mcr,
+      rfr,
+      lfr,
+      decimals,
+      ...ctx.config,
+      supply: ctx.config.supply.toString(),
+    };
+    if (args.json) {
+      console.log(JSON.stringify(info, null, 2));
+    } else {
+      console.table(info);
+    }
+    return info;
+  });
+
+addStateParams(
+  task("safu:borrow", "Creates a bond borrowing currency against a collateral")
+)
+  .addParam("collateral", "Collateral address or address book name")
+  .addParam("cAmount", "Collateral amount")
+  .addParam("dAmount", "Currency amount to borrow")
+  .addOptionalParam("id", "Bond id, 0 creates a bond", 0, types.int)
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ctx = await connectNetworkState(hre, args.signer, args.state);
+    const collateral = erc20(
+      await resolveToken(args.collateral, ctx.chainId),
+      ctx.signer
+    );
+    const currency = erc20(ctx.config.currency, ctx.signer);
+    const { result } = await sendTx(
+      ctx.state,
+      "borrow",
+      [
+        collateral.address,
+        await parseTokenAmount(collateral, args.cAmount),
+        await parseTokenAmount(currency, args.dAmount),
+        args.id,
+      ],
+      {},
+      `Borrow ${args.dAmount} against ${args.cAmount} collateral`
+    );
+    console.log(`Bond: ${result}`);
+    return result;
+  });
+
+addStateParams(task("safu:borrow-more", "Borrows more currency from a bond"))
+  .addParam("id", "Bond id", undefined, types.int)
+  .addParam("collateral", "Collateral address or address book name")
+  .addParam("amount", "Currency amount to borrow")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ctx = await connectNetworkState(hre, args.signer, args.state);
+    const collateral = await resolveToken(args.collateral, ctx.chainId);
+    await sendTx(
+      ctx.state,
+      "borrowMore",
+      [
+        args.id,
+        collateral,
+        await parseTokenAmount(
+          erc20(ctx.config.currency, ctx.signer),
+          args.amount
+        ),
+      ],
+      {},
+      `Borrow ${args.amount} more from bond ${args.id}`
+    );
+  });
+
+addStateParams(
+  task("safu:create-bond-eth", "Creates a bond with ETH as collateral")
+)
+  .addParam("value", "ETH to deposit")
+  .addParam("dAmount", "Currency amount to borrow")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ctx = await connectNetworkState(hre, args.signer, args.state);
+    const { result } = await sendTx(
+      ctx.state,
+      "createBondETH",
+      [
+        await parseTokenAmount(
+          erc20(ctx.config.currency, ctx.signer),
+          args.dAmount
+        ),
+      ],
+      { value: utils.parseEther(args.value) },
+      `Create bond with ${args.value} ETH`
+    );
+    console.log(`Bond: ${result}`);
+    return result;
+  });
+
+addStateParams(task("safu:deposit-collateral", "Deposits collateral to a bond"))
+  .addParam("id", "Bond id", undefined, types.int)
+  .addParam("collateral", "Collateral address or address book name")
+  .addParam("amount", "Collateral amount")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ctx = await connectNetworkState(hre, args.signer, args.state);
+    const collateral = erc20(
+      await resolveToken(args.collateral, ctx.chainId),
+      ctx.signer
+    );
+    const amount = await parseTokenAmount(collateral, args.amount);
+    await approveState(ctx, collateral, amount);
+    await sendTx(
+      ctx.state,
+      "depositCollateral",
+      [args.id, collateral.address, amount],
+      {},
+      `Deposit ${args.amount} collateral to bond ${args.id}`
+    );
+  });
+
+addStateParams(
+  task(
+    "safu:deposit-collateral-eth",
+    "Deposits ETH as WETH collateral to a bond"
+  )
+)
+  .addParam("id", "Bond id", undefined, types.int)
+  .addParam("value", "ETH to deposit")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ctx = await connectNetworkState(hre, args.signer, args.state);
+    const value = utils.parseEther(args.value);
+    await sendTx(
+      ctx.state,
+      "depositCollateralETH",
+      [args.id, ctx.config.weth, value],
+      { value },
+      `Deposit ${args.value} ETH to bond ${args.id}`
+    );
+  });
+
+addStateParams(
+  task("safu:withdraw-collateral", "Withdraws collateral from a bond")
+)
+  .addParam("id", "Bond id", undefined, types.int)
+  .addParam("collateral", "Collateral address or address book name")
+  .addParam("amount", "Collateral amount")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ctx = await connectNetworkState(hre, args.signer, args.state);
+    const collateral = erc20(
+      await resolveToken(args.collateral, ctx.chainId),
+      ctx.signer
+    );
+    await sendTx(
+      ctx.state,
+      "withdrawCollateral",
+      [
+        args.id,
+        collateral.address,
+        await parseTokenAmount(collateral, args.amount),
+      ],
+      {},
+      `Withdraw ${args.amount} collateral from bond ${args.id}`
+    );
+  });
+
+addStateParams(task("safu:pay-back-debt", "Pays back debt of a bond"))
+  .addParam("id", "Bond id", undefined, types.int)
+  .addParam("collateral", "Collateral address or address book name")
+  .addParam("amount", "Currency amount to pay back")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ctx = await connectNetworkState(hre, args.signer, args.state);
+    const collateral = await resolveToken(args.collateral, ctx.chainId);
+    await sendTx(
+      ctx.state,
+      "payBackDebt",
+      [
+        args.id,
+        collateral,
+        await parseTokenAmount(
+          erc20(ctx.config.currency, ctx.signer),
+          args.amount
+        ),
+      ],
+      {},
+      `Pay back ${args.amount} to bond ${args.id}`
+    );
+  });
+
+addStateParams(task("safu:liquidate", "Liquidates a bond through NetworkState"))
+  .addParam("id", "Bond id", undefined, types.int)
+  .addParam("collateral", "Collateral address or address book name")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ctx = await connectNetworkState(hre, args.signer, args.state);
+    const collateral = await resolveToken(args.collateral, ctx.chainId);
+    await sendTx(
+      ctx.state,
+      "liquidate",
+      [collateral, ctx.config.currency, args.id],
+      {},
+      `Liquidate bond ${args.id}`
+    );
+  });
+
+function formatPosition(position: BondPosition) {
+  return {
+    id: position.id,
+    bond: position.bond,
+    owner: position.owner ?? "",
+    collateral: position.symbol,
+    cAmount: position.cAmount.toString(),
+    debt: position.debt.toString(),
+    price: utils.formatUnits(position.price, PRICE_DECIMALS),
+    ratio: position.ratio ?? "",
+    mcr: position.mcr,
+    status: position.status,
+  };
+}
+
+async function watchCollaterals(
+  hre: HardhatRuntimeEnvironment,
+  ctx: SafuContext,
+  collaterals?: string
+) {
+  if (collaterals !== undefined) {
+    return Promise.all(
+      collaterals
+        .split(",")
+        .map((token) => resolveToken(token.trim(), ctx.chainId))
+    );
+  }
+  const tokens = await listTokens(
+    await StandardClient.fromAddressBook(hre, ctx.signer)
+  );
+  return [
+    ctx.config.weth,
+    ...tokens.filter((token) => token !== ctx.config.weth),
+  ];
+}
+
+addStateParams(
+  task(
+    "safu:watch",
+    "Watches collateral ratios of bonds and flags positions near liquidation"
+  )
+)
+  .addOptionalParam(
+    "collaterals",
+    "Comma separated collateral addresses or address book names, WETH and tokens of all pairs as default"
+  )
+  .addOptionalParam("interval", "Seconds between rounds", 15, types.int)
+  .addOptionalParam(
+    "rounds",
+    "Rounds to watch, 0 watches until stopped",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "warn",
+    "Percent above mcr positions are flagged at",
+    10,
+    types.float
+  )
+  .addOptionalParam(
+    "prices",
+    "Local node only, comma separated TOKEN=price replacing mktPrice"
+  )
+  .addFlag("liquidate", "Liquidate bonds below mcr")
+  .addFlag("json", "Print each round as JSON")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ctx = await connectNetworkState(hre, args.signer, args.state);
+    if (args.prices !== undefined && ctx.chainId !== 31337) {
+      throw new Error(
+        `--prices replaces market prices for tests and only runs on a local node, chain id is ${ctx.chainId}`
+      );
+    }
+    if (args.prices !== undefined && args.liquidate) {
+      // Bond.liquidate checks the position at mktPrice, which --prices does not change
+      throw new Error(
+        "--prices only changes how bonds are classified, liquidations need the market price to move"
+      );
+    }
+    const prices = await parsePrices(args.prices, ctx.chainId);
+    const collaterals = await watchCollaterals(hre, ctx, args.collaterals);
+
+    let positions: BondPosition[] = [];
+    const liquidated: number[] = [];
+    for (let round = 1; args.rounds == 0 || round <= args.rounds; round++) {
+      // bonds are created between rounds, so the count is read again
+      ctx.config = await readStateConfig(ctx.state);
+      positions = [];
+      for (const bond of await findBonds(ctx, collaterals)) {
+        positions.push(
+          await bondPosition(ctx, bond, { prices, warn: args.warn })
+        );
+      }
+      const block = await hre.ethers.provider.getBlockNumber();
+      if (args.json) {
+        console.log(
+          JSON.stringify({ block, positions: positions.map(formatPosition) })
+        );
+      } else {
+        console.log(`Block ${block}, ${positions.length} bonds`);
+        console.table(positions.map(formatPosition));
+      }
+      for (const position of positions) {
+        if (position.status !== "liquidatable" || !args.liquidate) {
+          continue;
+        }
+        // NetworkState.liquidate only lets the bond owner call it, Bond.liquidate is open to anyone
+        try {
+          await sendTx(
+            bondContract(position.bond, ctx.signer),
+            "liquidate",
+            [],
+            {},
+            `Liquidate bond ${position.id}`
+          );
+          liquidated.push(position.id);
+        } catch (e: any) {
+          console.log(
+            `Bond ${position.id} not liquidated: ${describeError(e)}`
+          );
+        }
+      }
+      if (args.rounds == 0 || round < args.rounds) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, args.interval * 1000)
+        );
+      }
+    }
+    // positions of the last round and bonds liquidated in any round
+    return { positions, liquidated };
+  });
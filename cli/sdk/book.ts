@@ -0,0 +1,157 @@
+/// Orderbook readers and conversions shared by depth, quote and order tools
+/// bid orders deposit the quote asset and ask orders deposit the base asset,
+/// prices are quote per base with 8 decimals as in Orderbook.convert.
+
+import { BigNumber, constants, Contract } from "ethers";
+import { PairInfo, StandardClient } from "./client";
+
+const PRICE_PRECISION = BigNumber.from(10).pow(8);
+
+const ORDERBOOK_ABI = ["function lmp() view returns (uint256)"];
+
+export interface BookOrder {
+  id: number;
+  owner: string;
+  price: BigNumber;
+  depositAmount: BigNumber;
+}
+
+export interface BookLevel {
+  price: BigNumber;
+  /// sum of deposits at the price, quote asset on bids and base asset on asks
+  depositAmount: BigNumber;
+  orders: BookOrder[];
+}
+
+export interface ReadBookOptions {
+  /// number of price levels to read from the head
+  levels?: number;
+  /// number of orders to read at each price level
+  orders?: number;
+}
+
+/// converts base asset amount into quote asset amount, mirrors Orderbook.convert(price, amount, true)
+export function baseToQuote(
+  pair: PairInfo,
+  price: BigNumber,
+  amount: BigNumber
+): BigNumber {
+  const value = amount.mul(price).div(PRICE_PRECISION);
+  const decDiff = BigNumber.from(10).pow(
+    Math.abs(pair.bDecimal - pair.qDecimal)
+  );
+  return pair.bDecimal > pair.qDecimal
+    ? value.div(decDiff)
+    : value.mul(decDiff);
+}
+
+/// converts quote asset amount into base asset amount, mirrors Orderbook.convert(price, amount, false)
+export function quoteToBase(
+  pair: PairInfo,
+  price: BigNumber,
+  amount: BigNumber
+): BigNumber {
+  const value = amount.mul(PRICE_PRECISION).div(price);
+  const decDiff = BigNumber.from(10).pow(
+    Math.abs(pair.bDecimal - pair.qDecimal)
+  );
+  return pair.bDecimal > pair.qDecimal
+    ? value.mul(decDiff)
+    : value.div(decDiff);
+}
+
+/// resolves base and quote of a pair id through its orderbook, as
+/// OrderbookFactory.getPairsWithIds reads pairs by array index instead of id
+export async function getPairById(
+  client: StandardClient,
+  id: number
+): Promise<PairInfo> {
+  const orderbook = await client.engine.getOrderbookById(id);
+  const { base, quote } = await client.engine.getBaseQuote(orderbook);
+  return client.getPair(base, quote);
+}
+
+/// returns mktPrice of a pair, or undefined when the book has no price yet
+export async function getMktPrice(
+  client: StandardClient,
+  pair: PairInfo
+): Promise<BigNumber | undefined> {
+  if (pair.orderbook === constants.AddressZero) {
+    return undefined;
+  }
+  try {
+    return await client.engine.mktPrice(pair.base, pair.quote);
+  } catch (e) {
+    // NoMatchPrice when both heads and last matched price are empty
+    return undefined;
+  }
+}
+
+/// returns the last matched price of a pair, zero before its first match
+export async function getLmp(
+  client: StandardClient,
+  pair: PairInfo
+): Promise<BigNumber> {
+  if (pair.orderbook === constants.AddressZero) {
+    return BigNumber.from(0);
+  }
+  const orderbook = new Contract(
+    pair.orderbook,
+    ORDERBOOK_ABI,
+    client.engine.provider
+  );
+  return orderbook.lmp();
+}
+
+/// reads price levels from the head of a side with their resting orders.
+/// paginated getters write results at absolute indices, so pages always start from 0.
+export async function readBook(
+  client: StandardClient,
+  pair: PairInfo,
+  isBid: boolean,
+  { levels = 20, orders = 50 }: ReadBookOptions = {}
+): Promise<BookLevel[]> {
+  if (pair.orderbook === constants.AddressZero) {
+    return [];
+  }
+  const { engine } = client;
+  const prices: BigNumber[] = (
+    await engine.getPricesPaginated(pair.base, pair.quote, isBid, 0, levels)
+  ).filter((price: BigNumber) => !price.isZero());
+
+  return Promise.all(
+    prices.map(async (price) => {
+      const [ids, entries] = await Promise.all([
+        engine.getOrderIds(pair.base, pair.quote, isBid, price, orders),
+        engine.getOrdersPaginated(
+          pair.base,
+          pair.quote,
+          isBid,
+          price,
+          0,
+          orders
+        ),
+      ]);
+      const levelOrders: BookOrder[] = [];
+      for (let i = 0; i < entries.length; i++) {
+        if (ids[i] == 0 || entries[i].depositAmount.isZero()) {
+          continue;
+        }
+        levelOrders.push({
+          id: ids[i],
+          owner: entries[i].owner,
+          price,
+          depositAmount: entries[i].depositAmount,
+        });
+      }
+      return {
+        price,
+        depositAmount: levelOrders.reduce(
+          (sum, order) => sum.add(order.depositAmount),
+          BigNumber.from(0)
+        ),
+        orders: levelOrders,
+      };
+    })
+  );
+}
@@ -0,0 +1,455 @@
+/// Typed client for MatchingEngine trading calls
+/// example
+/// const client = await StandardClient.fromAddressBook(hre, trader1);
+/// const { makePrice, placed, id } = await client.limitBuy({
+///   base: token1.address,
+///   quote: token2.address,
+///   price: "1.5",
+///   amount: "100",
+/// });
+/// prices are quote per base in human-readable units, amounts are scaled
+/// with the pair's base decimals on sells and quote decimals on buys.
+
+import {
+  BigNumber,
+  constants,
+  Contract,
+  PayableOverrides,
+  providers,
+  Signer,
+  utils,
+} from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveContract, sendTx, TxOutcome } from "../helper";
+
+/// MatchingEngine prices are represented with 8 decimals
+export const PRICE_DECIMALS = 8;
+/// MatchingEngine reverts with TooManyMatches when n is above this limit
+export const MAX_MATCHES = 20;
+
+const ERC20_ABI = [
+  "function decimals() view returns (uint8)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+export interface PairInfo {
+  orderbook: string;
+  base: string;
+  quote: string;
+  bDecimal: number;
+  qDecimal: number;
+}
+
+export interface OrderOptions {
+  base: string;
+  quote: string;
+  /// quote asset amount on buys, base asset amount on sells
+  amount: string;
+  isMaker?: boolean;
+  n?: number;
+  uid?: number;
+  recipient?: string;
+  overrides?: PayableOverrides;
+}
+
+export interface LimitOrderOptions extends OrderOptions {
+  price: string;
+}
+
+export interface CancelOptions {
+  base: string;
+  quote: string;
+  isBid: boolean;
+  orderId: number;
+  uid?: number;
+  overrides?: PayableOverrides;
+}
+
+export interface RematchOptions {
+  base: string;
+  quote: string;
+  isBid: boolean;
+  orderId: number;
+  /// ignored when isMarket is true
+  price?: string;
+  isMarket?: boolean;
+  isMaker?: boolean;
+  n?: number;
+  uid?: number;
+  overrides?: PayableOverrides;
+}
+
+/// tx and receipt are undefined on dry runs, which only simulate the call
+export interface TxResult {
+  tx?: providers.TransactionResponse;
+  receipt?: providers.TransactionReceipt;
+  events: utils.LogDescription[];
+}
+
+export interface OrderResult extends TxResult {
+  pair: PairInfo;
+  isBid: boolean;
+  makePrice: BigNumber;
+  placed: BigNumber;
+  id: number;
+}
+
+export interface CancelResult extends TxResult {
+  refunded: BigNumber[];
+}
+
+export interface RematchResult extends TxResult {
+  pair: PairInfo;
+  isBid: boolean;
+  makePrice: BigNumber;
+  matched: BigNumber;
+  placed: BigNumber;
+}
+
+export class StandardClient {
+  readonly engine: Contract;
+  private pairs: { [key: string]: PairInfo } = {};
+  private weth?: string;
+
+  constructor(engine: Contract) {
+    this.engine = engine;
+  }
+
+  /// connects to MatchingEngine registered in the address book for the signer's chain
+  static async fromAddressBook(
+    hre: HardhatRuntimeEnvironment,
+    signer: Signer
+  ): Promise<StandardClient> {
+    const chainId = await signer.getChainId();
+    const engine = await hre.ethers.getContractAt(
+      "MatchingEngine",
+      await resolveContract("MatchingEngine", chainId),
+      signer
+    );
+    return new StandardClient(engine);
+  }
+
+  connect(signer: Signer): StandardClient {
+    const client = new StandardClient(this.engine.connect(signer));
+    client.pairs = this.pairs;
+    client.weth = this.weth;
+    return client;
+  }
+
+  async getWETH(): Promise<string> {
+    if (!this.weth) {
+      this.weth = (await this.engine.WETH()) as string;
+    }
+    return this.weth;
+  }
+
+  /// returns orderbook address and token decimals of a pair, orderbook is zero address if the pair is not listed yet
+  async getPair(base: string, quote: string): Promise<PairInfo> {
+    const key = `${base.toLowerCase()}/${quote.toLowerCase()}`;
+    if (this.pairs[key] === undefined) {
+      const provider = this.engine.provider;
+      const [orderbook, bDecimal, qDecimal] = await Promise.all([
+        this.engine.getPair(base, quote),
+        new Contract(base, ERC20_ABI, provider).decimals(),
+        new Contract(quote, ERC20_ABI, provider).decimals(),
+      ]);
+      const pair = { orderbook, base, quote, bDecimal, qDecimal };
+      // unlisted pairs are not cached so a later addPair is picked up
+      if (orderbook === constants.AddressZero) {
+        return pair;
+      }
+      this.pairs[key] = pair;
+    }
+    return this.pairs[key];
+  }
+
+  parsePrice(price: string): BigNumber {
+    return utils.parseUnits(price, PRICE_DECIMALS);
+  }
+
+  formatPrice(price: BigNumber): string {
+    return utils.formatUnits(price, PRICE_DECIMALS);
+  }
+
+  /// bids deposit the quote asset, asks deposit the base asset
+  parseAmount(pair: PairInfo, amount: string, isBid: boolean): BigNumber {
+    return utils.parseUnits(amount, isBid ? pair.qDecimal : pair.bDecimal);
+  }
+
+  formatAmount(pair: PairInfo, amount: BigNumber, isBid: boolean): string {
+    return utils.formatUnits(amount, isBid ? pair.qDecimal : pair.bDecimal);
+  }
+
+  /// approves MatchingEngine to spend the signer's token if the allowance does not cover amount
+  async ensureAllowance(
+    token: string,
+    amount: BigNumber
+  ): Promise<TxOutcome | undefined> {
+    const signer = this.engine.signer;
+    const erc20 = new Contract(token, ERC20_ABI, signer);
+    const allowance: BigNumber = await erc20.allowance(
+      await signer.getAddress(),
+      this.engine.address
+    );
+    if (allowance.gte(amount)) {
+      return undefined;
+    }
+    return sendTx(
+      erc20,
+      "approve",
+      [this.engine.address, amount],
+      {},
+      "Approve Matching Engine to use deposit"
+    );
+  }
+
+  async limitBuy(opts: LimitOrderOptions): Promise<OrderResult> {
+    const pair = await this.getPair(opts.base, opts.quote);
+    return this.order(
+      pair,
+      true,
+      "limitBuy",
+      [
+        opts.base,
+        opts.quote,
+        this.parsePrice(opts.price),
+        this.parseAmount(pair, opts.amount, true),
+        ...(await this.orderArgs(opts)),
+      ],
+      opts.overrides
+    );
+  }
+
+  async limitSell(opts: LimitOrderOptions): Promise<OrderResult> {
+    const pair = await this.getPair(opts.base, opts.quote);
+    return this.order(
+      pair,
+      false,
+      "limitSell",
+      [
+        opts.base,
+        opts.quote,
+        this.parsePrice(opts.price),
+        this.parseAmount(pair, opts.amount, false),
+        ...(await this.orderArgs(opts)),
+      ],
+      opts.overrides
+    );
+  }
+
+  async marketBuy(opts: OrderOptions): Promise<OrderResult> {
+    const pair = await this.getPair(opts.base, opts.quote);
+    return this.order(
+      pair,
+      true,
+      "marketBuy",
+      [
+        opts.base,
+        opts.quote,
+        this.parseAmount(pair, opts.amount, true),
+        ...(await this.orderArgs(opts)),
+      ],
+      opts.overrides
+    );
+  }
+
+  async marketSell(opts: OrderOptions): Promise<OrderResult> {
+    const pair = await this.getPair(opts.base, opts.quote);
+    return this.order(
+      pair,
+      false,
+      "marketSell",
+      [
+        opts.base,
+        opts.quote,
+        this.parseAmount(pair, opts.amount, false),
+        ...(await this.orderArgs(opts)),
+      ],
+      opts.overrides
+    );
+  }
+
+  /// quote asset is native currency, amount is sent as msg.value
+  async limitBuyETH(
+    opts: Omit<LimitOrderOptions, "quote">
+  ): Promise<OrderResult> {
+    const pair = await this.getPair(opts.base, await this.getWETH());
+    return this.order(
+      pair,
+      true,
+      "limitBuyETH",
+      [opts.base, this.parsePrice(opts.price), ...(await this.orderArgs(opts))],
+      { ...opts.overrides, value: this.parseAmount(pair, opts.amount, true) }
+    );
+  }
+
+  /// base asset is native currency, amount is sent as msg.value
+  async limitSellETH(
+    opts: Omit<LimitOrderOptions, "base">
+  ): Promise<OrderResult> {
+    const pair = await this.getPair(await this.getWETH(), opts.quote);
+    return this.order(
+      pair,
+      false,
+      "limitSellETH",
+      [
+        opts.quote,
+        this.parsePrice(opts.price),
+        ...(await this.orderArgs(opts)),
+      ],
+      { ...opts.overrides, value: this.parseAmount(pair, opts.amount, false) }
+    );
+  }
+
+  /// quote asset is native currency, amount is sent as msg.value
+  async marketBuyETH(opts: Omit<OrderOptions, "quote">): Promise<OrderResult> {
+    const pair = await this.getPair(opts.base, await this.getWETH());
+    return this.order(
+      pair,
+      true,
+      "marketBuyETH",
+      [opts.base, ...(await this.orderArgs(opts))],
+      { ...opts.overrides, value: this.parseAmount(pair, opts.amount, true) }
+    );
+  }
+
+  /// base asset is native currency, amount is sent as msg.value
+  async marketSellETH(opts: Omit<OrderOptions, "base">): Promise<OrderResult> {
+    const pair = await this.getPair(await this.getWETH(), opts.quote);
+    return this.order(
+      pair,
+      false,
+      "marketSellETH",
+      [opts.quote, ...(await this.orderArgs(opts))],
+      { ...opts.overrides, value: this.parseAmount(pair, opts.amount, false) }
+    );
+  }
+
+  async cancelOrder(opts: CancelOptions): Promise<CancelResult> {
+    const args = [
+      opts.base,
+      opts.quote,
+      opts.isBid,
+      opts.orderId,
+      opts.uid ?? 0,
+    ];
+    const { result, ...tx } = await this.send(
+      "cancelOrder",
+      args,
+      opts.overrides
+    );
+    return { refunded: [result], ...tx };
+  }
+
+  /// cancels orders across pairs in one transaction
+  async cancelOrders(
+    orders: Omit<CancelOptions, "uid" | "overrides">[],
+    uid = 0,
+    overrides?: PayableOverrides
+  ): Promise<CancelResult> {
+    const args = [
+      orders.map((order) => order.base),
+      orders.map((order) => order.quote),
+      orders.map((order) => order.isBid),
+      orders.map((order) => order.orderId),
+      uid,
+    ];
+    const { result, ...tx } = await this.send("cancelOrders", args, overrides);
+    return { refunded: result, ...tx };
+  }
+
+  async rematchOrder(opts: RematchOptions): Promise<RematchResult> {
+    const pair = await this.getPair(opts.base, opts.quote);
+    const args = [
+      opts.base,
+      opts.quote,
+      opts.isMarket || opts.price === undefined
+        ? 0
+        : this.parsePrice(opts.price),
+      opts.isBid,
+      opts.orderId,
+      opts.isMarket ?? false,
+      opts.isMaker ?? true,
+      opts.n ?? MAX_MATCHES,
+      opts.uid ?? 0,
+    ];
+    const { result, ...tx } = await this.send(
+      "rematchOrder",
+      args,
+      opts.overrides
+    );
+    return {
+      pair,
+      isBid: opts.isBid,
+      makePrice: result.makePrice,
+      matched: result.matched,
+      placed: result.placed,
+      ...tx,
+    };
+  }
+
+  /// decodes MatchingEngine events from a receipt, logs from other contracts are skipped
+  decodeEvents(receipt: providers.TransactionReceipt): utils.LogDescription[] {
+    const events: utils.LogDescription[] = [];
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.engine.address.toLowerCase()) {
+        continue;
+      }
+      try {
+        events.push(this.engine.interface.parseLog(log));
+      } catch (e) {
+        // not an event of MatchingEngine ABI
+      }
+    }
+    return events;
+  }
+
+  private async orderArgs(opts: {
+    isMaker?: boolean;
+    n?: number;
+    uid?: number;
+    recipient?: string;
+  }) {
+    return [
+      opts.isMaker ?? true,
+      opts.n ?? MAX_MATCHES,
+      opts.uid ?? 0,
+      opts.recipient ?? (await this.engine.signer.getAddress()),
+    ];
+  }
+
+  private async order(
+    pair: PairInfo,
+    isBid: boolean,
+    method: string,
+    args: any[],
+    overrides?: PayableOverrides
+  ): Promise<OrderResult> {
+    const { result, ...tx } = await this.send(method, args, overrides);
+    return {
+      pair,
+      isBid,
+      makePrice: result.makePrice,
+      placed: result.placed,
+      id: result.id,
+      ...tx,
+    };
+  }
+
+  /// sends the call through the executor, which simulates it first to read return values
+  private async send(
+    method: string,
+    args: any[],
+    overrides: PayableOverrides = {}
+  ): Promise<TxResult & { result: any }> {
+    const { result, tx, receipt } = await sendTx(
+      this.engine,
+      method,
+      args,
+      overrides
+    );
+    const events = receipt === undefined ? [] : this.decodeEvents(receipt);
+    return { result, tx, receipt, events };
+  }
+}
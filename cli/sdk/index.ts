@@ -0,0 +1,4 @@
+export * from "./client";
+export * from "./book";
+export * from "./pairs";
+export * from "./quote";
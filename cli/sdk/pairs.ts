@@ -0,0 +1,75 @@
+/// Pair registry readers of MatchingEngine and OrderbookFactory
+/// example
+/// const pairs = await listPairs(client);
+/// const { market, limit } = await getSpread(client, pairs[0]);
+
+import { BigNumber, Contract } from "ethers";
+import { PairInfo, StandardClient } from "./client";
+
+const FACTORY_ABI = ["function allPairsLength() view returns (uint256)"];
+
+/// spread limits are in basis points of 1/10000, 200 for 2%
+export interface SpreadLimits {
+  market: number;
+  limit: number;
+}
+
+export interface ListedPair extends PairInfo {
+  id: number;
+  name: string;
+  /// zero when the book has no price yet
+  mktPrice: BigNumber;
+}
+
+export async function pairCount(client: StandardClient): Promise<number> {
+  const factory = new Contract(
+    await client.engine.orderbookFactory(),
+    FACTORY_ABI,
+    client.engine.provider
+  );
+  return (await factory.allPairsLength()).toNumber();
+}
+
+/// lists pairs by id with names and market prices.
+/// range getters of OrderbookFactory write results at absolute indices, so they are read from 0.
+export async function listPairs(
+  client: StandardClient,
+  count?: number
+): Promise<ListedPair[]> {
+  const total = await pairCount(client);
+  const end = Math.min(count ?? total, total);
+  if (end == 0) {
+    return [];
+  }
+  const [pairs, names, mktPrices] = await Promise.all([
+    client.engine.getPairs(0, end),
+    client.engine.getPairNames(0, end),
+    client.engine.getMktPrices(0, end),
+  ]);
+  const listed: ListedPair[] = [];
+  for (let id = 0; id < end; id++) {
+    const pair = await client.getPair(pairs[id].base, pairs[id].quote);
+    listed.push({ ...pair, id, name: names[id], mktPrice: mktPrices[id] });
+  }
+  return listed;
+}
+
+/// base and quote tokens of listed pairs without duplicates
+export async function listTokens(client: StandardClient): Promise<string[]> {
+  const tokens = new Map<string, string>();
+  for (const pair of await listPairs(client)) {
+    tokens.set(pair.base.toLowerCase(), pair.base);
+    tokens.set(pair.quote.toLowerCase(), pair.quote);
+  }
+  return [...tokens.values()];
+}
+
+/// reads spread limits of a pair.
+/// _setSpread fills DefaultSpread(market, limit) positionally, so the getter returns the market spread first.
+export async function getSpread(
+  client: StandardClient,
+  pair: PairInfo
+): Promise<SpreadLimits> {
+  const [market, limit] = await client.engine.spreadLimits(pair.orderbook);
+  return { market, limit };
+}
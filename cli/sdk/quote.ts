@@ -0,0 +1,378 @@
+/// Market order quotes simulated on a snapshot of the book, following MatchingEngine.marketBuy/marketSell
+/// the deposit pays the fee first, the rest matches the other side from its head up to n orders
+/// and within the market spread of mktPrice, and what is left rests as a maker order or is sent back.
+/// once a pair has matched, _limitOrder returns before matching when the limit price is outside
+/// (10000 - spread) / 10000 on buys or (10000 + spread) / 10000 on sells, which rounds to 0 and 1,
+/// so market sells on a traded pair never match and rest at the bid head or the limit price.
+/// example
+/// const pair = await client.getPair(token1.address, token2.address);
+/// const quote = await quoteMarket(client, pair, {
+///   isBid: true,
+///   amount: utils.parseUnits("100", pair.qDecimal),
+/// });
+/// console.log(client.formatPrice(quote.averagePrice!), quote.slippageBps);
+
+import { BigNumber, Contract, providers, Signer } from "ethers";
+import { MAX_MATCHES, PairInfo, StandardClient } from "./client";
+import {
+  baseToQuote,
+  BookLevel,
+  getLmp,
+  getMktPrice,
+  quoteToBase,
+  readBook,
+} from "./book";
+import { getSpread, SpreadLimits } from "./pairs";
+
+const PRICE_PRECISION = BigNumber.from(10).pow(8);
+
+/// MatchingEngine.feeDenom
+export const FEE_DENOM = 1000000;
+/// MatchingEngine charges 1% when the uid is 0 or not reportable for the sender
+export const DEFAULT_FEE_NUM = 10000;
+
+const TREASURY_ABI = [
+  "function isReportable(address account, uint32 uid) view returns (bool)",
+  "function feeOf(uint32 uid, bool isMaker) returns (uint32)",
+];
+
+/// state a market order reads before it matches
+export interface BookSnapshot {
+  pair: PairInfo;
+  mktPrice: BigNumber;
+  /// last matched price, zero before the first match
+  lmp: BigNumber;
+  spread: SpreadLimits;
+  /// levels of the side the order matches, asks for buys and bids for sells, from the head
+  levels: BookLevel[];
+}
+
+export interface SimulateOptions {
+  isBid: boolean;
+  /// deposit before the fee, quote asset on buys and base asset on sells
+  amount: BigNumber;
+  /// maximum number of orders to match
+  n?: number;
+  /// fee numerator over FEE_DENOM
+  feeNum?: number;
+  /// rest the unmatched amount as an order, or send it back
+  isMaker?: boolean;
+}
+
+export interface QuoteOptions extends Omit<SimulateOptions, "feeNum"> {
+  uid?: number;
+  /// sender of the order, its uid decides the fee
+  account?: string;
+  /// Treasury the engine reports to, needed for a uid's fee
+  treasury?: string;
+}
+
+export interface QuoteFill {
+  id: number;
+  owner: string;
+  price: BigNumber;
+  /// deposit asset given to the maker
+  given: BigNumber;
+  /// asset received from the maker's deposit
+  received: BigNumber;
+  /// true when the maker order leaves the book
+  cleared: boolean;
+}
+
+export interface MarketQuote {
+  pair: PairInfo;
+  isBid: boolean;
+  amount: BigNumber;
+  feeNum: number;
+  fee: BigNumber;
+  /// most mktPrice may move by the market spread, the order matches up to it
+  limitPrice: BigNumber;
+  /// the limit price is outside the spread of the last matched price, so nothing matches
+  outOfSpread: boolean;
+  fills: QuoteFill[];
+  /// deposit asset given to makers
+  matched: BigNumber;
+  /// base asset on buys and quote asset on sells
+  received: BigNumber;
+  /// quote per base of the fills, undefined without fills
+  averagePrice?: BigNumber;
+  /// head price of the matched side before the order
+  bestPrice?: BigNumber;
+  /// average price worse than the head price, in basis points with 2 decimals
+  slippageBps?: number;
+  /// deposit left after matching
+  remaining: BigNumber;
+  /// price a maker order rests at
+  makePrice: BigNumber;
+  /// remaining amount resting as a maker order, zero when it is sent back
+  placed: BigNumber;
+  /// remaining amount sent back to the recipient
+  refunded: BigNumber;
+  /// n is above MAX_MATCHES and the order reaches the book, so the transaction reverts
+  tooManyMatches: boolean;
+  /// the deposit is worth no more than one unit at mktPrice, so the transaction reverts with OrderSizeTooSmall
+  tooSmall: boolean;
+}
+
+/// Treasury with the getters MatchingEngine._fee reads
+export function feeTreasury(
+  address: string,
+  signerOrProvider: Signer | providers.Provider
+): Contract {
+  return new Contract(address, TREASURY_ABI, signerOrProvider);
+}
+
+/// fee numerator MatchingEngine charges an account, mirrors MatchingEngine._fee
+export async function feeNumOf(
+  treasury: Contract,
+  account: string,
+  uid: number,
+  isMaker: boolean
+): Promise<number> {
+  if (uid == 0 || !(await treasury.isReportable(account, uid))) {
+    return DEFAULT_FEE_NUM;
+  }
+  // feeOf is not declared view on Treasury
+  return treasury.callStatic.feeOf(uid, isMaker);
+}
+
+/// quote per base with 8 decimals from a base amount and a quote amount
+export function averagePrice(
+  pair: PairInfo,
+  baseAmount: BigNumber,
+  quoteAmount: BigNumber
+): BigNumber | undefined {
+  if (baseAmount.isZero()) {
+    return undefined;
+  }
+  return quoteAmount
+    .mul(PRICE_PRECISION)
+    .mul(BigNumber.from(10).pow(pair.bDecimal))
+    .div(baseAmount.mul(BigNumber.from(10).pow(pair.qDecimal)));
+}
+
+/// converts an amount of the order's deposit asset into the maker's deposit asset at a price
+function toMaker(
+  pair: PairInfo,
+  isBid: boolean,
+  price: BigNumber,
+  amount: BigNumber
+) {
+  return isBid
+    ? quoteToBase(pair, price, amount)
+    : baseToQuote(pair, price, amount);
+}
+
+/// converts a maker's deposit into the order's deposit asset at a price, mirrors Orderbook.fpop
+function toTaker(
+  pair: PairInfo,
+  isBid: boolean,
+  price: BigNumber,
+  amount: BigNumber
+) {
+  return isBid
+    ? baseToQuote(pair, price, amount)
+    : quoteToBase(pair, price, amount);
+}
+
+/// simulates a market order on a snapshot, mirrors _limitOrder, _matchAt and Orderbook.execute
+export function simulateMarket(
+  snapshot: BookSnapshot,
+  {
+    isBid,
+    amount,
+    n = MAX_MATCHES,
+    feeNum = DEFAULT_FEE_NUM,
+    isMaker = true,
+  }: SimulateOptions
+): MarketQuote {
+  const { pair, mktPrice, lmp, spread } = snapshot;
+  // _getSpread returns DefaultSpread.market second, which holds the value getSpread reads as limit
+  const ms = spread.limit;
+  const fee = amount.mul(feeNum).div(FEE_DENOM);
+  const limitPrice = isBid
+    ? mktPrice.mul(10000 + ms).div(10000)
+    : mktPrice.mul(10000 - ms).div(10000);
+  // early returns of _limitOrder, both keep the head of the matched side
+  const outOfSpread =
+    !lmp.isZero() &&
+    (isBid
+      ? limitPrice.lt(Math.floor((10000 - ms) / 10000))
+      : limitPrice.gt(Math.floor((10000 + ms) / 10000)));
+  // _deposit values the whole deposit at mktPrice in the other asset
+  const tooSmall = toMaker(pair, isBid, mktPrice, amount).lte(
+    toMaker(pair, isBid, mktPrice, BigNumber.from(1))
+  );
+  const levels = snapshot.levels
+    .filter((level) => !level.price.isZero())
+    .map((level) => ({ price: level.price, orders: [...level.orders] }));
+  const crosses = (price: BigNumber) =>
+    isBid ? price.lte(limitPrice) : price.gte(limitPrice);
+
+  const fills: QuoteFill[] = [];
+  let remaining = amount.sub(fee);
+  let tooManyMatches = false;
+  // clearEmptyHead moves the head past prices without orders
+  let head = 0;
+  const skipEmpty = () => {
+    while (head < levels.length && levels[head].orders.length == 0) {
+      head++;
+    }
+  };
+  skipEmpty();
+  const bestPrice = head < levels.length ? levels[head].price : undefined;
+  let i = 0;
+  while (
+    !outOfSpread &&
+    remaining.gt(0) &&
+    head < levels.length &&
+    crosses(levels[head].price) &&
+    i < n
+  ) {
+    if (n > MAX_MATCHES) {
+      tooManyMatches = true;
+      break;
+    }
+    const { price, orders } = levels[head];
+    while (remaining.gt(0) && orders.length > 0 && i < n) {
+      const order = orders[0];
+      const required = toTaker(pair, isBid, price, order.depositAmount);
+      if (remaining.lte(required)) {
+        // the last match takes the rest, dust left on the maker order is given away with it
+        const converted = toMaker(pair, isBid, price, remaining);
+        const dust = toMaker(pair, isBid, price, BigNumber.from(1));
+        const left = order.depositAmount.lt(converted)
+          ? BigNumber.from(0)
+          : order.depositAmount.sub(converted);
+        const cleared = remaining.eq(required) || left.lte(dust);
+        fills.push({
+          id: order.id,
+          owner: order.owner,
+          price,
+          given: remaining,
+          received: cleared ? order.depositAmount : converted,
+          cleared,
+        });
+        if (cleared) {
+          orders.shift();
+        } else {
+          orders[0] = { ...order, depositAmount: left };
+        }
+        remaining = BigNumber.from(0);
+        i = n;
+        break;
+      }
+      orders.shift();
+      i++;
+      if (required.isZero()) {
+        continue;
+      }
+      remaining = remaining.sub(required);
+      fills.push({
+        id: order.id,
+        owner: order.owner,
+        price,
+        given: required,
+        received: order.depositAmount,
+        cleared: true,
+      });
+    }
+    skipEmpty();
+  }
+
+  const executed = tooManyMatches ? [] : fills;
+  const left = tooManyMatches ? amount.sub(fee) : remaining;
+  const headPrice =
+    head < levels.length ? levels[head].price : BigNumber.from(0);
+  const makePrice = isBid
+    ? limitPrice.lte(headPrice) || headPrice.isZero()
+      ? limitPrice
+      : headPrice
+    : limitPrice.gte(headPrice)
+    ? limitPrice
+    : headPrice;
+  const matched = executed.reduce(
+    (sum, fill) => sum.add(fill.given),
+    BigNumber.from(0)
+  );
+  const received = executed.reduce(
+    (sum, fill) => sum.add(fill.received),
+    BigNumber.from(0)
+  );
+  const averaged = isBid
+    ? averagePrice(pair, received, matched)
+    : averagePrice(pair, matched, received);
+  const slippage =
+    averaged === undefined || bestPrice === undefined
+      ? undefined
+      : (isBid ? averaged.sub(bestPrice) : bestPrice.sub(averaged))
+          .mul(1000000)
+          .div(bestPrice)
+          .toNumber() / 100;
+
+  return {
+    pair,
+    isBid,
+    amount,
+    feeNum,
+    fee,
+    limitPrice,
+    outOfSpread,
+    fills: executed,
+    matched,
+    received,
+    averagePrice: averaged,
+    bestPrice,
+    slippageBps: slippage,
+    remaining: left,
+    makePrice,
+    placed: isMaker ? left : BigNumber.from(0),
+    refunded: isMaker ? BigNumber.from(0) : left,
+    tooManyMatches,
+    tooSmall,
+  };
+}
+
+/// reads the book, spread limits and fee of a pair and simulates a market order on them
+export async function quoteMarket(
+  client: StandardClient,
+  pair: PairInfo,
+  opts: QuoteOptions
+): Promise<MarketQuote> {
+  const n = opts.n ?? MAX_MATCHES;
+  const uid = opts.uid ?? 0;
+  const isMaker = opts.isMaker ?? true;
+  const mktPrice = await getMktPrice(client, pair);
+  if (mktPrice === undefined) {
+    throw new Error(
+      `Pair ${pair.base}/${pair.quote} has no market price, a market order reverts with NoMatchPrice`
+    );
+  }
+  let feeNum = DEFAULT_FEE_NUM;
+  if (uid != 0) {
+    if (opts.treasury === undefined) {
+      throw new Error(`Treasury is needed to read the fee of uid ${uid}`);
+    }
+    const account = opts.account ?? (await client.engine.signer.getAddress());
+    feeNum = await feeNumOf(
+      feeTreasury(opts.treasury, client.engine.provider),
+      account,
+      uid,
+      isMaker
+    );
+  }
+  // every matched level takes at least one of n matches, one more level gives the head after matching
+  const matches = Math.min(n, MAX_MATCHES);
+  const [lmp, spread, levels] = await Promise.all([
+    getLmp(client, pair),
+    getSpread(client, pair),
+    readBook(client, pair, !opts.isBid, {
+      levels: matches + 1,
+      orders: matches,
+    }),
+  ]);
+  return simulateMarket(
+    { pair, mktPrice, lmp, spread, levels },
+    { isBid: opts.isBid, amount: opts.amount, n, feeNum, isMaker }
+  );
+}
@@ -0,0 +1,288 @@
+/// trading agents of sim:run, each agent acts once per round with its own signer
+/// example
+/// const agents = [
+///   { type: "maker", account: "trader1", levels: 3, step: 0.005, size: 100 },
+///   { type: "taker", account: "trader2", size: 20 },
+/// ];
+/// prices are quote per base and sizes are base amounts, both as floats around the mid price.
+
+import { BigNumber } from "ethers";
+import { CancelResult, OrderResult, PairInfo, StandardClient } from "../sdk";
+
+export type AgentType = "maker" | "taker" | "noise";
+
+export interface AgentSpec {
+  type: AgentType;
+  /// named account of hardhat config, deployer, trader1, trader2 or booker
+  account: string;
+  /// base amount of an order
+  size: number;
+  uid?: number;
+  /// maker: price levels quoted on each side
+  levels?: number;
+  /// maker: distance between levels as a fraction of the mid price
+  step?: number;
+  /// maker: rounds between requotes
+  requote?: number;
+  /// noise: max distance of limit prices from the mid price as a fraction
+  width?: number;
+  /// noise: probability of canceling an open order instead of trading
+  cancelRate?: number;
+}
+
+export const DEFAULT_AGENTS: AgentSpec[] = [
+  {
+    type: "maker",
+    account: "trader1",
+    size: 100,
+    levels: 3,
+    step: 0.005,
+    requote: 3,
+  },
+  { type: "taker", account: "trader2", size: 50 },
+  { type: "noise", account: "booker", size: 20, width: 0.02, cancelRate: 0.2 },
+];
+
+/// deterministic mulberry32 generator so runs with the same seed are comparable
+export class Rng {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  between(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
+
+export interface OpenOrder {
+  isBid: boolean;
+  orderId: number;
+}
+
+/// deposit of an order, used to check the fee MatchingEngine charged
+export interface Deposit {
+  amount: BigNumber;
+  isBid: boolean;
+  isMaker: boolean;
+}
+
+/// what the simulation offers to agents, run records gas, fills and fees of each operation
+export interface SimContext {
+  pair: PairInfo;
+  rng: Rng;
+  round: number;
+  /// current mid price, mktPrice of the pair or the starting price
+  mid: number;
+  run(
+    agent: Agent,
+    op: string,
+    send: () => Promise<OrderResult | CancelResult>,
+    deposit?: Deposit
+  ): Promise<OrderResult | CancelResult | undefined>;
+}
+
+export abstract class Agent {
+  readonly name: string;
+  readonly open: OpenOrder[] = [];
+
+  constructor(
+    readonly spec: AgentSpec,
+    readonly client: StandardClient,
+    readonly address: string
+  ) {
+    this.name = `${spec.type}:${spec.account}`;
+  }
+
+  abstract act(ctx: SimContext): Promise<void>;
+
+  protected price(value: number) {
+    return value.toFixed(8);
+  }
+
+  /// human amount of the deposit, base amount on asks and base * price in quote on bids
+  protected amount(
+    pair: PairInfo,
+    size: number,
+    price: number,
+    isBid: boolean
+  ) {
+    const value = isBid ? size * price : size;
+    return value.toFixed(Math.min(isBid ? pair.qDecimal : pair.bDecimal, 6));
+  }
+
+  protected async limit(
+    ctx: SimContext,
+    isBid: boolean,
+    price: number,
+    size: number,
+    isMaker = true
+  ) {
+    const opts = {
+      base: ctx.pair.base,
+      quote: ctx.pair.quote,
+      price: this.price(price),
+      amount: this.amount(ctx.pair, size, price, isBid),
+      isMaker,
+      uid: this.spec.uid,
+    };
+    const amount = this.client.parseAmount(ctx.pair, opts.amount, isBid);
+    const result = (await ctx.run(
+      this,
+      isBid ? "limitBuy" : "limitSell",
+      () => (isBid ? this.client.limitBuy(opts) : this.client.limitSell(opts)),
+      { amount, isBid, isMaker }
+    )) as OrderResult | undefined;
+    if (result && result.id != 0 && !result.placed.isZero()) {
+      this.open.push({ isBid, orderId: result.id });
+    }
+  }
+
+  protected async market(ctx: SimContext, isBid: boolean, size: number) {
+    const opts = {
+      base: ctx.pair.base,
+      quote: ctx.pair.quote,
+      amount: this.amount(ctx.pair, size, ctx.mid, isBid),
+      // market orders of agents never rest in the book
+      isMaker: false,
+      uid: this.spec.uid,
+    };
+    const amount = this.client.parseAmount(ctx.pair, opts.amount, isBid);
+    await ctx.run(
+      this,
+      isBid ? "marketBuy" : "marketSell",
+      () =>
+        isBid ? this.client.marketBuy(opts) : this.client.marketSell(opts),
+      { amount, isBid, isMaker: false }
+    );
+  }
+
+  /// cancels open orders in one tx, orders filled in the meantime are deleted from the book and only dropped
+  protected async cancel(ctx: SimContext, orders: OpenOrder[]) {
+    const live: OpenOrder[] = [];
+    for (const order of orders) {
+      const { owner, depositAmount } = await this.client.engine.getOrder(
+        ctx.pair.base,
+        ctx.pair.quote,
+        order.isBid,
+        order.orderId
+      );
+      if (owner === this.address && !depositAmount.isZero()) {
+        live.push(order);
+      }
+      this.open.splice(this.open.indexOf(order), 1);
+    }
+    if (live.length === 0) {
+      return;
+    }
+    await ctx.run(this, "cancelOrders", () =>
+      this.client.cancelOrders(
+        live.map((order) => ({
+          base: ctx.pair.base,
+          quote: ctx.pair.quote,
+          ...order,
+        })),
+        this.spec.uid
+      )
+    );
+  }
+}
+
+/// quotes levels on both sides of the mid price and requotes them every few rounds
+export class MarketMaker extends Agent {
+  async act(ctx: SimContext) {
+    const requote = this.spec.requote ?? 3;
+    if (this.open.length > 0 && ctx.round % requote !== 0) {
+      return;
+    }
+    await this.cancel(ctx, [...this.open]);
+    const step = this.spec.step ?? 0.005;
+    for (let level = 1; level <= (this.spec.levels ?? 3); level++) {
+      await this.limit(ctx, true, ctx.mid * (1 - step * level), this.spec.size);
+      await this.limit(
+        ctx,
+        false,
+        ctx.mid * (1 + step * level),
+        this.spec.size
+      );
+    }
+  }
+}
+
+/// takes liquidity with market orders on a random side
+export class Taker extends Agent {
+  async act(ctx: SimContext) {
+    const size = this.spec.size * ctx.rng.between(0.5, 1.5);
+    await this.market(ctx, ctx.rng.chance(0.5), size);
+  }
+}
+
+/// places limit and market orders of random sides and prices and cancels some of them
+export class NoiseTrader extends Agent {
+  async act(ctx: SimContext) {
+    if (this.open.length > 0 && ctx.rng.chance(this.spec.cancelRate ?? 0.2)) {
+      await this.cancel(ctx, [ctx.rng.pick(this.open)]);
+      return;
+    }
+    const isBid = ctx.rng.chance(0.5);
+    const size = this.spec.size * ctx.rng.between(0.5, 1.5);
+    if (ctx.rng.chance(0.5)) {
+      await this.market(ctx, isBid, size);
+      return;
+    }
+    const width = this.spec.width ?? 0.02;
+    await this.limit(
+      ctx,
+      isBid,
+      ctx.mid * (1 + ctx.rng.between(-width, width)),
+      size
+    );
+  }
+}
+
+export function createAgent(
+  spec: AgentSpec,
+  client: StandardClient,
+  address: string
+): Agent {
+  switch (spec.type) {
+    case "maker":
+      return new MarketMaker(spec, client, address);
+    case "taker":
+      return new Taker(spec, client, address);
+    case "noise":
+      return new NoiseTrader(spec, client, address);
+    default:
+      throw new Error(
+        `Unknown agent type ${
+          (spec as any).type
+        }, expected maker, taker or noise`
+      );
+  }
+}
@@ -0,0 +1,4 @@
+import "./tasks";
+
+export * from "./agents";
+export * from "./simulation";
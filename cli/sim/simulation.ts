@@ -0,0 +1,483 @@
+/// runs trading agents against a local MatchingEngine and checks accounting invariants afterwards
+/// example
+/// const report = await runSimulation(hre, {
+///   base: token1, quote: token2, blocks: 50, seed: 1, price: 1, agents: DEFAULT_AGENTS,
+/// });
+/// console.table(report.invariants);
+
+import { BigNumber, constants, Contract, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { sendTx } from "../helper";
+import { NAMED_ACCOUNTS } from "../deploy";
+import {
+  CancelResult,
+  getMktPrice,
+  OrderResult,
+  PairInfo,
+  readBook,
+  StandardClient,
+} from "../sdk";
+import {
+  Agent,
+  AgentSpec,
+  createAgent,
+  Deposit,
+  Rng,
+  SimContext,
+} from "./agents";
+
+const ERC20_ABI = [
+  "function balanceOf(address account) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function mint(address to, uint256 amount)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+];
+
+const TREASURY_ABI = [
+  "function isReportable(address account, uint32 uid) returns (bool)",
+  "function feeOf(uint32 uid, bool isMaker) returns (uint32)",
+];
+
+/// MatchingEngine charges 1% when the uid is 0 or not reportable for the account
+const DEFAULT_FEE_NUM = 10000;
+
+export interface SimConfig {
+  base: string;
+  quote: string;
+  treasury: string;
+  /// blocks to run agents for, every tx mines a block on automining nodes
+  blocks: number;
+  seed: number;
+  /// starting mid price while the pair has no mktPrice
+  price: number;
+  agents: AgentSpec[];
+  /// human amount of base and quote minted to each agent before the run
+  fund?: string;
+}
+
+export interface SimOp {
+  round: number;
+  block?: number;
+  agent: string;
+  op: string;
+  status: "ok" | "reverted";
+  gasUsed?: BigNumber;
+  matches: number;
+  fee?: BigNumber;
+  expectedFee?: BigNumber;
+  reason?: string;
+}
+
+export interface GasStats {
+  op: string;
+  count: number;
+  avg: number;
+  min: number;
+  max: number;
+}
+
+export interface FillStats {
+  agent: string;
+  ops: number;
+  reverted: number;
+  /// matches where the agent took liquidity
+  taken: number;
+  /// matches where a resting order of the agent was filled
+  made: number;
+}
+
+export interface BalanceRow {
+  account: string;
+  base: string;
+  quote: string;
+  baseDelta: string;
+  quoteDelta: string;
+}
+
+export interface Invariant {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+export interface SimReport {
+  pair: PairInfo;
+  fromBlock: number;
+  toBlock: number;
+  rounds: number;
+  ops: SimOp[];
+  gas: GasStats[];
+  fills: FillStats[];
+  balances: BalanceRow[];
+  invariants: Invariant[];
+}
+
+interface Holder {
+  name: string;
+  address: string;
+}
+
+async function balancesOf(tokens: Contract[], holders: Holder[]) {
+  const balances: { [address: string]: BigNumber[] } = {};
+  for (const holder of holders) {
+    balances[holder.address] = await Promise.all(
+      tokens.map((token) => token.balanceOf(holder.address))
+    );
+  }
+  return balances;
+}
+
+/// fee MatchingEngine charges on a deposit, mirrors MatchingEngine._fee
+async function expectedFee(
+  treasury: Contract,
+  account: string,
+  uid: number,
+  deposit: Deposit
+): Promise<BigNumber> {
+  if (uid != 0 && (await treasury.callStatic.isReportable(account, uid))) {
+    const feeNum = await treasury.callStatic.feeOf(uid, deposit.isMaker);
+    return deposit.amount.mul(feeNum).div(1000000);
+  }
+  return deposit.amount.mul(DEFAULT_FEE_NUM).div(1000000);
+}
+
+/// mints pair tokens to agents and approves MatchingEngine to spend them
+async function prepareAgents(
+  engine: string,
+  pair: PairInfo,
+  tokens: Contract[],
+  agents: Agent[],
+  fund?: string
+) {
+  const decimals = [pair.bDecimal, pair.qDecimal];
+  for (const agent of agents) {
+    for (const [i, token] of tokens.entries()) {
+      if (fund !== undefined) {
+        await sendTx(
+          token,
+          "mint",
+          [agent.address, utils.parseUnits(fund, decimals[i])],
+          {},
+          `Mint ${fund} to ${agent.name}`
+        );
+      }
+      const allowance: BigNumber = await token.allowance(agent.address, engine);
+      if (allowance.lt(constants.MaxUint256.div(2))) {
+        await sendTx(
+          token.connect(agent.client.engine.signer),
+          "approve",
+          [engine, constants.MaxUint256],
+          {},
+          `Approve ${agent.name}`
+        );
+      }
+    }
+  }
+}
+
+export async function runSimulation(
+  hre: HardhatRuntimeEnvironment,
+  config: SimConfig
+): Promise<SimReport> {
+  const { ethers } = hre;
+  const signers = await ethers.getSigners();
+  const deployer = signers[0];
+  const client = await StandardClient.fromAddressBook(hre, deployer);
+  const pair = await client.getPair(config.base, config.quote);
+  if (pair.orderbook === constants.AddressZero) {
+    throw new Error(`Pair ${config.base}/${config.quote} is not listed`);
+  }
+  const tokens = [pair.base, pair.quote].map(
+    (token) => new Contract(token, ERC20_ABI, deployer)
+  );
+  const treasuryAddress = utils.getAddress(config.treasury);
+  const treasury = new Contract(treasuryAddress, TREASURY_ABI, deployer);
+
+  const agents = config.agents.map((spec) => {
+    const index = NAMED_ACCOUNTS.indexOf(spec.account);
+    if (index < 0 || signers[index] === undefined) {
+      throw new Error(
+        `Unknown account ${spec.account}, expected one of ${NAMED_ACCOUNTS.join(
+          ", "
+        )}`
+      );
+    }
+    return createAgent(
+      spec,
+      client.connect(signers[index]),
+      signers[index].address
+    );
+  });
+  await prepareAgents(client.engine.address, pair, tokens, agents, config.fund);
+
+  const holders: Holder[] = [
+    ...agents
+      .filter(
+        (agent, i) => agents.findIndex((a) => a.address === agent.address) === i
+      )
+      .map((agent) => ({ name: agent.spec.account, address: agent.address })),
+    { name: "MatchingEngine", address: client.engine.address },
+    { name: "Orderbook", address: pair.orderbook },
+    { name: "Treasury", address: treasuryAddress },
+  ];
+  const before = await balancesOf(tokens, holders);
+
+  const rng = new Rng(config.seed);
+  const ops: SimOp[] = [];
+  const transfer = new utils.Interface(ERC20_ABI);
+  const refunds = [BigNumber.from(0), BigNumber.from(0)];
+
+  const ctx: SimContext = {
+    pair,
+    rng,
+    round: 0,
+    mid: config.price,
+    run: async (agent, op, send, deposit) => {
+      const record: SimOp = {
+        round: ctx.round,
+        agent: agent.name,
+        op,
+        status: "ok",
+        matches: 0,
+      };
+      ops.push(record);
+      try {
+        if (deposit) {
+          record.expectedFee = await expectedFee(
+            treasury,
+            agent.address,
+            agent.spec.uid ?? 0,
+            deposit
+          );
+        }
+        const result: OrderResult | CancelResult = await send();
+        record.block = result.receipt?.blockNumber;
+        record.gasUsed = result.receipt?.gasUsed;
+        for (const event of result.events) {
+          if (event.name === "OrderMatched") {
+            record.matches++;
+          } else if (event.name === "OrderDeposit") {
+            record.fee = event.args.fee;
+          }
+        }
+        // fee refunds of canceled orders are paid by Treasury
+        for (const log of result.receipt?.logs ?? []) {
+          const index = tokens.findIndex(
+            (token) => token.address.toLowerCase() === log.address.toLowerCase()
+          );
+          if (
+            index < 0 ||
+            log.topics[0] !== transfer.getEventTopic("Transfer")
+          ) {
+            continue;
+          }
+          const { from } = transfer.parseLog(log).args;
+          if (from === treasuryAddress) {
+            refunds[index] = refunds[index].add(
+              transfer.parseLog(log).args.value
+            );
+          }
+        }
+        return result;
+      } catch (e: any) {
+        record.status = "reverted";
+        record.reason = e.message;
+        return undefined;
+      }
+    },
+  };
+
+  const fromBlock = await ethers.provider.getBlockNumber();
+  while ((await ethers.provider.getBlockNumber()) - fromBlock < config.blocks) {
+    ctx.round++;
+    const mktPrice = await getMktPrice(client, pair);
+    if (mktPrice !== undefined && !mktPrice.isZero()) {
+      ctx.mid = parseFloat(client.formatPrice(mktPrice));
+    }
+    const opsBefore = ops.length;
+    for (const agent of rng.shuffle(agents)) {
+      await agent.act(ctx);
+    }
+    if (ops.length === opsBefore) {
+      // nobody sent a tx this round, mine a block so the run still ends
+      await ethers.provider.send("evm_mine", []);
+    }
+  }
+  const toBlock = await ethers.provider.getBlockNumber();
+  const after = await balancesOf(tokens, holders);
+
+  return {
+    pair,
+    fromBlock,
+    toBlock,
+    rounds: ctx.round,
+    ops,
+    gas: gasStats(ops),
+    fills: await fillStats(client, agents, ops, fromBlock, toBlock),
+    balances: holders.map((holder) => {
+      const [base, quote] = after[holder.address];
+      const [baseBefore, quoteBefore] = before[holder.address];
+      return {
+        account: holder.name,
+        base: client.formatAmount(pair, base, false),
+        quote: client.formatAmount(pair, quote, true),
+        baseDelta: client.formatAmount(pair, base.sub(baseBefore), false),
+        quoteDelta: client.formatAmount(pair, quote.sub(quoteBefore), true),
+      };
+    }),
+    invariants: await checkInvariants(
+      client,
+      pair,
+      holders,
+      before,
+      after,
+      ops,
+      refunds,
+      treasuryAddress
+    ),
+  };
+}
+
+function gasStats(ops: SimOp[]): GasStats[] {
+  const byOp: { [op: string]: number[] } = {};
+  for (const op of ops) {
+    if (op.gasUsed !== undefined) {
+      (byOp[op.op] ??= []).push(op.gasUsed.toNumber());
+    }
+  }
+  return Object.entries(byOp).map(([op, gas]) => ({
+    op,
+    count: gas.length,
+    avg: Math.round(gas.reduce((sum, g) => sum + g, 0) / gas.length),
+    min: Math.min(...gas),
+    max: Math.max(...gas),
+  }));
+}
+
+/// counts matches by taker and maker from OrderMatched events of the run
+async function fillStats(
+  client: StandardClient,
+  agents: Agent[],
+  ops: SimOp[],
+  fromBlock: number,
+  toBlock: number
+): Promise<FillStats[]> {
+  const matched = await client.engine.queryFilter(
+    client.engine.filters.OrderMatched(),
+    fromBlock + 1,
+    toBlock
+  );
+  return agents.map((agent) => {
+    const own = ops.filter((op) => op.agent === agent.name);
+    return {
+      agent: agent.name,
+      ops: own.length,
+      reverted: own.filter((op) => op.status === "reverted").length,
+      taken: own.reduce((sum, op) => sum + op.matches, 0),
+      made: matched.filter((event) => event.args!.owner === agent.address)
+        .length,
+    };
+  });
+}
+
+async function checkInvariants(
+  client: StandardClient,
+  pair: PairInfo,
+  holders: Holder[],
+  before: { [address: string]: BigNumber[] },
+  after: { [address: string]: BigNumber[] },
+  ops: SimOp[],
+  refunds: BigNumber[],
+  treasury: string
+): Promise<Invariant[]> {
+  const invariants: Invariant[] = [];
+  const sides = [
+    { name: "base", isBid: false },
+    { name: "quote", isBid: true },
+  ];
+  const delta = (address: string, i: number) =>
+    after[address][i].sub(before[address][i]);
+  const format = (amount: BigNumber, i: number) =>
+    client.formatAmount(pair, amount, sides[i].isBid);
+
+  const wrongFees = ops.filter(
+    (op) =>
+      op.fee !== undefined &&
+      op.expectedFee !== undefined &&
+      !op.fee.eq(op.expectedFee)
+  );
+  invariants.push({
+    name: "deposit fees match feeOf",
+    ok: wrongFees.length === 0,
+    detail:
+      wrongFees.length === 0
+        ? `${ops.filter((op) => op.fee !== undefined).length} deposits checked`
+        : wrongFees
+            .map(
+              (op) =>
+                `${op.agent} ${op.op} round ${op.round}: ${op.fee} != ${op.expectedFee}`
+            )
+            .join("; "),
+  });
+
+  sides.forEach((side, i) => {
+    const fees = ops
+      .filter((op) => op.status === "ok" && op.fee !== undefined)
+      .filter((op) => op.op.endsWith("Buy") === side.isBid)
+      .reduce((sum, op) => sum.add(op.fee!), BigNumber.from(0));
+    const received = delta(treasury, i);
+    invariants.push({
+      name: `treasury receives ${side.name} fees`,
+      ok: received.eq(fees.sub(refunds[i])),
+      detail: `fees ${format(fees, i)}, refunds ${format(
+        refunds[i],
+        i
+      )}, treasury delta ${format(received, i)}`,
+    });
+
+    const total = holders.reduce(
+      (sum, holder) => sum.add(delta(holder.address, i)),
+      BigNumber.from(0)
+    );
+    invariants.push({
+      name: `${side.name} is conserved`,
+      ok: total.isZero(),
+      detail: `sum of deltas of agents, engine, orderbook and treasury is ${format(
+        total,
+        i
+      )}`,
+    });
+  });
+
+  const engineDeltas = [0, 1].map((i) => delta(client.engine.address, i));
+  invariants.push({
+    name: "engine holds no deposits",
+    ok: engineDeltas.every((d) => d.isZero()),
+    detail: `base ${format(engineDeltas[0], 0)}, quote ${format(
+      engineDeltas[1],
+      1
+    )}`,
+  });
+
+  for (const [i, side] of sides.entries()) {
+    const levels = await readBook(client, pair, side.isBid, {
+      levels: 100,
+      orders: 100,
+    });
+    const resting = levels.reduce(
+      (sum, level) => sum.add(level.depositAmount),
+      BigNumber.from(0)
+    );
+    const escrow = after[pair.orderbook][i];
+    invariants.push({
+      name: `orderbook ${side.name} covers ${side.isBid ? "bids" : "asks"}`,
+      ok: escrow.gte(resting),
+      detail: `escrow ${format(escrow, i)}, resting ${format(
+        resting,
+        i
+      )}, balance after refunds ${format(escrow.sub(resting), i)}`,
+    });
+  }
+  return invariants;
+}
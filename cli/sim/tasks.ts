@@ -0,0 +1,99 @@
+import fs from "fs/promises";
+import { task, types } from "hardhat/config";
+import {
+  configureExecutor,
+  resolveContract,
+  resolveToken,
+  setupExecutor,
+} from "../helper";
+import { AgentSpec, DEFAULT_AGENTS } from "./agents";
+import { runSimulation, SimReport } from "./simulation";
+
+/// report with BigNumbers as decimal strings
+export function reportToJSON(report: SimReport) {
+  return JSON.stringify(
+    report,
+    (key, value) =>
+      value?.type === "BigNumber" ? BigInt(value.hex).toString() : value,
+    2
+  );
+}
+
+task("sim:run", "Runs market maker, taker and noise agents on a local node")
+  .addOptionalParam("base", "Base token address or address book name", "Token1")
+  .addOptionalParam(
+    "quote",
+    "Quote token address or address book name",
+    "Token2"
+  )
+  .addOptionalParam(
+    "treasury",
+    "Treasury address or address book name",
+    "Treasury"
+  )
+  .addOptionalParam("blocks", "Blocks to run agents for", 50, types.int)
+  .addOptionalParam("seed", "Seed of the random agents", 1, types.int)
+  .addOptionalParam(
+    "price",
+    "Starting mid price when the pair has no mktPrice",
+    1,
+    types.float
+  )
+  .addOptionalParam("agents", "JSON file with agent specs")
+  .addOptionalParam("fund", "Amount of base and quote minted to each agent")
+  .addOptionalParam("out", "Write the JSON report to a file")
+  .addFlag("json", "Print the report as JSON")
+  .setAction(async (args, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    if (chainId !== 31337) {
+      throw new Error(
+        `sim:run sends hundreds of txs and only runs on a local node, chain id is ${chainId}`
+      );
+    }
+    await setupExecutor(hre, {});
+    configureExecutor({ quiet: true });
+    const agents: AgentSpec[] =
+      args.agents === undefined
+        ? DEFAULT_AGENTS
+        : JSON.parse(await fs.readFile(args.agents, { encoding: "utf8" }));
+
+    const report = await runSimulation(hre, {
+      base: await resolveToken(args.base, chainId),
+      quote: await resolveToken(args.quote, chainId),
+      treasury: await resolveContract(args.treasury, chainId),
+      blocks: args.blocks,
+      seed: args.seed,
+      price: args.price,
+      agents,
+      fund: args.fund,
+    });
+
+    if (args.out !== undefined) {
+      await fs.writeFile(args.out, reportToJSON(report), { encoding: "utf8" });
+      console.log(`Written to ${args.out}`);
+    }
+    if (args.json) {
+      console.log(reportToJSON(report));
+    } else {
+      console.log(
+        `${report.rounds} rounds over blocks ${report.fromBlock}-${report.toBlock}, ${report.ops.length} operations`
+      );
+      console.log("Fills");
+      console.table(report.fills);
+      console.log("Gas per operation");
+      console.table(report.gas);
+      console.log("Balances");
+      console.table(report.balances);
+      console.log("Invariants");
+      console.table(report.invariants);
+    }
+    const broken = report.invariants.filter((invariant) => !invariant.ok);
+    if (broken.length > 0) {
+      throw new Error(
+        `Broken invariants: ${broken
+          .map((invariant) => invariant.name)
+          .join(", ")}`
+      );
+    }
+    return report;
+  });
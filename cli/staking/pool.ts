@@ -0,0 +1,304 @@
+/// readers and reward schedules of WETHSTNDLPTokenSharePool staking pools
+/// pools pay rewardRate per second from lastUpdateTime until periodFinish, and notifyRewardAmount starts a
+/// period of DURATION seconds which adds what is left of a running period. Before starttime it replaces the
+/// scheduled period instead. The pool does not pull the reward,
+/// it pays out of its own reward token balance. Reward and staked tokens are the constructor args recorded
+/// in the address book, as the pool has no getters for them.
+/// example
+/// const pool = await connectPool(hre, "StakingPool");
+/// const state = await readPool(pool);
+/// const schedule = planReward(state, utils.parseEther("10000"), now);
+
+import { BigNumber, Contract, Signer, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getDeployment, loadAddressBook } from "../helper";
+
+export const POOL_ARTIFACT = "WETHSTNDLPTokenSharePool";
+
+const YEAR = 365 * 86400;
+
+const POOL_ABI = [
+  "function rewardRate() view returns (uint256)",
+  "function periodFinish() view returns (uint256)",
+  "function lastUpdateTime() view returns (uint256)",
+  "function starttime() view returns (uint256)",
+  "function DURATION() view returns (uint256)",
+  "function totalSupply() view returns (uint256)",
+  "function notifyRewardAmount(uint256 reward)",
+];
+
+const TOKEN_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function totalSupply() view returns (uint256)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+];
+
+const PAIR_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+];
+
+export type PoolStatus = "not started" | "running" | "finished";
+
+export interface PoolRef {
+  name: string;
+  pool: Contract;
+  reward: Contract;
+  input: Contract;
+}
+
+export interface PoolState {
+  name: string;
+  address: string;
+  reward: string;
+  rewardSymbol: string;
+  rewardDecimals: number;
+  input: string;
+  inputSymbol: string;
+  inputDecimals: number;
+  rewardRate: BigNumber;
+  periodFinish: number;
+  lastUpdateTime: number;
+  starttime: number;
+  duration: number;
+  totalStaked: BigNumber;
+  /// reward token balance of the pool
+  rewardBalance: BigNumber;
+  /// block timestamp the state was read at
+  now: number;
+  status: PoolStatus;
+  /// rewards still to be paid in the running period
+  leftover: BigNumber;
+}
+
+export interface RewardSchedule {
+  reward: BigNumber;
+  leftover: BigNumber;
+  rewardRate: BigNumber;
+  start: number;
+  periodFinish: number;
+  /// reward balance the pool needs for the leftover and the new reward
+  required: BigNumber;
+  shortfall: BigNumber;
+}
+
+export function poolContract(address: string, signer: Signer) {
+  return new Contract(address, POOL_ABI, signer);
+}
+
+/// pool recorded in the address book with its reward and input token args
+export async function connectPool(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  signerAddress?: string
+): Promise<PoolRef> {
+  const { ethers } = hre;
+  const signer: Signer =
+    signerAddress === undefined
+      ? (await ethers.getSigners())[0]
+      : await ethers.getSigner(signerAddress);
+  const { chainId } = await ethers.provider.getNetwork();
+  const info = await getDeployment(name, chainId);
+  if (info === undefined) {
+    throw new Error(
+      `Pool ${name} is not in the address book of chain ${chainId}`
+    );
+  }
+  if (info.args === undefined || info.args.length < 2) {
+    throw new Error(
+      `Pool ${name} has no constructor args recorded, deploy it with staking:deploy or add [reward, input, starttime] as its args`
+    );
+  }
+  const [reward, input] = info.args;
+  return {
+    name,
+    pool: poolContract(info.address, signer),
+    reward: new Contract(reward, TOKEN_ABI, signer),
+    input: new Contract(input, TOKEN_ABI, signer),
+  };
+}
+
+/// names of pools in the address book, by the artifact they were deployed with
+export async function recordedPools(chainId: number): Promise<string[]> {
+  const book = await loadAddressBook(chainId);
+  return Object.entries(book.contracts)
+    .filter(([, info]) => info.artifact === POOL_ARTIFACT)
+    .map(([name]) => name);
+}
+
+export function poolStatus(
+  now: number,
+  starttime: number,
+  periodFinish: number
+): PoolStatus {
+  if (now < starttime || periodFinish == 0) {
+    return "not started";
+  }
+  return now < periodFinish ? "running" : "finished";
+}
+
+export async function readPool(ref: PoolRef): Promise<PoolState> {
+  const { pool, reward, input } = ref;
+  const [
+    rewardRate,
+    periodFinish,
+    lastUpdateTime,
+    starttime,
+    duration,
+    totalStaked,
+    rewardBalance,
+    rewardSymbol,
+    rewardDecimals,
+    inputSymbol,
+    inputDecimals,
+    block,
+  ] = await Promise.all([
+    pool.rewardRate(),
+    pool.periodFinish(),
+    pool.lastUpdateTime(),
+    pool.starttime(),
+    pool.DURATION(),
+    pool.totalSupply(),
+    reward.balanceOf(pool.address),
+    reward.symbol(),
+    reward.decimals(),
+    input.symbol(),
+    input.decimals(),
+    pool.provider.getBlock("latest"),
+  ]);
+  const now = block.timestamp;
+  const finish = periodFinish.toNumber();
+  return {
+    name: ref.name,
+    address: pool.address,
+    reward: reward.address,
+    rewardSymbol,
+    rewardDecimals,
+    input: input.address,
+    inputSymbol,
+    inputDecimals,
+    rewardRate,
+    periodFinish: finish,
+    lastUpdateTime: lastUpdateTime.toNumber(),
+    starttime: starttime.toNumber(),
+    duration: duration.toNumber(),
+    totalStaked,
+    rewardBalance,
+    now,
+    status: poolStatus(now, starttime.toNumber(), finish),
+    leftover: now < finish ? rewardRate.mul(finish - now) : BigNumber.from(0),
+  };
+}
+
+/// what notifyRewardAmount sets, a running period rolls its leftover into the new one
+/// rewards earned but not claimed yet are not known to the pool, so the shortfall is a lower bound
+export function planReward(
+  state: PoolState,
+  reward: BigNumber,
+  at = state.now
+): RewardSchedule {
+  const start = Math.max(at, state.starttime);
+  // before starttime the scheduled period is replaced, not extended
+  const leftover =
+    at > state.starttime && at < state.periodFinish
+      ? state.rewardRate.mul(state.periodFinish - at)
+      : BigNumber.from(0);
+  const required = reward.add(leftover);
+  // single staking pools hold the stake in the reward token too
+  const available =
+    state.input.toLowerCase() === state.reward.toLowerCase()
+      ? state.rewardBalance.sub(state.totalStaked)
+      : state.rewardBalance;
+  return {
+    reward,
+    leftover,
+    rewardRate: required.div(state.duration),
+    start,
+    periodFinish: start + state.duration,
+    required,
+    shortfall: required.gt(available)
+      ? required.sub(available)
+      : BigNumber.from(0),
+  };
+}
+
+/// value of one staked token in reward tokens with the reward token decimals
+/// single staking is 1:1, and a uniswap v2 pair holding the reward token is worth twice that reserve
+export async function stakedValueInReward(
+  ref: PoolRef,
+  state: PoolState
+): Promise<BigNumber | undefined> {
+  const unit = BigNumber.from(10).pow(state.inputDecimals);
+  if (state.input.toLowerCase() === state.reward.toLowerCase()) {
+    return unit;
+  }
+  const pair = new Contract(state.input, PAIR_ABI, ref.pool.provider);
+  try {
+    const [token0, token1, reserves, supply] = await Promise.all([
+      pair.token0(),
+      pair.token1(),
+      pair.getReserves(),
+      ref.input.totalSupply(),
+    ]);
+    const reserve =
+      token0.toLowerCase() === state.reward.toLowerCase()
+        ? reserves.reserve0
+        : token1.toLowerCase() === state.reward.toLowerCase()
+        ? reserves.reserve1
+        : undefined;
+    if (reserve === undefined || supply.isZero()) {
+      return undefined;
+    }
+    return reserve.mul(2).mul(unit).div(supply);
+  } catch {
+    return undefined;
+  }
+}
+
+/// yearly rewards over staked value in percent, undefined without stake or a staked value
+export function projectedApr(
+  state: PoolState,
+  stakedValue?: BigNumber
+): number | undefined {
+  if (
+    stakedValue === undefined ||
+    state.totalStaked.isZero() ||
+    state.status === "finished"
+  ) {
+    return undefined;
+  }
+  const tvl = state.totalStaked
+    .mul(stakedValue)
+    .div(BigNumber.from(10).pow(state.inputDecimals));
+  if (tvl.isZero()) {
+    return undefined;
+  }
+  return state.rewardRate.mul(YEAR).mul(10000).div(tvl).toNumber() / 100;
+}
+
+function formatTime(timestamp: number) {
+  return timestamp == 0 ? "" : new Date(timestamp * 1000).toISOString();
+}
+
+export function formatPool(state: PoolState, apr?: number) {
+  return {
+    name: state.name,
+    address: state.address,
+    staked: `${utils.formatUnits(state.totalStaked, state.inputDecimals)} ${
+      state.inputSymbol
+    }`,
+    rewardPerDay: `${utils.formatUnits(
+      state.rewardRate.mul(86400),
+      state.rewardDecimals
+    )} ${state.rewardSymbol}`,
+    status: state.status,
+    lastUpdateTime: formatTime(state.lastUpdateTime),
+    periodFinish: formatTime(state.periodFinish),
+    leftover: utils.formatUnits(state.leftover, state.rewardDecimals),
+    rewardBalance: utils.formatUnits(state.rewardBalance, state.rewardDecimals),
+    apr: apr === undefined ? "" : `${apr}%`,
+  };
+}
@@ -0,0 +1,225 @@
+import { utils } from "ethers";
+import { task } from "hardhat/config";
+import {
+  addExecutorParams,
+  confirm,
+  deployAndRecord,
+  getExecutorConfig,
+  overwriteModeFromFlags,
+  resolveToken,
+  sendTx,
+  setupExecutor,
+} from "../helper";
+import { parseInterval } from "../indexer";
+import {
+  connectPool,
+  formatPool,
+  planReward,
+  POOL_ARTIFACT,
+  projectedApr,
+  readPool,
+  recordedPools,
+  stakedValueInReward,
+} from "./pool";
+
+/// unix seconds or a date like 2024-01-01T00:00:00Z
+function parseTime(time: string): number {
+  if (/^\d+$/.test(time)) {
+    return Number(time);
+  }
+  const parsed = Date.parse(time);
+  if (isNaN(parsed)) {
+    throw new Error(`Invalid time ${time}, expected unix seconds or a date`);
+  }
+  return Math.floor(parsed / 1000);
+}
+
+addExecutorParams(
+  task(
+    "staking:deploy",
+    "Deploys a staking pool and records it in the address book"
+  )
+)
+  .addParam("reward", "Reward token address or address book name")
+  .addParam("input", "Staked token address or address book name")
+  .addParam("start", "Reward start as unix seconds or a date")
+  .addOptionalParam("name", "Address book name of the pool", "StakingPool")
+  .addFlag("yes", "Overwrite address book entries without asking")
+  .addFlag("noOverwrite", "Keep address book entries without asking")
+  .setAction(async (args, hre) => {
+    overwriteModeFromFlags(args.yes, args.noOverwrite);
+    await setupExecutor(hre, args);
+    const { ethers } = hre;
+    const { chainId } = await ethers.provider.getNetwork();
+    const reward = await resolveToken(args.reward, chainId);
+    const input = await resolveToken(args.input, chainId);
+    const { contract } = await deployAndRecord(
+      await ethers.getContractFactory(POOL_ARTIFACT),
+      args.name,
+      [reward, input, parseTime(args.start)],
+      POOL_ARTIFACT
+    );
+    return contract.address;
+  });
+
+addExecutorParams(
+  task(
+    "staking:notify",
+    "Schedules a reward period on a staking pool after checking its reward balance"
+  )
+)
+  .addParam("amount", "Reward amount in reward tokens")
+  .addOptionalParam("pool", "Address book name of the pool", "StakingPool")
+  .addOptionalParam(
+    "duration",
+    "Expected period like 7d, the pool fixes it as DURATION"
+  )
+  .addOptionalParam("signer", "Address of the signer, deployer as default")
+  .addFlag("fund", "Transfer the reward shortfall from the signer to the pool")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async (args, hre) => {
+    await setupExecutor(hre, args);
+    const ref = await connectPool(hre, args.pool, args.signer);
+    const state = await readPool(ref);
+    if (
+      args.duration !== undefined &&
+      parseInterval(args.duration) != state.duration
+    ) {
+      throw new Error(
+        `${args.pool} runs periods of ${state.duration} seconds, not ${args.duration}`
+      );
+    }
+    const schedule = planReward(
+      state,
+      utils.parseUnits(args.amount, state.rewardDecimals)
+    );
+    const format = (amount: typeof schedule.reward) =>
+      `${utils.formatUnits(amount, state.rewardDecimals)} ${
+        state.rewardSymbol
+      }`;
+    console.table({
+      reward: format(schedule.reward),
+      leftover: format(schedule.leftover),
+      rewardPerDay: format(schedule.rewardRate.mul(86400)),
+      start: new Date(schedule.start * 1000).toISOString(),
+      periodFinish: new Date(schedule.periodFinish * 1000).toISOString(),
+      poolBalance: format(state.rewardBalance),
+      shortfall: format(schedule.shortfall),
+    });
+
+    if (!schedule.shortfall.isZero()) {
+      if (!args.fund) {
+        throw new Error(
+          `${args.pool} lacks ${format(
+            schedule.shortfall
+          )} to pay the period, transfer it or pass --fund`
+        );
+      }
+      const owner = await ref.reward.signer.getAddress();
+      const balance = await ref.reward.balanceOf(owner);
+      if (balance.lt(schedule.shortfall)) {
+        throw new Error(
+          `${owner} holds ${format(balance)}, not enough to fund ${format(
+            schedule.shortfall
+          )}`
+        );
+      }
+    }
+    if (
+      !args.yes &&
+      !getExecutorConfig().dryRun &&
+      !(await confirm(`Schedule ${format(schedule.reward)} on ${args.pool}?`))
+    ) {
+      console.log("Cancelled");
+      return;
+    }
+    if (!schedule.shortfall.isZero()) {
+      await sendTx(
+        ref.reward,
+        "transfer",
+        [ref.pool.address, schedule.shortfall],
+        {},
+        `Fund ${args.pool} with ${format(schedule.shortfall)}`
+      );
+    }
+    const { dryRun } = await sendTx(
+      ref.pool,
+      "notifyRewardAmount",
+      [schedule.reward],
+      {},
+      `Notify ${format(schedule.reward)} to ${args.pool}`
+    );
+    if (!dryRun) {
+      console.table([formatPool(await readPool(ref))]);
+    }
+  });
+
+task(
+  "staking:inspect",
+  "Shows reward rate, period and projected APR of a staking pool"
+)
+  .addOptionalParam("pool", "Address book name of the pool", "StakingPool")
+  .addFlag("json", "Print as JSON")
+  .setAction(async (args, hre) => {
+    const ref = await connectPool(hre, args.pool);
+    const state = await readPool(ref);
+    const apr = projectedApr(state, await stakedValueInReward(ref, state));
+    if (args.json) {
+      console.log(
+        JSON.stringify(
+          {
+            ...formatPool(state, apr),
+            rewardRate: state.rewardRate.toString(),
+            starttime: state.starttime,
+            duration: state.duration,
+          },
+          null,
+          2
+        )
+      );
+    } else {
+      console.table(formatPool(state, apr));
+      if (apr === undefined && !state.totalStaked.isZero()) {
+        console.log(
+          `APR needs ${state.inputSymbol} valued in ${state.rewardSymbol}, as the reward token or a uniswap v2 pair with it`
+        );
+      }
+    }
+    return { ...state, apr };
+  });
+
+task("staking:status", "Lists every staking pool with its reward period")
+  .addOptionalParam(
+    "pools",
+    "Comma separated address book names, every recorded pool as default"
+  )
+  .addFlag("json", "Print as JSON")
+  .setAction(async (args, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const names: string[] =
+      args.pools?.split(",").map((name: string) => name.trim()) ??
+      (await recordedPools(chainId));
+    if (names.length == 0) {
+      console.log(
+        `No ${POOL_ARTIFACT} in the address book of chain ${chainId}`
+      );
+      return [];
+    }
+    const rows = [];
+    for (const name of names) {
+      const ref = await connectPool(hre, name);
+      const state = await readPool(ref);
+      rows.push(
+        formatPool(
+          state,
+          projectedApr(state, await stakedValueInReward(ref, state))
+        )
+      );
+    }
+    if (args.json) {
+      console.log(JSON.stringify(rows, null, 2));
+    } else {
+      console.table(rows);
+    }
+    return rows;
+  });
@@ -0,0 +1,292 @@
+/// revenue share statements of Treasury for early adopter and foundation uids
+/// early adopters (meta 9) claim their share of every passed era, the foundation (meta 10) settles the rest.
+/// Treasury does not record paid eras, so claims and settlements are found by replaying token transfers
+/// from Treasury and decoding the calls which sent them.
+/// example
+/// const ctx = await connectTreasury(hre, investor.address);
+/// const rows = await revenueStatement(ctx, 7, [stablecoin.address]);
+/// const pending = rows.filter((row) => row.status === "claimable");
+
+import { BigNumber, Contract, Signer, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  erc20,
+  getDeployment,
+  readAddress,
+  readWord,
+  resolveContract,
+} from "../helper";
+import { tokenLabel } from "../membership";
+
+/// AccessControl._roles takes slot 0, TreasuryLib.Storage starts at slot 1
+const TREASURY_SLOTS = {
+  accountant: 1,
+  sabt: 2,
+  claims: 3,
+  /// totalClaim and settlementId share a slot as uint32s
+  shares: 4,
+};
+
+/// TreasuryLib.DENOM, claims are shares of the total tokens of an era over it
+export const CLAIM_DENOM = 100000;
+/// TreasuryLib caps claims at 600000, the settlement gets what claims leave of it
+export const CLAIM_LIMIT = 600000;
+
+export const EARLY_ADOPTER_META = 9;
+export const FOUNDATION_META = 10;
+
+export type RevenueKind = "claim" | "settle";
+
+export interface TreasuryContext {
+  chainId: number;
+  signer: Signer;
+  holder: string;
+  treasury: Contract;
+  accountant: Contract;
+  sabt: Contract;
+}
+
+export interface TreasuryShares {
+  /// claims[uid] over CLAIM_DENOM
+  claim: number;
+  totalClaim: number;
+  settlementId: number;
+}
+
+export type RevenueStatus = "claimable" | "claimed" | "empty";
+
+export interface EraRevenue {
+  era: number;
+  token: string;
+  symbol: string;
+  decimals: number;
+  totalTokens: BigNumber;
+  totalPoints: BigNumber;
+  /// claim or settlement of the holder for the era
+  amount: BigNumber;
+  status: RevenueStatus;
+  /// tx which already claimed or settled the era
+  tx?: string;
+}
+
+/// connects to Treasury and the accountant and SABT it is set with
+export async function connectTreasury(
+  hre: HardhatRuntimeEnvironment,
+  signerAddress?: string,
+  name = "Treasury"
+): Promise<TreasuryContext> {
+  const { ethers } = hre;
+  const signer: Signer =
+    signerAddress === undefined
+      ? (await ethers.getSigners())[0]
+      : await ethers.getSigner(signerAddress);
+  const { chainId } = await ethers.provider.getNetwork();
+  const treasury = await ethers.getContractAt(
+    "Treasury",
+    await resolveContract(name, chainId),
+    signer
+  );
+  const accountant = await ethers.getContractAt(
+    "BlockAccountant",
+    await readAddress(treasury, TREASURY_SLOTS.accountant),
+    signer
+  );
+  const sabt = await ethers.getContractAt(
+    "SABT",
+    await readAddress(treasury, TREASURY_SLOTS.sabt),
+    signer
+  );
+  return {
+    chainId,
+    signer,
+    holder: await signer.getAddress(),
+    treasury,
+    accountant,
+    sabt,
+  };
+}
+
+export async function readShares(
+  treasury: Contract,
+  uid: number
+): Promise<TreasuryShares> {
+  const claimSlot = utils.keccak256(
+    utils.defaultAbiCoder.encode(
+      ["uint256", "uint256"],
+      [uid, TREASURY_SLOTS.claims]
+    )
+  );
+  const claim = BigNumber.from(await readWord(treasury, claimSlot));
+  const shares = BigNumber.from(
+    await readWord(treasury, TREASURY_SLOTS.shares)
+  );
+  return {
+    claim: claim.toNumber(),
+    totalClaim: shares.and(0xffffffff).toNumber(),
+    settlementId: shares.shr(32).and(0xffffffff).toNumber(),
+  };
+}
+
+/// claim for early adopter uids, settle for foundation uids
+export async function revenueKindOf(
+  sabt: Contract,
+  uid: number
+): Promise<RevenueKind> {
+  const meta = Number(await sabt.metaId(uid));
+  if (meta === EARLY_ADOPTER_META) {
+    return "claim";
+  }
+  if (meta === FOUNDATION_META) {
+    return "settle";
+  }
+  throw new Error(
+    `uid ${uid} has meta ${meta}, claims need meta ${EARLY_ADOPTER_META} and settlements meta ${FOUNDATION_META}`
+  );
+}
+
+/// eras which passed and can be claimed, the current era is still accounting
+export async function passedEras(
+  accountant: Contract,
+  from = 0,
+  to?: number
+): Promise<number[]> {
+  const current: number = await accountant.getCurrentEra();
+  const last = Math.min(to ?? current - 1, current - 1);
+  const eras: number[] = [];
+  for (let era = from; era <= last; era++) {
+    eras.push(era);
+  }
+  return eras;
+}
+
+/// txs which already claimed or settled an era of the uid, keyed by token and era
+export async function findPaid(
+  ctx: TreasuryContext,
+  kind: RevenueKind,
+  uid: number,
+  tokens: string[]
+): Promise<Map<string, string>> {
+  const { treasury, holder } = ctx;
+  const deployment = await getDeployment("Treasury", ctx.chainId);
+  const fromBlock =
+    deployment?.address.toLowerCase() === treasury.address.toLowerCase()
+      ? deployment.block ?? 0
+      : 0;
+  const paid = new Map<string, string>();
+  for (const address of tokens) {
+    const token = erc20(address, treasury.provider);
+    const transfers = await token.queryFilter(
+      token.filters.Transfer(treasury.address, holder),
+      fromBlock
+    );
+    for (const transfer of transfers) {
+      const tx = await transfer.getTransaction();
+      // calls through other contracts can't be decoded from the tx
+      if (tx.to?.toLowerCase() !== treasury.address.toLowerCase()) {
+        continue;
+      }
+      const call = treasury.interface.parseTransaction(tx);
+      // the settlement of an era is the same whichever foundation uid settles it
+      if (
+        call.name === kind &&
+        (kind === "settle" || Number(call.args.uid) === uid) &&
+        call.args.token.toLowerCase() === address.toLowerCase()
+      ) {
+        paid.set(paidKey(address, call.args.nthEra), tx.hash);
+      }
+    }
+  }
+  return paid;
+}
+
+function paidKey(token: string, era: number) {
+  return `${token.toLowerCase()}:${era}`;
+}
+
+/// claim or settlement of the holder for each token and passed era.
+/// views of Treasury check the caller, so they are called from the holder.
+export async function revenueStatement(
+  ctx: TreasuryContext,
+  uid: number,
+  tokens: string[],
+  eras?: number[]
+): Promise<EraRevenue[]> {
+  const { treasury, accountant, sabt, holder } = ctx;
+  const kind = await revenueKindOf(sabt, uid);
+  if ((await sabt.balanceOf(holder, uid)).isZero()) {
+    throw new Error(`${holder} does not hold uid ${uid}`);
+  }
+  // settlements are paid to the holder of the settlement uid set by the admin
+  const { settlementId } = await readShares(treasury, uid);
+  if (
+    kind === "settle" &&
+    (await sabt.balanceOf(holder, settlementId)).isZero()
+  ) {
+    throw new Error(`${holder} does not hold settlement uid ${settlementId}`);
+  }
+  const paid = await findPaid(ctx, kind, uid, tokens);
+  const labels = await Promise.all(
+    tokens.map((address) => tokenLabel(erc20(address, treasury.provider)))
+  );
+  const rows: EraRevenue[] = [];
+  for (const era of eras ?? (await passedEras(accountant))) {
+    const totalPoints: BigNumber = await accountant.getTotalPoints(era);
+    for (const [i, address] of tokens.entries()) {
+      const { symbol, decimals } = labels[i];
+      const totalTokens: BigNumber = await accountant.getTotalTokens(
+        era,
+        address
+      );
+      // Treasury reverts with NoTotalTokens on eras without revenue
+      const amount: BigNumber = totalTokens.isZero()
+        ? BigNumber.from(0)
+        : kind === "claim"
+        ? await treasury.getClaim(address, uid, era)
+        : await treasury.getSettlement(address, era);
+      const tx = paid.get(paidKey(address, era));
+      rows.push({
+        era,
+        token: address,
+        symbol,
+        decimals,
+        totalTokens,
+        totalPoints,
+        amount,
+        status: tx ? "claimed" : amount.isZero() ? "empty" : "claimable",
+        tx,
+      });
+    }
+  }
+  return rows;
+}
+
+/// rows with amounts in token units for tables and CSV
+export function formatRevenue(rows: EraRevenue[]) {
+  return rows.map((row) => ({
+    era: row.era,
+    token: row.token,
+    symbol: row.symbol,
+    totalTokens: utils.formatUnits(row.totalTokens, row.decimals),
+    totalPoints: row.totalPoints.toString(),
+    amount: utils.formatUnits(row.amount, row.decimals),
+    status: row.status,
+    tx: row.tx ?? "",
+  }));
+}
+
+/// total of rows per token symbol
+export function revenueTotals(rows: EraRevenue[]) {
+  const totals: { [symbol: string]: string } = {};
+  const sums = new Map<string, { amount: BigNumber; decimals: number }>();
+  for (const row of rows) {
+    const sum = sums.get(row.symbol) ?? {
+      amount: BigNumber.from(0),
+      decimals: row.decimals,
+    };
+    sums.set(row.symbol, { ...sum, amount: sum.amount.add(row.amount) });
+  }
+  for (const [symbol, { amount, decimals }] of sums) {
+    totals[symbol] = utils.formatUnits(amount, decimals);
+  }
+  return totals;
+}
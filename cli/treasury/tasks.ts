@@ -0,0 +1,199 @@
+import fs from "fs/promises";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  addExecutorParams,
+  confirm,
+  ExecutorTaskArgs,
+  getExecutorConfig,
+  resolveToken,
+  sendTx,
+  setupExecutor,
+} from "../helper";
+import { toCSV } from "../indexer";
+import { listTokens, StandardClient } from "../sdk";
+import {
+  connectTreasury,
+  EraRevenue,
+  formatRevenue,
+  passedEras,
+  revenueKindOf,
+  revenueStatement,
+  revenueTotals,
+  RevenueKind,
+  TreasuryContext,
+} from "./revenue";
+
+/// tokens given as a comma separated list, every token of listed pairs as default
+async function revenueTokens(
+  hre: HardhatRuntimeEnvironment,
+  ctx: TreasuryContext,
+  tokens?: string
+): Promise<string[]> {
+  if (tokens !== undefined) {
+    return Promise.all(
+      tokens.split(",").map((token) => resolveToken(token.trim(), ctx.chainId))
+    );
+  }
+  return listTokens(await StandardClient.fromAddressBook(hre, ctx.signer));
+}
+
+async function revenueEras(
+  ctx: TreasuryContext,
+  args: { eras?: string; fromEra?: number; toEra?: number }
+) {
+  const passed = await passedEras(ctx.accountant, args.fromEra, args.toEra);
+  if (args.eras === undefined) {
+    return passed;
+  }
+  const eras = args.eras.split(",").map(Number);
+  const open = eras.filter((era) => !passed.includes(era));
+  if (open.length > 0) {
+    throw new Error(`Eras ${open.join(", ")} have not passed yet`);
+  }
+  return eras;
+}
+
+interface PayOutArgs extends ExecutorTaskArgs {
+  uid: number;
+  tokens?: string;
+  eras?: string;
+  fromEra: number;
+  toEra?: number;
+  treasury: string;
+  signer?: string;
+  yes: boolean;
+}
+
+/// previews what is claimable for a uid and claims or settles it era by era
+async function payOut(
+  hre: HardhatRuntimeEnvironment,
+  kind: RevenueKind,
+  args: PayOutArgs
+): Promise<EraRevenue[]> {
+  await setupExecutor(hre, args);
+  const ctx = await connectTreasury(hre, args.signer, args.treasury);
+  const actual = await revenueKindOf(ctx.sabt, args.uid);
+  if (actual !== kind) {
+    throw new Error(
+      `uid ${args.uid} can't ${kind}, use treasury:${actual} instead`
+    );
+  }
+  const tokens = await revenueTokens(hre, ctx, args.tokens);
+  const rows = await revenueStatement(
+    ctx,
+    args.uid,
+    tokens,
+    await revenueEras(ctx, args)
+  );
+  // Treasury keeps no record of paid eras and would pay them again
+  const paid = rows.filter((row) => row.status === "claimed");
+  if (args.eras !== undefined && paid.length > 0) {
+    throw new Error(
+      `uid ${args.uid} was already paid for ` +
+        paid
+          .map((row) => `era ${row.era} ${row.symbol} in ${row.tx}`)
+          .join(", ")
+    );
+  }
+  const pending = rows.filter((row) => row.status === "claimable");
+  if (pending.length == 0) {
+    console.log(`Nothing to ${kind} for uid ${args.uid}`);
+    return [];
+  }
+  console.table(formatRevenue(pending));
+  console.log("Total:", revenueTotals(pending));
+  if (
+    !args.yes &&
+    !getExecutorConfig().dryRun &&
+    !(await confirm(`Send ${pending.length} ${kind} txs?`))
+  ) {
+    console.log("Aborted");
+    return [];
+  }
+  for (const row of pending) {
+    await sendTx(
+      ctx.treasury,
+      kind,
+      [row.token, row.era, args.uid],
+      {},
+      `${kind === "claim" ? "Claim" : "Settle"} era ${row.era} ${row.symbol}`
+    );
+  }
+  return pending;
+}
+
+for (const kind of ["claim", "settle"] as const) {
+  addExecutorParams(
+    task(
+      `treasury:${kind}`,
+      kind === "claim"
+        ? "Claims revenue share of passed eras for an early adopter uid"
+        : "Settles revenue of passed eras for a foundation uid"
+    )
+  )
+    .addParam("uid", "Membership uid", undefined, types.int)
+    .addOptionalParam(
+      "tokens",
+      "Comma separated token addresses or address book names, tokens of all pairs as default"
+    )
+    .addOptionalParam(
+      "eras",
+      "Comma separated eras, every passed era as default"
+    )
+    .addOptionalParam("fromEra", "First era", 0, types.int)
+    .addOptionalParam("toEra", "Last era", undefined, types.int)
+    .addOptionalParam(
+      "treasury",
+      "Treasury address or address book name",
+      "Treasury"
+    )
+    .addOptionalParam(
+      "signer",
+      "Address of the uid holder, deployer as default"
+    )
+    .addFlag("yes", "Send without confirming the preview")
+    .setAction(async (args: PayOutArgs, hre) => payOut(hre, kind, args));
+}
+
+task("treasury:statement", "Shows revenue share of a uid per era and token")
+  .addParam("uid", "Membership uid", undefined, types.int)
+  .addOptionalParam(
+    "tokens",
+    "Comma separated token addresses or address book names, tokens of all pairs as default"
+  )
+  .addOptionalParam("eras", "Comma separated eras, every passed era as default")
+  .addOptionalParam("fromEra", "First era", 0, types.int)
+  .addOptionalParam("toEra", "Last era", undefined, types.int)
+  .addOptionalParam(
+    "treasury",
+    "Treasury address or address book name",
+    "Treasury"
+  )
+  .addOptionalParam("signer", "Address of the uid holder, deployer as default")
+  .addOptionalParam("out", "Write the statement as CSV")
+  .addFlag("json", "Print as JSON")
+  .setAction(async (args, hre) => {
+    const ctx = await connectTreasury(hre, args.signer, args.treasury);
+    const tokens = await revenueTokens(hre, ctx, args.tokens);
+    const rows = formatRevenue(
+      await revenueStatement(
+        ctx,
+        args.uid,
+        tokens,
+        await revenueEras(ctx, args)
+      )
+    );
+    if (args.out !== undefined) {
+      await fs.mkdir(path.dirname(args.out), { recursive: true });
+      await fs.writeFile(args.out, toCSV(rows), { encoding: "utf-8" });
+      console.log(`Written to ${args.out}`);
+    }
+    if (args.json) {
+      console.log(JSON.stringify(rows, null, 2));
+    } else {
+      console.table(rows);
+    }
+    return rows;
+  });
@@ -0,0 +1,181 @@
+/// client of the contract API of etherscan compatible explorers
+/// example
+/// const explorer = explorerFromConfig(hre, 84531, { apiUrl: "http://localhost:4000/api" });
+/// await explorer.isVerified(engine.address); // true once the source is published
+import { utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export interface ExplorerConfig {
+  apiUrl: string;
+  apiKey?: string;
+  browserUrl?: string;
+}
+
+interface ExplorerResponse {
+  status: string;
+  message: string;
+  result: any;
+}
+
+export class Explorer {
+  constructor(readonly config: ExplorerConfig) {}
+
+  private async request(
+    params: Record<string, string>,
+    post = false
+  ): Promise<ExplorerResponse> {
+    const query = new URLSearchParams({
+      ...params,
+      ...(this.config.apiKey ? { apikey: this.config.apiKey } : {}),
+    }).toString();
+    if (post) {
+      return utils.fetchJson(
+        {
+          url: this.config.apiUrl,
+          headers: { "content-type": "application/x-www-form-urlencoded" },
+        },
+        query
+      );
+    }
+    return utils.fetchJson(`${this.config.apiUrl}?${query}`);
+  }
+
+  /// true when the explorer has the source of the address, including similar matches of clones
+  async isVerified(address: string) {
+    const response = await this.request({
+      module: "contract",
+      action: "getsourcecode",
+      address,
+    });
+    if (response.status !== "1" || !Array.isArray(response.result)) {
+      return false;
+    }
+    return (response.result[0]?.SourceCode ?? "") !== "";
+  }
+
+  /// asks the explorer to link a proxy to its implementation, returns the guid to check
+  async verifyProxy(address: string, implementation: string) {
+    const response = await this.request(
+      {
+        module: "contract",
+        action: "verifyproxycontract",
+        address,
+        expectedimplementation: implementation,
+      },
+      true
+    );
+    if (response.status !== "1") {
+      throw new Error(`Proxy verification of ${address}: ${response.result}`);
+    }
+    return response.result as string;
+  }
+
+  /// polls the proxy verification until the explorer finishes it
+  async checkProxy(guid: string, attempts = 5, interval = 3000) {
+    for (let i = 0; i < attempts; i++) {
+      const response = await this.request({
+        module: "contract",
+        action: "checkproxyverification",
+        guid,
+      });
+      if (response.status === "1") {
+        return response.result as string;
+      }
+      if (!/pending|in queue/i.test(String(response.result))) {
+        throw new Error(String(response.result));
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+    throw new Error(`Proxy verification ${guid} is still pending`);
+  }
+
+  /// submits a standard JSON input for a contract named source:contract, returns the guid to check
+  async verifyStandardJson(
+    address: string,
+    contract: string,
+    input: any,
+    compilerVersion: string,
+    constructorArgs = ""
+  ) {
+    const response = await this.request(
+      {
+        module: "contract",
+        action: "verifysourcecode",
+        contractaddress: address,
+        sourceCode: JSON.stringify(input),
+        codeformat: "solidity-standard-json-input",
+        contractname: contract,
+        compilerversion: compilerVersion,
+        constructorArguements: constructorArgs.replace(/^0x/, ""),
+      },
+      true
+    );
+    if (response.status !== "1") {
+      throw new Error(`Verification of ${address}: ${response.result}`);
+    }
+    return response.result as string;
+  }
+
+  /// polls a source verification until the explorer finishes it
+  async checkVerification(guid: string, attempts = 10, interval = 5000) {
+    for (let i = 0; i < attempts; i++) {
+      const response = await this.request({
+        module: "contract",
+        action: "checkverifystatus",
+        guid,
+      });
+      if (
+        response.status === "1" ||
+        /already verified/i.test(response.result)
+      ) {
+        return response.result as string;
+      }
+      if (!/pending|in queue/i.test(String(response.result))) {
+        throw new Error(String(response.result));
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+    throw new Error(`Verification ${guid} is still pending`);
+  }
+}
+
+/// explorer of a chain from the params, EXPLORER_API_URL or etherscan.customChains of the hardhat config
+/// an explicit api url is also set in the hardhat config so verify:verify submits sources to the same explorer
+export function explorerFromConfig(
+  hre: HardhatRuntimeEnvironment,
+  chainId: number,
+  options: Partial<ExplorerConfig> = {}
+): Explorer | undefined {
+  const etherscan = (hre.config as any).etherscan ?? {};
+  const customChains: any[] = etherscan.customChains ?? [];
+  const custom = customChains.find((chain) => chain.chainId === chainId);
+  const explicitUrl = options.apiUrl ?? process.env.EXPLORER_API_URL;
+  const apiUrl = explicitUrl ?? custom?.urls.apiURL;
+  if (!apiUrl) {
+    return undefined;
+  }
+  const apiKey =
+    options.apiKey ??
+    process.env.EXPLORER_API_KEY ??
+    (typeof etherscan.apiKey === "string"
+      ? etherscan.apiKey
+      : etherscan.apiKey?.[custom?.network ?? hre.network.name]);
+  const browserUrl = options.browserUrl ?? custom?.urls.browserURL ?? apiUrl;
+
+  if (explicitUrl) {
+    etherscan.customChains = [
+      ...customChains.filter((chain) => chain.chainId !== chainId),
+      {
+        network: hre.network.name,
+        chainId,
+        urls: { apiURL: apiUrl, browserURL: browserUrl },
+      },
+    ];
+    etherscan.apiKey = {
+      ...(typeof etherscan.apiKey === "object" ? etherscan.apiKey : {}),
+      [hre.network.name]: apiKey ?? "",
+    };
+    (hre.config as any).etherscan = etherscan;
+  }
+  return new Explorer({ apiUrl, apiKey, browserUrl });
+}
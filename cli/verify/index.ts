@@ -0,0 +1,4 @@
+import "./tasks";
+
+export * from "./explorer";
+export * from "./pipeline";
@@ -0,0 +1,272 @@
+/// verifies every contract of the address book of a chain
+/// orderbooks cloned by OrderbookFactory.createBook are linked to the Orderbook implementation as proxies
+/// example
+/// const book = await loadAddressBook(84531);
+/// const { targets, results } = await collectTargets(hre, book);
+/// results.push(...(await verifyTargets(hre, 84531, targets, { explorer })));
+import fs from "fs/promises";
+import path from "path";
+import { Contract, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  AddressBook,
+  constructorInputs,
+  fileExists,
+  fullyQualifiedName,
+  Implementation,
+  implementationOf,
+  verify,
+} from "../helper";
+import { Explorer } from "./explorer";
+
+const ORDERBOOK_FACTORY_ABI = [
+  "function impl() view returns (address)",
+  "function allPairsLength() view returns (uint256)",
+  "function getBook(uint256 bookId) view returns (address)",
+];
+
+export interface VerifyTarget {
+  name: string;
+  address: string;
+  /// fully qualified name, undefined for proxies which are linked instead
+  contract?: string;
+  args: any[];
+  proxy?: Implementation;
+}
+
+export type VerifyStatus =
+  | "verified"
+  | "already verified"
+  | "linked"
+  | "cached"
+  | "planned"
+  | "skipped"
+  | "failed";
+
+export interface VerifyResult {
+  name: string;
+  address: string;
+  contract?: string;
+  status: VerifyStatus;
+  reason?: string;
+}
+
+export interface VerifyCacheEntry {
+  name: string;
+  contract?: string;
+  /// keccak256 of the runtime code the entry was verified with
+  codeHash: string;
+  status: VerifyStatus;
+  verifiedAt: string;
+}
+
+export interface VerifyCache {
+  chainId: number;
+  contracts: { [address: string]: VerifyCacheEntry };
+}
+
+export interface VerifyOptions {
+  explorer?: Explorer;
+  /// verify again even when the cache has the address
+  force?: boolean;
+  /// only print the targets
+  dryRun?: boolean;
+}
+
+export function verifyCacheFile(
+  hre: HardhatRuntimeEnvironment,
+  chainId: number
+) {
+  return path.join(hre.config.paths.cache, "verify", `${chainId}.json`);
+}
+
+export async function loadVerifyCache(
+  hre: HardhatRuntimeEnvironment,
+  chainId: number
+): Promise<VerifyCache> {
+  const file = verifyCacheFile(hre, chainId);
+  if (!(await fileExists(file))) {
+    return { chainId, contracts: {} };
+  }
+  return JSON.parse(await fs.readFile(file, { encoding: "utf8" }));
+}
+
+export async function saveVerifyCache(
+  hre: HardhatRuntimeEnvironment,
+  cache: VerifyCache
+) {
+  const file = verifyCacheFile(hre, cache.chainId);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(cache, null, 2), {
+    encoding: "utf8",
+  });
+}
+
+/// orderbook implementation and clones of an OrderbookFactory
+async function orderbookTargets(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  address: string
+): Promise<VerifyTarget[]> {
+  const factory = new Contract(
+    address,
+    ORDERBOOK_FACTORY_ABI,
+    hre.ethers.provider
+  );
+  const impl: string = await factory.impl();
+  if (impl === hre.ethers.constants.AddressZero) {
+    return [];
+  }
+  const targets: VerifyTarget[] = [
+    {
+      name: `${name}.impl`,
+      address: impl,
+      contract: await fullyQualifiedName(hre, "Orderbook"),
+      args: [],
+    },
+  ];
+  const length = (await factory.allPairsLength()).toNumber();
+  for (let i = 0; i < length; i++) {
+    targets.push({
+      name: `${name}.books[${i}]`,
+      address: await factory.getBook(i),
+      args: [],
+      proxy: { kind: "clone", implementation: impl },
+    });
+  }
+  return targets;
+}
+
+/// turns address book entries into verification targets, entries which can't be verified are returned as skipped results
+export async function collectTargets(
+  hre: HardhatRuntimeEnvironment,
+  book: AddressBook,
+  only?: string[]
+) {
+  const targets: VerifyTarget[] = [];
+  const results: VerifyResult[] = [];
+  for (const [name, info] of Object.entries(book.contracts)) {
+    if (only && !only.includes(name)) {
+      continue;
+    }
+    const skip = (reason: string) =>
+      results.push({ name, address: info.address, status: "skipped", reason });
+    if ((await hre.ethers.provider.getCode(info.address)) === "0x") {
+      skip("no code at address");
+      continue;
+    }
+    const proxy = await implementationOf(hre.ethers.provider, info.address);
+    if (proxy) {
+      targets.push({ name, address: info.address, args: [], proxy });
+      continue;
+    }
+    if (!info.artifact) {
+      skip("no artifact recorded, set it with addressbook:set --artifact");
+      continue;
+    }
+    try {
+      const contract = await fullyQualifiedName(hre, info.artifact);
+      const inputs = await constructorInputs(hre, info.artifact);
+      if (!info.args && inputs.length > 0) {
+        skip("no constructor args recorded");
+        continue;
+      }
+      targets.push({
+        name,
+        address: info.address,
+        contract,
+        args: info.args ?? [],
+      });
+      if (contract.endsWith(":OrderbookFactory")) {
+        targets.push(...(await orderbookTargets(hre, name, info.address)));
+      }
+    } catch (e: any) {
+      skip(e.message);
+    }
+  }
+  // implementations go first so proxies are linked to verified sources
+  return {
+    targets: [
+      ...targets.filter((target) => !target.proxy),
+      ...targets.filter((target) => target.proxy),
+    ],
+    results,
+  };
+}
+
+async function verifyTarget(
+  hre: HardhatRuntimeEnvironment,
+  target: VerifyTarget,
+  explorer?: Explorer
+): Promise<VerifyStatus> {
+  if (explorer && (await explorer.isVerified(target.address))) {
+    return "already verified";
+  }
+  if (target.proxy) {
+    if (!explorer) {
+      throw new Error(
+        "Proxies are linked through the explorer API, set --api-url"
+      );
+    }
+    const guid = await explorer.verifyProxy(
+      target.address,
+      target.proxy.implementation
+    );
+    console.log(await explorer.checkProxy(guid));
+    return "linked";
+  }
+  try {
+    await verify(hre, target.contract!, target.address, target.args);
+  } catch (e: any) {
+    if (/already verified/i.test(e.message)) {
+      return "already verified";
+    }
+    throw e;
+  }
+  return "verified";
+}
+
+/// verifies targets in order, the cache is saved after every contract so interrupted runs resume
+export async function verifyTargets(
+  hre: HardhatRuntimeEnvironment,
+  chainId: number,
+  targets: VerifyTarget[],
+  options: VerifyOptions = {}
+): Promise<VerifyResult[]> {
+  const cache = await loadVerifyCache(hre, chainId);
+  const results: VerifyResult[] = [];
+  for (const target of targets) {
+    const key = target.address.toLowerCase();
+    const contract =
+      target.contract ?? `proxy of ${target.proxy!.implementation}`;
+    const result = { name: target.name, address: target.address, contract };
+    const codeHash = utils.keccak256(
+      await hre.ethers.provider.getCode(target.address)
+    );
+    const cached = cache.contracts[key];
+    if (!options.force && cached?.codeHash === codeHash) {
+      results.push({ ...result, status: "cached" });
+      continue;
+    }
+    if (options.dryRun) {
+      results.push({ ...result, status: "planned" });
+      continue;
+    }
+    console.log(`Verifying ${target.name} at ${target.address}`);
+    try {
+      const status = await verifyTarget(hre, target, options.explorer);
+      cache.contracts[key] = {
+        name: target.name,
+        contract: target.contract,
+        codeHash,
+        status,
+        verifiedAt: new Date().toISOString(),
+      };
+      await saveVerifyCache(hre, cache);
+      results.push({ ...result, status });
+    } catch (e: any) {
+      results.push({ ...result, status: "failed", reason: e.message });
+    }
+  }
+  return results;
+}
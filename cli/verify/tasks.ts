@@ -0,0 +1,57 @@
+import { task } from "hardhat/config";
+import { loadAddressBook } from "../helper";
+import { explorerFromConfig } from "./explorer";
+import { collectTargets, verifyCacheFile, verifyTargets } from "./pipeline";
+
+task(
+  "verify:all",
+  "Verifies every contract in the address book with its recorded constructor args"
+)
+  .addOptionalParam("only", "Comma separated address book names to verify")
+  .addOptionalParam(
+    "apiUrl",
+    "Etherscan compatible API url, EXPLORER_API_URL or etherscan.customChains as default"
+  )
+  .addOptionalParam("apiKey", "Explorer API key, EXPLORER_API_KEY as default")
+  .addFlag("force", "Verify contracts again even when they are cached")
+  .addFlag("dryRun", "Only list contracts which would be verified")
+  .addFlag("json", "Print results as JSON")
+  .setAction(async ({ only, apiUrl, apiKey, force, dryRun, json }, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const book = await loadAddressBook(chainId);
+    const explorer = explorerFromConfig(hre, chainId, { apiUrl, apiKey });
+    if (!explorer) {
+      console.log(
+        "No explorer API url for this chain, proxies are skipped and sources are submitted through hardhat-etherscan"
+      );
+    }
+
+    const { targets, results } = await collectTargets(
+      hre,
+      book,
+      only?.split(",").map((name: string) => name.trim())
+    );
+    results.push(
+      ...(await verifyTargets(hre, chainId, targets, {
+        explorer,
+        force,
+        dryRun,
+      }))
+    );
+
+    if (json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      console.table(results);
+    }
+    console.log(`Cache: ${verifyCacheFile(hre, chainId)}`);
+    const failed = results.filter((result) => result.status === "failed");
+    if (failed.length > 0) {
+      throw new Error(
+        `${failed.length} contracts failed verification: ${failed
+          .map((result) => result.name)
+          .join(", ")}`
+      );
+    }
+    return results;
+  });
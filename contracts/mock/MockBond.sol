@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: BUSL-1.1
+
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+interface IMockBondState {
+    function market() external view returns (address);
+
+    function getCDP(
+        address collateral
+    ) external view returns (uint32 mcr, uint32 rfr, uint32 lfr, uint8 decimals);
+}
+
+interface IMockBondEngine {
+    function mktPrice(
+        address base,
+        address quote
+    ) external view returns (uint256);
+}
+
+/**
+ * @title MockBond
+ * @dev Bond implementation for local liquidation tests with the storage layout of Bond.
+ * Bond.liquidate needs getters NetworkState does not have yet, so this one checks the position
+ * at MatchingEngine.mktPrice of the collateral against mcr of NetworkState,
+ * then sends the collateral to the liquidator and self destructs.
+ */
+contract MockBond {
+    using SafeERC20 for IERC20;
+
+    address public state;
+    address public debt;
+    address public coupon;
+    address public collateral;
+    uint128 public id;
+    uint256 public borrow;
+    uint256 public createdAt;
+
+    function liquidate() external {
+        uint256 balance = IERC20(collateral).balanceOf(address(this));
+        (uint32 mcr, , , ) = IMockBondState(state).getCDP(collateral);
+        uint256 price = IMockBondEngine(IMockBondState(state).market())
+            .mktPrice(collateral, debt);
+        // collateral value in debt units, prices have 8 decimals
+        uint256 value = (balance *
+            price *
+            10 ** IERC20Metadata(debt).decimals()) /
+            10 ** (IERC20Metadata(collateral).decimals() + 8);
+        require(value * 100 < borrow * mcr, "Vault: Position is still safe");
+        IERC20(collateral).safeTransfer(msg.sender, balance);
+        selfdestruct(payable(msg.sender));
+    }
+}
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: BUSL-1.1
+
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./MockTokenPool.sol";
+
+/**
+ * @title MockCCIPRouter
+ * @dev Router of a local CCIP simulator with isChainSupported, getFee and ccipSend of IRouterClient.
+ * Messages are delivered in the sending tx: the pool of each token locks or burns on the source lane,
+ * then the remote pool wired for the destination releases or mints to the receiver on the same chain.
+ */
+contract MockCCIPRouter is Ownable {
+    using SafeERC20 for IERC20;
+
+    struct EVMTokenAmount {
+        address token;
+        uint256 amount;
+    }
+
+    struct EVM2AnyMessage {
+        bytes receiver;
+        bytes data;
+        EVMTokenAmount[] tokenAmounts;
+        address feeToken;
+        bytes extraArgs;
+    }
+
+    uint64 public immutable chainSelector;
+    /// fee of a message, in native gas or in the fee token of the message
+    uint256 public fee;
+    /// pool of each token, as TokenAdminRegistry keeps it
+    mapping(address => address) public pools;
+
+    mapping(uint64 => bool) private _supported;
+    uint256 private _sequence;
+
+    event CCIPSendRequested(
+        bytes32 indexed messageId,
+        uint64 indexed destinationChainSelector,
+        address sender,
+        address receiver
+    );
+    event MessageExecuted(bytes32 indexed messageId, uint64 indexed sourceChainSelector);
+
+    error UnsupportedDestinationChain(uint64 destChainSelector);
+    error UnsupportedToken(address token);
+    error InsufficientFeeTokenAmount();
+
+    constructor(uint64 chainSelector_, uint256 fee_) {
+        chainSelector = chainSelector_;
+        fee = fee_;
+    }
+
+    function setFee(uint256 fee_) external onlyOwner {
+        fee = fee_;
+    }
+
+    function setPool(address token, address pool) external onlyOwner {
+        pools[token] = pool;
+    }
+
+    function setChainSupported(uint64 destChainSelector, bool supported) external onlyOwner {
+        _supported[destChainSelector] = supported;
+    }
+
+    function isChainSupported(uint64 destChainSelector) external view returns (bool) {
+        return _supported[destChainSelector];
+    }
+
+    function getFee(uint64 destinationChainSelector, EVM2AnyMessage calldata) public view returns (uint256) {
+        if (!_supported[destinationChainSelector]) revert UnsupportedDestinationChain(destinationChainSelector);
+        return fee;
+    }
+
+    /**
+     * @dev Charges the fee and moves the tokens of a message to its receiver through the pools.
+     * @param destinationChainSelector Selector of the destination chain
+     * @param message Receiver, tokens and fee token of the message
+     * @return messageId Id of the message
+     */
+    function ccipSend(
+        uint64 destinationChainSelector,
+        EVM2AnyMessage calldata message
+    ) external payable returns (bytes32 messageId) {
+        uint256 charged = getFee(destinationChainSelector, message);
+        if (message.feeToken == address(0)) {
+            if (msg.value < charged) revert InsufficientFeeTokenAmount();
+        } else {
+            IERC20(message.feeToken).safeTransferFrom(msg.sender, address(this), charged);
+        }
+        address receiver = abi.decode(message.receiver, (address));
+        messageId = keccak256(
+            abi.encode(chainSelector, destinationChainSelector, ++_sequence, msg.sender, receiver)
+        );
+        emit CCIPSendRequested(messageId, destinationChainSelector, msg.sender, receiver);
+        for (uint256 i = 0; i < message.tokenAmounts.length; ++i) {
+            EVMTokenAmount calldata tokenAmount = message.tokenAmounts[i];
+            address pool = pools[tokenAmount.token];
+            if (pool == address(0)) revert UnsupportedToken(tokenAmount.token);
+            IERC20(tokenAmount.token).safeTransferFrom(msg.sender, pool, tokenAmount.amount);
+            MockTokenPool(pool).lockOrBurn(destinationChainSelector, msg.sender, tokenAmount.amount);
+            // the destination lane is simulated on this chain, so its pool is called right away
+            bytes[] memory remotePools = MockTokenPool(pool).getRemotePools(destinationChainSelector);
+            MockTokenPool(abi.decode(remotePools[0], (address))).releaseOrMint(
+                chainSelector,
+                receiver,
+                tokenAmount.amount
+            );
+        }
+        emit MessageExecuted(messageId, chainSelector);
+    }
+}
@@ -0,0 +1,168 @@
+// SPDX-License-Identifier: BUSL-1.1
+
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+interface IMintableBurnable {
+    function mint(address to, uint256 amount) external;
+
+    function burn(uint256 amount) external;
+}
+
+/**
+ * @title MockTokenPool
+ * @dev Token pool of a local CCIP simulator with the getters and applyChainUpdates of TokenPool v1.5.1.
+ * Burn/mint pools burn what is sent and mint what comes in with MINTER_ROLE of the token,
+ * lock/release pools hold what is sent and release what comes in.
+ * Rate limits are kept as configured and not enforced.
+ */
+contract MockTokenPool is Ownable {
+    using SafeERC20 for IERC20;
+
+    struct RateLimiterConfig {
+        bool isEnabled;
+        uint128 capacity;
+        uint128 rate;
+    }
+
+    struct ChainUpdate {
+        uint64 remoteChainSelector;
+        bytes[] remotePoolAddresses;
+        bytes remoteTokenAddress;
+        RateLimiterConfig outboundRateLimiterConfig;
+        RateLimiterConfig inboundRateLimiterConfig;
+    }
+
+    address public immutable router;
+    bool public immutable burnMint;
+    address private immutable _token;
+
+    uint64[] private _chains;
+    mapping(uint64 => bytes[]) private _remotePools;
+    mapping(uint64 => bytes) private _remoteTokens;
+    mapping(uint64 => RateLimiterConfig) public outboundRateLimiterConfig;
+    mapping(uint64 => RateLimiterConfig) public inboundRateLimiterConfig;
+
+    event Locked(address indexed sender, uint256 amount);
+    event Burned(address indexed sender, uint256 amount);
+    event Released(address indexed sender, address indexed recipient, uint256 amount);
+    event Minted(address indexed sender, address indexed recipient, uint256 amount);
+
+    error CallerIsNotRouter(address caller);
+    error ChainNotAllowed(uint64 remoteChainSelector);
+    error ChainAlreadyExists(uint64 remoteChainSelector);
+
+    modifier onlyRouter() {
+        if (msg.sender != router) revert CallerIsNotRouter(msg.sender);
+        _;
+    }
+
+    constructor(address token_, address router_, bool burnMint_) {
+        _token = token_;
+        router = router_;
+        burnMint = burnMint_;
+    }
+
+    function getToken() external view returns (address) {
+        return _token;
+    }
+
+    function getSupportedChains() external view returns (uint64[] memory) {
+        return _chains;
+    }
+
+    function isSupportedChain(uint64 remoteChainSelector) public view returns (bool) {
+        return _remoteTokens[remoteChainSelector].length != 0;
+    }
+
+    function getRemotePools(uint64 remoteChainSelector) external view returns (bytes[] memory) {
+        return _remotePools[remoteChainSelector];
+    }
+
+    function getRemoteToken(uint64 remoteChainSelector) external view returns (bytes memory) {
+        return _remoteTokens[remoteChainSelector];
+    }
+
+    /**
+     * @dev Removes remote chains and adds remote chains with their pools, token and rate limits.
+     * @param remoteChainSelectorsToRemove Selectors of supported chains to remove
+     * @param chainsToAdd Chains which are not supported yet
+     */
+    function applyChainUpdates(
+        uint64[] calldata remoteChainSelectorsToRemove,
+        ChainUpdate[] calldata chainsToAdd
+    ) external onlyOwner {
+        for (uint256 i = 0; i < remoteChainSelectorsToRemove.length; ++i) {
+            uint64 selector = remoteChainSelectorsToRemove[i];
+            if (!isSupportedChain(selector)) revert ChainNotAllowed(selector);
+            for (uint256 j = 0; j < _chains.length; ++j) {
+                if (_chains[j] == selector) {
+                    _chains[j] = _chains[_chains.length - 1];
+                    _chains.pop();
+                    break;
+                }
+            }
+            delete _remotePools[selector];
+            delete _remoteTokens[selector];
+            delete outboundRateLimiterConfig[selector];
+            delete inboundRateLimiterConfig[selector];
+        }
+        for (uint256 i = 0; i < chainsToAdd.length; ++i) {
+            ChainUpdate calldata update = chainsToAdd[i];
+            uint64 selector = update.remoteChainSelector;
+            if (isSupportedChain(selector)) revert ChainAlreadyExists(selector);
+            _chains.push(selector);
+            for (uint256 j = 0; j < update.remotePoolAddresses.length; ++j) {
+                _remotePools[selector].push(update.remotePoolAddresses[j]);
+            }
+            _remoteTokens[selector] = update.remoteTokenAddress;
+            outboundRateLimiterConfig[selector] = update.outboundRateLimiterConfig;
+            inboundRateLimiterConfig[selector] = update.inboundRateLimiterConfig;
+        }
+    }
+
+    /**
+     * @dev Takes tokens the router moved to the pool out of circulation on the source chain.
+     * @param remoteChainSelector Selector of the destination chain
+     * @param originalSender Sender of the CCIP message
+     * @param amount Amount moved to the pool
+     */
+    function lockOrBurn(
+        uint64 remoteChainSelector,
+        address originalSender,
+        uint256 amount
+    ) external onlyRouter returns (bytes memory destTokenAddress) {
+        if (!isSupportedChain(remoteChainSelector)) revert ChainNotAllowed(remoteChainSelector);
+        if (burnMint) {
+            IMintableBurnable(_token).burn(amount);
+            emit Burned(originalSender, amount);
+        } else {
+            emit Locked(originalSender, amount);
+        }
+        return _remoteTokens[remoteChainSelector];
+    }
+
+    /**
+     * @dev Delivers tokens to the receiver on the destination chain.
+     * @param remoteChainSelector Selector of the source chain
+     * @param receiver Receiver of the CCIP message
+     * @param amount Amount sent from the source chain
+     */
+    function releaseOrMint(
+        uint64 remoteChainSelector,
+        address receiver,
+        uint256 amount
+    ) external onlyRouter {
+        if (!isSupportedChain(remoteChainSelector)) revert ChainNotAllowed(remoteChainSelector);
+        if (burnMint) {
+            IMintableBurnable(_token).mint(receiver, amount);
+            emit Minted(msg.sender, receiver, amount);
+        } else {
+            IERC20(_token).safeTransfer(receiver, amount);
+            emit Released(msg.sender, receiver, amount);
+        }
+    }
+}
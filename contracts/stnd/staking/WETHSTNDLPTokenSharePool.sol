@@ -0,0 +1,147 @@
+// SPDX-License-Identifier: BUSL-1.1
+
+pragma solidity ^0.8.17;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title WETHSTNDLPTokenSharePool
+ * @dev Staking pool paying a reward token for a staked token, usually the WETH/STND uniswap v2 pair.
+ * Rewards accrue at rewardRate per second from lastUpdateTime until periodFinish.
+ * notifyRewardAmount starts a period of DURATION seconds at starttime, or at once after it,
+ * and a running period adds what is left of it to the new reward.
+ * The pool pays rewards out of its own reward token balance, the owner funds it before notifying.
+ */
+contract WETHSTNDLPTokenSharePool is Ownable {
+    using SafeERC20 for IERC20;
+
+    uint256 public constant DURATION = 30 days;
+
+    IERC20 public immutable share;
+    IERC20 public immutable lpt;
+    uint256 public immutable starttime;
+
+    uint256 public periodFinish;
+    uint256 public rewardRate;
+    uint256 public lastUpdateTime;
+    uint256 public rewardPerTokenStored;
+    mapping(address => uint256) public userRewardPerTokenPaid;
+    mapping(address => uint256) public rewards;
+
+    uint256 private _totalSupply;
+    mapping(address => uint256) private _balances;
+
+    event RewardAdded(uint256 reward);
+    event Staked(address indexed user, uint256 amount);
+    event Withdrawn(address indexed user, uint256 amount);
+    event RewardPaid(address indexed user, uint256 reward);
+
+    constructor(address share_, address lpt_, uint256 starttime_) {
+        share = IERC20(share_);
+        lpt = IERC20(lpt_);
+        starttime = starttime_;
+    }
+
+    modifier checkStart() {
+        require(block.timestamp >= starttime, "Pool: not start");
+        _;
+    }
+
+    modifier updateReward(address account) {
+        rewardPerTokenStored = rewardPerToken();
+        lastUpdateTime = lastTimeRewardApplicable();
+        if (account != address(0)) {
+            rewards[account] = earned(account);
+            userRewardPerTokenPaid[account] = rewardPerTokenStored;
+        }
+        _;
+    }
+
+    function totalSupply() external view returns (uint256) {
+        return _totalSupply;
+    }
+
+    function balanceOf(address account) external view returns (uint256) {
+        return _balances[account];
+    }
+
+    function lastTimeRewardApplicable() public view returns (uint256) {
+        return block.timestamp < periodFinish ? block.timestamp : periodFinish;
+    }
+
+    function rewardPerToken() public view returns (uint256) {
+        if (_totalSupply == 0) {
+            return rewardPerTokenStored;
+        }
+        return
+            rewardPerTokenStored +
+            ((lastTimeRewardApplicable() - lastUpdateTime) * rewardRate * 1e18) /
+            _totalSupply;
+    }
+
+    function earned(address account) public view returns (uint256) {
+        return
+            (_balances[account] *
+                (rewardPerToken() - userRewardPerTokenPaid[account])) /
+            1e18 +
+            rewards[account];
+    }
+
+    function stake(
+        uint256 amount
+    ) external updateReward(msg.sender) checkStart {
+        require(amount > 0, "Pool: Cannot stake 0");
+        _totalSupply += amount;
+        _balances[msg.sender] += amount;
+        lpt.safeTransferFrom(msg.sender, address(this), amount);
+        emit Staked(msg.sender, amount);
+    }
+
+    function withdraw(
+        uint256 amount
+    ) public updateReward(msg.sender) checkStart {
+        require(amount > 0, "Pool: Cannot withdraw 0");
+        _totalSupply -= amount;
+        _balances[msg.sender] -= amount;
+        lpt.safeTransfer(msg.sender, amount);
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    function exit() external {
+        withdraw(_balances[msg.sender]);
+        getReward();
+    }
+
+    function getReward() public updateReward(msg.sender) checkStart {
+        uint256 reward = earned(msg.sender);
+        if (reward > 0) {
+            rewards[msg.sender] = 0;
+            share.safeTransfer(msg.sender, reward);
+            emit RewardPaid(msg.sender, reward);
+        }
+    }
+
+    /// before starttime a new period replaces the scheduled one, leftover only rolls over once rewards run
+    function notifyRewardAmount(
+        uint256 reward
+    ) external onlyOwner updateReward(address(0)) {
+        if (block.timestamp > starttime) {
+            if (block.timestamp >= periodFinish) {
+                rewardRate = reward / DURATION;
+            } else {
+                uint256 leftover = (periodFinish - block.timestamp) *
+                    rewardRate;
+                rewardRate = (reward + leftover) / DURATION;
+            }
+            lastUpdateTime = block.timestamp;
+            periodFinish = block.timestamp + DURATION;
+        } else {
+            rewardRate = reward / DURATION;
+            lastUpdateTime = starttime;
+            periodFinish = starttime + DURATION;
+        }
+        emit RewardAdded(reward);
+    }
+}
@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Contract, utils } from "ethers";
+import hre, { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import {
+  chainOf,
+  defaultChainsFile,
+  loadChains,
+  poolName,
+  ROUTER,
+  TOKEN_ARTIFACTS,
+} from "../../cli/ccip";
+import { MINTER_ROLE, resolveContract } from "../../cli/helper";
+import { loadFixture } from "./fixtures";
+
+const FEE = utils.parseEther("0.01");
+
+interface CcipFixture {
+  deployer: SignerWithAddress;
+  receiver: SignerWithAddress;
+  selector: string;
+  token: Contract;
+  pool: Contract;
+  router: Contract;
+}
+
+/// STND on the local lane with the simulator of ccip:local, the deployer holds 100 STND
+async function ccipFixture(): Promise<CcipFixture> {
+  const [deployer, receiver] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+  const chain = chainOf(await loadChains(defaultChainsFile(hre)), chainId);
+  await hre.run("ccip:deploy", { yes: true });
+  await hre.run("ccip:local", { yes: true, fee: utils.formatEther(FEE) });
+  const token = await ethers.getContractAt(
+    TOKEN_ARTIFACTS[chain.token],
+    await resolveContract(chain.token, chainId),
+    deployer
+  );
+  await (
+    await new Contract(
+      token.address,
+      ["function mint(address to, uint256 amount)"],
+      deployer
+    ).mint(deployer.address, utils.parseEther("100"))
+  ).wait();
+  return {
+    deployer,
+    receiver,
+    selector: chain.chainSelector,
+    token,
+    pool: await ethers.getContractAt(
+      "MockTokenPool",
+      await resolveContract(poolName(chain.token), chainId)
+    ),
+    router: await ethers.getContractAt(
+      "MockCCIPRouter",
+      await resolveContract(ROUTER, chainId)
+    ),
+  };
+}
+
+describe("ccip local simulator", () => {
+  const previous = process.env.ADDRESS_BOOK;
+  let fx: CcipFixture;
+
+  before(async () => {
+    // tasks record the simulator, so the address book lives in a temporary directory
+    process.env.ADDRESS_BOOK = await fs.mkdtemp(
+      path.join(os.tmpdir(), "ccip-")
+    );
+  });
+
+  after(async () => {
+    await fs.rm(process.env.ADDRESS_BOOK!, { recursive: true, force: true });
+    if (previous === undefined) {
+      delete process.env.ADDRESS_BOOK;
+    } else {
+      process.env.ADDRESS_BOOK = previous;
+    }
+  });
+
+  beforeEach(async () => {
+    fx = await loadFixture(ccipFixture);
+  });
+
+  it("wires the pool to its own chain and lets it mint", async () => {
+    const { pool, router, token, selector } = fx;
+    expect(await router.isChainSupported(selector)).to.equal(true);
+    expect(await router.pools(token.address)).to.equal(pool.address);
+    expect(await pool.getToken()).to.equal(token.address);
+    expect((await pool.getSupportedChains()).map(String)).to.deep.equal([
+      selector,
+    ]);
+    expect(await pool.getRemotePools(selector)).to.deep.equal([
+      utils.defaultAbiCoder.encode(["address"], [pool.address]),
+    ]);
+    expect(await token.hasRole(MINTER_ROLE, pool.address)).to.equal(true);
+  });
+
+  it("burns from the sender and mints to another receiver", async () => {
+    const { deployer, receiver, router, token } = fx;
+    const amount = utils.parseEther("10");
+    const supply = await token.totalSupply();
+    const { messageId, delivered } = await hre.run("ccip:bridge", {
+      to: "local",
+      amount: "10",
+      receiver: receiver.address,
+    });
+    expect(messageId).to.match(/^0x[0-9a-f]{64}$/);
+    expect(delivered).to.equal(amount);
+    expect(await token.balanceOf(deployer.address)).to.equal(
+      utils.parseEther("90")
+    );
+    expect(await token.balanceOf(receiver.address)).to.equal(amount);
+    expect(await token.totalSupply()).to.equal(supply);
+    expect(await ethers.provider.getBalance(router.address)).to.equal(FEE);
+  });
+
+  it("tracks what is minted when the receiver is the sender", async () => {
+    const { deployer, token } = fx;
+    const before = await token.balanceOf(deployer.address);
+    const { delivered } = await hre.run("ccip:bridge", {
+      to: "local",
+      amount: "10",
+    });
+    // the burn and the mint cancel out in the balance, the receipt still shows the mint
+    expect(delivered).to.equal(utils.parseEther("10"));
+    expect(await token.balanceOf(deployer.address)).to.equal(before);
+  });
+});
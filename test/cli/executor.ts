@@ -0,0 +1,189 @@
+import { expect } from "chai";
+import { utils } from "ethers";
+import { ethers, network } from "hardhat";
+import {
+  configureExecutor,
+  decodeRevertData,
+  ExecutorConfig,
+  getExecutorConfig,
+  resetNonce,
+  sendDeploy,
+  sendTx,
+  TxOutcome,
+} from "../../cli/helper";
+import { ExchangeFixture, exchangeFixture, loadFixture } from "./fixtures";
+
+/// polls the pending block until it holds txs matching a condition
+async function pendingTxs(until: (txs: any[]) => boolean) {
+  for (let i = 0; i < 100; i++) {
+    const block = await network.provider.send("eth_getBlockByNumber", [
+      "pending",
+      true,
+    ]);
+    if (until(block.transactions)) {
+      return block.transactions;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error("Pending txs did not show up");
+}
+
+describe("transaction executor", () => {
+  let fx: ExchangeFixture;
+  let saved: ExecutorConfig;
+
+  before(() => {
+    saved = getExecutorConfig();
+  });
+
+  beforeEach(async () => {
+    fx = await loadFixture(exchangeFixture);
+    // fixtures revert the chain, so nonces tracked in other tests are stale
+    await resetNonce(fx.deployer);
+  });
+
+  afterEach(async () => {
+    configureExecutor(saved);
+    await network.provider.send("evm_setAutomine", [true]);
+  });
+
+  it("stops reverting txs in the simulation and decodes them", async () => {
+    const nonce = await fx.deployer.getTransactionCount();
+    await expect(
+      sendTx(
+        fx.base.connect(fx.deployer),
+        "transfer",
+        [fx.trader1.address, 1],
+        {},
+        "Transfer"
+      )
+    ).to.be.revertedWith("Transfer reverts: ");
+    expect(await fx.deployer.getTransactionCount()).to.equal(nonce);
+    expect(
+      decodeRevertData(
+        utils.hexConcat([
+          "0x08c379a0",
+          utils.defaultAbiCoder.encode(["string"], ["Paused"]),
+        ])
+      )
+    ).to.equal("Paused");
+    expect(
+      decodeRevertData(
+        fx.engine.interface.encodeErrorResult("TooManyMatches", [21]),
+        fx.engine.interface
+      )
+    ).to.equal("TooManyMatches(21)");
+  });
+
+  it("only simulates on dry runs and predicts deployments", async () => {
+    configureExecutor({ dryRun: true, quiet: true });
+    const nonce = await fx.deployer.getTransactionCount();
+    const minted = await sendTx(
+      fx.base.connect(fx.deployer),
+      "mint",
+      [fx.deployer.address, 1],
+      {},
+      "Mint"
+    );
+    expect(minted.dryRun).to.equal(true);
+    expect(minted.tx).to.equal(undefined);
+    expect(minted.gasEstimate!.gt(0)).to.equal(true);
+    const factory = await ethers.getContractFactory("MockBase", fx.deployer);
+    const predicted = await sendDeploy(factory, ["Dry", "DRY"]);
+    expect(await fx.deployer.getTransactionCount()).to.equal(nonce);
+    expect(await fx.base.balanceOf(fx.deployer.address)).to.equal(0);
+
+    configureExecutor({ dryRun: false });
+    await resetNonce(fx.deployer);
+    const deployed = await sendDeploy(factory, ["Dry", "DRY"]);
+    expect(deployed.address).to.equal(predicted.address);
+  });
+
+  it("gives txs sent back to back their own nonces", async () => {
+    configureExecutor({ quiet: true });
+    const nonce = await fx.deployer.getTransactionCount();
+    await network.provider.send("evm_setAutomine", [false]);
+    const token = fx.base.connect(fx.deployer);
+    const sends = Promise.all(
+      [1, 2].map((amount) =>
+        sendTx(token, "mint", [fx.deployer.address, amount], {}, "Mint")
+      )
+    );
+    await pendingTxs((txs) => txs.length == 2);
+    await network.provider.send("evm_mine");
+    const outcomes: TxOutcome[] = await sends;
+    expect(outcomes.map((outcome) => outcome.tx!.nonce)).to.deep.equal([
+      nonce,
+      nonce + 1,
+    ]);
+    expect(await fx.base.balanceOf(fx.deployer.address)).to.equal(3);
+  });
+
+  it("reads the nonce again when the chain dropped tracked txs", async () => {
+    configureExecutor({ quiet: true });
+    const token = fx.base.connect(fx.deployer);
+    const snapshot = await network.provider.send("evm_snapshot");
+    const first = await sendTx(token, "mint", [fx.deployer.address, 1]);
+    await network.provider.send("evm_revert", [snapshot]);
+    const again = await sendTx(token, "mint", [fx.deployer.address, 1]);
+    expect(again.tx!.nonce).to.equal(first.tx!.nonce);
+  });
+
+  it("speeds up stuck txs with EIP-1559 fees over a given gasPrice", async () => {
+    configureExecutor({ quiet: true, timeout: 300, pollInterval: 50 });
+    // a base fee far below the given gasPrice keeps the first tx valid
+    await network.provider.send("hardhat_setNextBlockBaseFeePerGas", ["0x1"]);
+    await network.provider.send("evm_mine");
+    await network.provider.send("evm_setAutomine", [false]);
+    const gasPrice = utils.parseUnits("1", "gwei");
+    const sending = sendTx(
+      fx.base.connect(fx.deployer),
+      "mint",
+      [fx.deployer.address, 1],
+      { gasPrice },
+      "Mint"
+    );
+    const [replaced] = await pendingTxs(
+      (txs) => txs.length == 1 && txs[0].maxFeePerGas !== undefined
+    );
+    await network.provider.send("evm_mine");
+    const { tx, receipt } = await sending;
+    expect(tx!.hash).to.equal(replaced.hash);
+    expect(tx!.type).to.equal(2);
+    expect(tx!.maxPriorityFeePerGas!.gte(gasPrice.mul(115).div(100))).to.equal(
+      true
+    );
+    expect(receipt!.status).to.equal(1);
+    expect(await fx.base.balanceOf(fx.deployer.address)).to.equal(1);
+  });
+
+  it("keeps waiting when the tx is mined before its speed-up", async () => {
+    configureExecutor({ quiet: true, timeout: 300, pollInterval: 50 });
+    await network.provider.send("evm_setAutomine", [false]);
+    const signer = fx.deployer;
+    const send = signer.sendTransaction.bind(signer);
+    let replacements = 0;
+    signer.sendTransaction = async (tx) => {
+      if (replacements++ == 0) {
+        return send(tx);
+      }
+      // the first tx is mined while the speed-up is sent
+      await network.provider.send("evm_mine");
+      throw new Error("nonce too low");
+    };
+    try {
+      const { tx, receipt } = await sendTx(
+        fx.base.connect(signer),
+        "mint",
+        [signer.address, 1],
+        {},
+        "Mint"
+      );
+      expect(replacements).to.equal(2);
+      expect(receipt!.transactionHash).to.equal(tx!.hash);
+      expect(await fx.base.balanceOf(signer.address)).to.equal(1);
+    } finally {
+      delete (signer as any).sendTransaction;
+    }
+  });
+});
@@ -0,0 +1,214 @@
+import { expect } from "chai";
+import fs from "fs/promises";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { Contract, utils } from "ethers";
+import { ethers, network } from "hardhat";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import {
+  createFaucetServer,
+  DEFAULT_LIMITS,
+  RateLimiter,
+} from "../../cli/faucet";
+import { exchangeFixture, loadFixture } from "./fixtures";
+
+const AMOUNT = utils.parseEther("1000");
+
+interface FaucetFixture {
+  relayer: SignerWithAddress;
+  user: SignerWithAddress;
+  dispenser: Contract;
+  base: Contract;
+}
+
+/// TokenDispenser giving 1000 BASE per request with enough BASE for ten, relayed by the deployer
+async function faucetFixture(): Promise<FaucetFixture> {
+  const { deployer, trader1, base } = await loadFixture(exchangeFixture);
+  const dispenser = await (
+    await ethers.getContractFactory("TokenDispenser")
+  ).deploy();
+  await dispenser.setTokenAmount(base.address, AMOUNT);
+  await base.mint(dispenser.address, AMOUNT.mul(10));
+  return { relayer: deployer, user: trader1, dispenser, base };
+}
+
+/// POSTs a JSON body to a listening server
+function post(
+  server: http.Server,
+  route: string,
+  body: any
+): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: any }> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { host: "127.0.0.1", port, path: route, method: "POST" },
+      (res) => {
+        let data = "";
+        res.on("data", (chunk) => (data += chunk));
+        res.on("end", () =>
+          resolve({
+            status: res.statusCode!,
+            headers: res.headers,
+            body: JSON.parse(data),
+          })
+        );
+      }
+    );
+    req.on("error", reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+describe("faucet", () => {
+  let fx: FaucetFixture;
+  let ledger: string;
+  let servers: http.Server[];
+
+  beforeEach(async () => {
+    fx = await loadFixture(faucetFixture);
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "faucet-"));
+    ledger = path.join(dir, "ledger.json");
+    servers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(
+      servers.map((server) => new Promise((resolve) => server.close(resolve)))
+    );
+    await fs.rm(path.dirname(ledger), { recursive: true, force: true });
+  });
+
+  /// starts a faucet over the ledger as faucet:serve does, a later call stands for a restart
+  async function serve(): Promise<http.Server> {
+    const limiter = await RateLimiter.open(ledger, DEFAULT_LIMITS);
+    const server = createFaucetServer({
+      dispenser: fx.dispenser,
+      relayer: fx.relayer,
+      tokens: [fx.base.address],
+      limiter,
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    servers.push(server);
+    return server;
+  }
+
+  describe("RateLimiter", () => {
+    const request = (address: string, ip: string) => ({
+      address,
+      ip,
+      tokens: ["BASE"],
+      txs: [],
+    });
+
+    it("refuses an address inside its window, also after reopening the ledger", async () => {
+      const { user } = fx;
+      const limiter = await RateLimiter.open(ledger, DEFAULT_LIMITS);
+      const at = Date.now();
+      expect(limiter.check(user.address, "1.1.1.1", at).ok).to.be.true;
+      await limiter.record(request(user.address, "1.1.1.1"), at);
+
+      const reopened = await RateLimiter.open(ledger, DEFAULT_LIMITS);
+      // addresses are matched case insensitively and whatever the IP
+      const check = reopened.check(
+        user.address.toLowerCase(),
+        "2.2.2.2",
+        at + 1000
+      );
+      expect(check.ok).to.be.false;
+      expect(check.retryAfter).to.equal(DEFAULT_LIMITS.addressWindow - 1);
+      expect(
+        reopened.check(
+          user.address,
+          "2.2.2.2",
+          at + DEFAULT_LIMITS.addressWindow * 1000
+        ).ok
+      ).to.be.true;
+    });
+
+    it("refuses an IP over its limit within its window", async () => {
+      const limiter = await RateLimiter.open(ledger, DEFAULT_LIMITS);
+      const at = Date.now();
+      for (let i = 0; i < DEFAULT_LIMITS.ipLimit; i++) {
+        await limiter.record(
+          request(ethers.Wallet.createRandom().address, "1.1.1.1"),
+          at + i
+        );
+      }
+      const address = ethers.Wallet.createRandom().address;
+      expect(limiter.check(address, "1.1.1.1", at + 1000).ok).to.be.false;
+      expect(limiter.check(address, "2.2.2.2", at + 1000).ok).to.be.true;
+      expect(
+        limiter.check(
+          address,
+          "1.1.1.1",
+          at + DEFAULT_LIMITS.ipWindow * 1000 + 1
+        ).ok
+      ).to.be.true;
+    });
+
+    it("does not count failed requests", async () => {
+      const { user } = fx;
+      const limiter = await RateLimiter.open(ledger, DEFAULT_LIMITS);
+      const served = await limiter.record({
+        ...request(user.address, "1.1.1.1"),
+        pending: true,
+      });
+      served.failed = true;
+      await limiter.save();
+      const reopened = await RateLimiter.open(ledger, DEFAULT_LIMITS);
+      expect(reopened.check(user.address, "1.1.1.1").ok).to.be.true;
+      // failed requests stay pending until faucet:recover finishes them
+      expect(reopened.pending()).to.have.length(1);
+    });
+  });
+
+  describe("server", () => {
+    it("refuses a second request inside the window, also after a restart", async () => {
+      const { user, base } = fx;
+      const first = await post(await serve(), "/request", {
+        address: user.address,
+      });
+      expect(first.status).to.equal(200);
+      expect(first.body.sent).to.deep.equal([
+        { symbol: "BASE", amount: "1000.0" },
+      ]);
+
+      const restarted = await serve();
+      const balance = await base.balanceOf(user.address);
+      const second = await post(restarted, "/request", {
+        address: user.address,
+      });
+      expect(second.status).to.equal(429);
+      expect(second.headers["retry-after"]).to.not.be.undefined;
+      expect(await base.balanceOf(user.address)).to.equal(balance);
+    });
+
+    it("does not use up the allowance when dispensing fails", async () => {
+      const { relayer, user, base } = fx;
+      const server = await serve();
+      const funds = await relayer.getBalance();
+      // the relayer can't fund the claimer
+      await network.provider.send("hardhat_setBalance", [
+        relayer.address,
+        "0x0",
+      ]);
+      const failed = await post(server, "/request", { address: user.address });
+      expect(failed.status).to.equal(500);
+
+      await network.provider.send("hardhat_setBalance", [
+        relayer.address,
+        utils.hexValue(funds),
+      ]);
+      const balance = await base.balanceOf(user.address);
+      const retried = await post(await serve(), "/request", {
+        address: user.address,
+      });
+      expect(retried.status).to.equal(200);
+      expect(await base.balanceOf(user.address)).to.equal(balance.add(AMOUNT));
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import { expect } from "chai";
+import { BigNumber, utils } from "ethers";
+import {
+  DEFAULT_FEE_NUM,
+  FEE_DENOM,
+  feeNumOf,
+  StandardClient,
+} from "../../cli/sdk";
+import { CLAIM_DENOM, CLAIM_LIMIT } from "../../cli/treasury";
+import {
+  EARLY_ADOPTER_CLAIM,
+  FeeTierFixture,
+  feeTierFixture,
+  loadFixture,
+  mineToEra,
+  revShareFixture,
+} from "./fixtures";
+
+interface Trade {
+  /// quote amounts of trader1's buys
+  buys: BigNumber[];
+  /// fee numerators read before each buy
+  feeNums: number[];
+  /// quote amount trader1's canceled bid gave back
+  remaining: BigNumber;
+}
+
+/// FeeTier.t.sol _trade with SDK clients: trader2 sells 10000 FEE at 1000 to set a market price,
+/// trader1 buys into it twice with its uid and cancels the rest of the second buy
+async function trade(fx: FeeTierFixture): Promise<Trade> {
+  const { engine, treasury, feeToken, stablecoin, trader1, trader2, uids } = fx;
+  const seller = new StandardClient(engine.connect(trader2));
+  const buyer = new StandardClient(engine.connect(trader1));
+  const pair = { base: feeToken.address, quote: stablecoin.address };
+  await seller.limitSell({
+    ...pair,
+    price: "1000",
+    amount: "10000",
+    uid: uids.trader2,
+  });
+  const buys: BigNumber[] = [];
+  const feeNums: number[] = [];
+  let placed = 0;
+  for (const amount of ["100000", "10000000"]) {
+    buys.push(utils.parseEther(amount));
+    feeNums.push(await feeNumOf(treasury, trader1.address, uids.trader1, true));
+    const result = await buyer.limitBuy({
+      ...pair,
+      price: "1000",
+      amount,
+      uid: uids.trader1,
+    });
+    placed = result.id;
+  }
+  const { refunded } = await buyer.cancelOrder({
+    ...pair,
+    isBid: true,
+    orderId: placed,
+    uid: uids.trader1,
+  });
+  return { buys, feeNums, remaining: refunded[0] };
+}
+
+describe("fee tiers", () => {
+  let fx: FeeTierFixture;
+
+  beforeEach(async () => {
+    fx = await loadFixture(feeTierFixture);
+  });
+
+  it("rates members by their membership level", async () => {
+    const { accountant, treasury, trader1, trader2, uids } = fx;
+    const expected = [
+      { uid: uids.trader1, level: 1, maker: 9000, taker: 10000 },
+      { uid: uids.trader2, level: 2, maker: 8000, taker: 10000 },
+      // early adopters and the foundation trade at the top level
+      { uid: uids.earlyAdopter, level: 8, maker: 2000, taker: 4000 },
+      { uid: uids.foundation, level: 8, maker: 2000, taker: 4000 },
+    ];
+    for (const { uid, level, maker, taker } of expected) {
+      expect(await accountant.levelOf(uid)).to.equal(level);
+      expect(await accountant.feeOf(uid, true)).to.equal(maker);
+      expect(await accountant.feeOf(uid, false)).to.equal(taker);
+      expect(await treasury.callStatic.feeOf(uid, true)).to.equal(maker);
+    }
+    expect(
+      await feeNumOf(treasury, trader2.address, uids.trader2, true)
+    ).to.equal(8000);
+    // the engine charges 1% to uids the sender does not hold
+    expect(
+      await feeNumOf(treasury, trader1.address, uids.trader2, true)
+    ).to.equal(DEFAULT_FEE_NUM);
+  });
+
+  it("lowers the rates of members subscribed with STND", async () => {
+    const { accountant, membership, feeToken, trader2, uids } = fx;
+    await membership.setSTND(feeToken.address);
+    // 1000 FEE per block for 100 blocks
+    await membership
+      .connect(trader2)
+      .subscribe(uids.trader2, 100, feeToken.address);
+    expect(await membership.getSubSTND(uids.trader2)).to.equal(100000);
+    expect(await accountant.feeOf(uids.trader2, true)).to.equal(6000);
+    expect(await accountant.feeOf(uids.trader2, false)).to.equal(7500);
+  });
+
+  it("charges deposits at the rate of the uid", async () => {
+    const { engine, treasury, feeToken, stablecoin, trader1, trader2, uids } =
+      fx;
+    const seller = new StandardClient(engine.connect(trader2));
+    const buyer = new StandardClient(engine.connect(trader1));
+    const pair = { base: feeToken.address, quote: stablecoin.address };
+    const amount = utils.parseEther("10000");
+    const fee = (feeNum: number) => amount.mul(feeNum).div(FEE_DENOM);
+
+    await expect(() =>
+      seller.limitSell({
+        ...pair,
+        price: "1000",
+        amount: "10000",
+        uid: uids.trader2,
+      })
+    ).to.changeTokenBalance(feeToken, treasury, fee(8000));
+    await expect(() =>
+      buyer.limitBuy({
+        ...pair,
+        price: "1000",
+        amount: "10000",
+        uid: uids.trader1,
+        isMaker: false,
+      })
+    ).to.changeTokenBalance(stablecoin, treasury, fee(10000));
+    await expect(() =>
+      buyer.limitBuy({
+        ...pair,
+        price: "1000",
+        amount: "10000",
+        uid: uids.trader1,
+      })
+    ).to.changeTokenBalance(stablecoin, treasury, fee(9000));
+  });
+
+  it("keeps points with the dev without revenue share", async () => {
+    const { accountant, treasury, stablecoin, deployer, trader1, uids } = fx;
+    await trade(fx);
+    // eras do not advance, era 0 is always passed
+    expect(await accountant.getCurrentEra()).to.equal(1);
+    expect(await accountant.getTotalPoints(0)).to.equal(100);
+    expect(await accountant.pointOf(uids.trader1, 0)).to.equal(100);
+    expect(await accountant.connect(trader1).pointOf(uids.trader1, 0)).to.equal(
+      0
+    );
+
+    // total tokens of an era are a tenth of what Treasury holds
+    const totalTokens = async () =>
+      (await stablecoin.balanceOf(treasury.address)).div(10);
+    const claim = (await totalTokens())
+      .mul(EARLY_ADOPTER_CLAIM)
+      .div(CLAIM_DENOM);
+    await expect(() =>
+      treasury.claim(stablecoin.address, 0, uids.earlyAdopter)
+    ).to.changeTokenBalance(stablecoin, deployer, claim);
+    const settlement = (await totalTokens())
+      .mul(CLAIM_LIMIT - EARLY_ADOPTER_CLAIM)
+      .div(CLAIM_DENOM);
+    await expect(() =>
+      treasury.settle(stablecoin.address, 0, uids.foundation)
+    ).to.changeTokenBalance(stablecoin, deployer, settlement);
+    // Revshare.t.sol exchanges 2500 of the 100 points, which takes what Treasury has left but rounding
+    const reward = BigNumber.from(2500)
+      .mul(await totalTokens())
+      .mul(4)
+      .div(10)
+      .div(100);
+    await expect(() =>
+      treasury.exchange(stablecoin.address, 0, uids.foundation, 2500)
+    ).to.changeTokenBalance(stablecoin, deployer, reward);
+    expect(await stablecoin.balanceOf(treasury.address)).to.be.lt(10);
+  });
+});
+
+describe("revenue share", () => {
+  let fx: FeeTierFixture;
+  let era: number;
+  let stc1: BigNumber;
+  /// BlockAccountantLib._report, points are stablecoin value with 5 decimals
+  const pointOf = (value: BigNumber) => value.mul(100000).div(stc1);
+
+  beforeEach(async () => {
+    fx = await loadFixture(revShareFixture);
+    era = await fx.accountant.getCurrentEra();
+    stc1 = BigNumber.from(10).pow(await fx.stablecoin.decimals());
+  });
+
+  it("accrues points on reported deposits and takes them back on cancels", async () => {
+    const { accountant, treasury, stablecoin, trader1, uids } = fx;
+    const held: BigNumber = await stablecoin.balanceOf(treasury.address);
+    const { buys, feeNums, remaining } = await trade(fx);
+    const collected = (await stablecoin.balanceOf(treasury.address)).sub(held);
+    expect(await accountant.getCurrentEra()).to.equal(era);
+
+    // the first buy ranks trader1 at level 1, it then holds every point of the era
+    expect(feeNums).to.deep.equal([9000, 2000]);
+    const refund = remaining.mul(100).div(FEE_DENOM);
+    expect(collected).to.equal(
+      buys[0]
+        .mul(feeNums[0])
+        .div(FEE_DENOM)
+        .add(buys[1].mul(feeNums[1]).div(FEE_DENOM))
+        .sub(refund)
+    );
+
+    const points = pointOf(buys[0])
+      .add(pointOf(buys[1]))
+      .sub(pointOf(remaining));
+    expect(await accountant.pointOf(uids.trader1, era)).to.equal(points);
+    // the first sell came before the pair had a price, so it was not accounted
+    expect(await accountant.pointOf(uids.trader2, era)).to.equal(0);
+    expect(await accountant.getTotalPoints(era)).to.equal(points);
+    expect(await accountant.getTotalTokens(era, stablecoin.address)).to.equal(
+      buys[0].add(buys[1]).sub(remaining)
+    );
+    expect(await accountant.connect(trader1).getTI(uids.trader1)).to.equal(100);
+    expect(await accountant.levelOf(uids.trader1)).to.equal(8);
+  });
+
+  it("shares the points of an era between traders", async () => {
+    const { engine, accountant, feeToken, stablecoin, trader2, uids } = fx;
+    await trade(fx);
+    const before = await accountant.getTotalPoints(era);
+    const amount = utils.parseEther("10000");
+    // sells are valued in stablecoin at the market price
+    const value = await engine.convert(
+      feeToken.address,
+      stablecoin.address,
+      amount,
+      true
+    );
+    const mktPrice = await engine.mktPrice(
+      feeToken.address,
+      stablecoin.address
+    );
+    expect(value).to.equal(amount.mul(mktPrice).div(1e8));
+    await new StandardClient(engine.connect(trader2)).limitSell({
+      base: feeToken.address,
+      quote: stablecoin.address,
+      price: "1000",
+      amount: "10000",
+      uid: uids.trader2,
+    });
+
+    const total = before.add(pointOf(value));
+    expect(await accountant.pointOf(uids.trader2, era)).to.equal(
+      pointOf(value)
+    );
+    expect(await accountant.getTotalPoints(era)).to.equal(total);
+    expect(await accountant.getTotalTokens(era, feeToken.address)).to.equal(
+      amount
+    );
+    for (const [uid, level] of [
+      [uids.trader1, 1],
+      [uids.trader2, 2],
+    ]) {
+      const ti = (await accountant.pointOf(uid, era)).mul(100).div(total);
+      expect(await accountant.getTI(uid)).to.equal(ti);
+      expect(await accountant.levelOf(uid)).to.equal(
+        ti.gte(8) ? 8 : Math.max(level, ti.toNumber())
+      );
+    }
+  });
+
+  it("pays claims, settlements and point exchanges of a passed era", async () => {
+    const { accountant, treasury, stablecoin, deployer, trader1, uids } = fx;
+    await trade(fx);
+    await expect(
+      treasury.claim(stablecoin.address, era, uids.earlyAdopter)
+    ).to.be.revertedWith("EraNotPassed");
+    await mineToEra(accountant, era + 1);
+
+    const totalTokens: BigNumber = await accountant.getTotalTokens(
+      era,
+      stablecoin.address
+    );
+    const totalPoints: BigNumber = await accountant.getTotalPoints(era);
+    const points: BigNumber = await accountant.pointOf(uids.trader1, era);
+    // reported totals are traded volume, far above the fees Treasury holds
+    await stablecoin.mint(treasury.address, totalTokens.mul(10));
+
+    await expect(() =>
+      treasury.claim(stablecoin.address, era, uids.earlyAdopter)
+    ).to.changeTokenBalance(
+      stablecoin,
+      deployer,
+      totalTokens.mul(EARLY_ADOPTER_CLAIM).div(CLAIM_DENOM)
+    );
+    await expect(() =>
+      treasury.settle(stablecoin.address, era, uids.foundation)
+    ).to.changeTokenBalance(
+      stablecoin,
+      deployer,
+      totalTokens.mul(CLAIM_LIMIT - EARLY_ADOPTER_CLAIM).div(CLAIM_DENOM)
+    );
+
+    const half = points.div(2);
+    const member = treasury.connect(trader1);
+    await expect(() =>
+      member.exchange(stablecoin.address, era, uids.trader1, half)
+    ).to.changeTokenBalance(
+      stablecoin,
+      trader1,
+      half.mul(totalTokens).mul(4).div(10).div(totalPoints)
+    );
+    expect(await accountant.pointOf(uids.trader1, era)).to.equal(
+      points.sub(half)
+    );
+    await expect(
+      member.exchange(stablecoin.address, era, uids.trader1, points)
+    ).to.be.revertedWith("InsufficientPoint");
+  });
+});
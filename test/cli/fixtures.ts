@@ -0,0 +1,214 @@
+/// deployments shared by cli tests, a fixture runs once and later loads revert the chain to its snapshot
+/// example
+/// const { engine, base, quote, trader1 } = await loadFixture(exchangeFixture);
+/// const { accountant, treasury, uids } = await loadFixture(revShareFixture);
+
+import { constants, Contract, utils } from "ethers";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+const snapshots = new Map<Function, { id: string; value: any }>();
+
+/// runs a fixture on first use and reverts to the state it left on every later use
+export async function loadFixture<T>(fixture: () => Promise<T>): Promise<T> {
+  const snapshot = snapshots.get(fixture);
+  // reverting to an earlier snapshot drops later ones, their fixtures run again
+  if (
+    snapshot !== undefined &&
+    (await ethers.provider.send("evm_revert", [snapshot.id]))
+  ) {
+    // a snapshot is consumed by its revert
+    snapshot.id = await ethers.provider.send("evm_snapshot", []);
+    return snapshot.value;
+  }
+  const value = await fixture();
+  snapshots.set(fixture, {
+    id: await ethers.provider.send("evm_snapshot", []),
+    value,
+  });
+  return value;
+}
+
+export interface ExchangeFixture {
+  deployer: SignerWithAddress;
+  trader1: SignerWithAddress;
+  trader2: SignerWithAddress;
+  engine: Contract;
+  factory: Contract;
+  treasury: Contract;
+  weth: Contract;
+  /// 18 decimals
+  base: Contract;
+  /// 18 decimals
+  quote: Contract;
+  /// 6 decimals quote asset
+  usdc: Contract;
+}
+
+/// MatchingEngine with its OrderbookFactory and Treasury as in OrderbookBaseSetup.sol,
+/// traders hold and approved every token, and base/quote and base/usdc are listed
+export async function exchangeFixture(): Promise<ExchangeFixture> {
+  const [deployer, trader1, trader2] = await ethers.getSigners();
+  const base = await (
+    await ethers.getContractFactory("MockBase")
+  ).deploy("Base", "BASE");
+  const quote = await (
+    await ethers.getContractFactory("MockQuote")
+  ).deploy("Quote", "QUOTE");
+  const usdc = await (
+    await ethers.getContractFactory("MockDecimals")
+  ).deploy("USD Coin", "USDC", 6);
+  const weth = await (await ethers.getContractFactory("WETH9")).deploy();
+
+  const engine = await (
+    await ethers.getContractFactory("MatchingEngine")
+  ).deploy();
+  const factory = await (
+    await ethers.getContractFactory("OrderbookFactory")
+  ).deploy();
+  await factory.initialize(engine.address);
+  const treasury = await (await ethers.getContractFactory("Treasury")).deploy();
+  await treasury.set(
+    constants.AddressZero,
+    constants.AddressZero,
+    constants.AddressZero
+  );
+  await engine.initialize(factory.address, treasury.address, weth.address);
+
+  for (const trader of [trader1, trader2]) {
+    for (const token of [base, quote, usdc]) {
+      const decimals = await token.decimals();
+      await token.mint(trader.address, utils.parseUnits("10000000", decimals));
+      await token.connect(trader).approve(engine.address, constants.MaxUint256);
+    }
+  }
+  await engine.addPair(base.address, quote.address);
+  await engine.addPair(base.address, usdc.address);
+
+  return {
+    deployer,
+    trader1,
+    trader2,
+    engine,
+    factory,
+    treasury,
+    weth,
+    base,
+    quote,
+    usdc,
+  };
+}
+
+/// blocks per era of revShareFixture, short enough to mine past in a test
+export const ERA_BLOCKS = 100;
+/// share of the early adopter uid over TreasuryLib.DENOM
+export const EARLY_ADOPTER_CLAIM = 100000;
+
+export interface FeeTierFixture extends ExchangeFixture {
+  foundation: SignerWithAddress;
+  membership: Contract;
+  sabt: Contract;
+  accountant: Contract;
+  /// pays registrations and subscriptions, listed against stablecoin
+  feeToken: Contract;
+  /// accountant converts reported amounts to points against it
+  stablecoin: Contract;
+  /// trader1 holds a level 1 uid and trader2 a level 2 uid, both subscribed.
+  /// the deployer holds the early adopter uid which claims and the foundation uid which settles
+  uids: {
+    trader1: number;
+    trader2: number;
+    earlyAdopter: number;
+    foundation: number;
+  };
+}
+
+/// Membership, SABT and BlockAccountant reporting fees of the exchange to Treasury as in ExchangeFeeTierSetup.sol,
+/// feeToken/stablecoin is listed and revenue share is off as BlockAccountant.initialize leaves it
+export async function feeTierFixture(): Promise<FeeTierFixture> {
+  const exchange = await exchangeFixture();
+  const { trader1, trader2, engine, treasury, weth } = exchange;
+  const [, , , foundation] = await ethers.getSigners();
+  const MockToken = await ethers.getContractFactory("MockToken");
+  const feeToken = await MockToken.deploy("Fee Token", "FEE");
+  const stablecoin = await MockToken.deploy("Stablecoin", "STBC");
+  const membership = await (
+    await ethers.getContractFactory("Membership")
+  ).deploy();
+  const sabt = await (await ethers.getContractFactory("SABT")).deploy();
+  const accountant = await (
+    await ethers.getContractFactory("BlockAccountant")
+  ).deploy();
+
+  await accountant.initialize(
+    membership.address,
+    engine.address,
+    stablecoin.address,
+    1
+  );
+  await accountant.setTreasury(treasury.address);
+  await treasury.set(membership.address, accountant.address, sabt.address);
+  await accountant.grantRole(
+    await accountant.REPORTER_ROLE(),
+    treasury.address
+  );
+  await treasury.grantRole(await treasury.REPORTER_ROLE(), engine.address);
+
+  await membership.initialize(sabt.address, foundation.address, weth.address);
+  await sabt.initialize(membership.address);
+  for (const level of [1, 2]) {
+    await membership.setMembership(level, feeToken.address, 1000, 1000, 10000);
+  }
+  await engine.addPair(feeToken.address, stablecoin.address);
+
+  for (const trader of [trader1, trader2]) {
+    for (const token of [feeToken, stablecoin]) {
+      await token.mint(trader.address, utils.parseEther("100000000"));
+      await token.connect(trader).approve(engine.address, constants.MaxUint256);
+      await token
+        .connect(trader)
+        .approve(membership.address, constants.MaxUint256);
+    }
+  }
+  // uids are minted in order from 1
+  await membership.connect(trader1).register(1, feeToken.address);
+  await membership.connect(trader2).register(2, feeToken.address);
+  // the admin registers without fees
+  await membership.register(9, feeToken.address);
+  await membership.register(10, feeToken.address);
+  const uids = { trader1: 1, trader2: 2, earlyAdopter: 3, foundation: 4 };
+  await membership
+    .connect(trader1)
+    .subscribe(uids.trader1, 10000, feeToken.address);
+  await membership
+    .connect(trader2)
+    .subscribe(uids.trader2, 10000, feeToken.address);
+  await treasury.setClaim(uids.earlyAdopter, EARLY_ADOPTER_CLAIM);
+  await treasury.setSettlement(uids.foundation);
+
+  return {
+    ...exchange,
+    foundation,
+    membership,
+    sabt,
+    accountant,
+    feeToken,
+    stablecoin,
+    uids,
+  };
+}
+
+/// feeTierFixture with revenue share on, eras last ERA_BLOCKS blocks
+export async function revShareFixture(): Promise<FeeTierFixture> {
+  const fx = await feeTierFixture();
+  await fx.accountant.setRevShare(true);
+  await fx.accountant.setEra(ERA_BLOCKS);
+  return fx;
+}
+
+/// mines blocks until the accountant is in an era, the next transaction is accounted in it or a later one
+export async function mineToEra(accountant: Contract, era: number) {
+  while ((await accountant.getCurrentEra()) < era) {
+    await ethers.provider.send("evm_mine", []);
+  }
+}
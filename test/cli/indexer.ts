@@ -0,0 +1,188 @@
+import { expect } from "chai";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+import {
+  EngineStore,
+  IndexedOrder,
+  createStore,
+  loadCheckpoint,
+  openOrders,
+  orderKey,
+  runIndexer,
+} from "../../cli/indexer";
+import { PairInfo, StandardClient } from "../../cli/sdk";
+import { ExchangeFixture, exchangeFixture, loadFixture } from "./fixtures";
+
+/// a few blocks per query so runs page through several batches
+const BATCH = 5;
+
+describe("engine indexer", () => {
+  let fx: ExchangeFixture;
+  let maker: StandardClient;
+  let taker: StandardClient;
+  let pair: PairInfo;
+  let chainId: number;
+  let dir: string;
+  let checkpoint: string;
+
+  beforeEach(async () => {
+    fx = await loadFixture(exchangeFixture);
+    maker = new StandardClient(fx.engine.connect(fx.trader1));
+    taker = new StandardClient(fx.engine.connect(fx.trader2));
+    pair = await taker.getPair(fx.base.address, fx.quote.address);
+    ({ chainId } = await ethers.provider.getNetwork());
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "indexer-"));
+    checkpoint = path.join(dir, `${chainId}.json`);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /// runs the indexer over a checkpoint, returns the store and the batches it queried
+  async function index(store?: EngineStore) {
+    const indexed =
+      store ?? (await loadCheckpoint(checkpoint, chainId, fx.engine.address));
+    const batches: number[][] = [];
+    const last = await runIndexer(fx.engine, indexed, {
+      batchSize: BATCH,
+      checkpoint,
+      onBatch: (from, to) => batches.push([from, to]),
+    });
+    return { store: indexed, last, batches };
+  }
+
+  function orderOf(store: EngineStore, isBid: boolean, id: number) {
+    return store.orders[orderKey(pair.orderbook, isBid, id)] as IndexedOrder;
+  }
+
+  it("resumes from the checkpoint and tracks orders, fills and accounts", async () => {
+    // asks rest at the head when priced above it, so they are placed from the highest price
+    const high = await maker.limitSell({
+      base: fx.base.address,
+      quote: fx.quote.address,
+      price: "1.02",
+      amount: "100",
+    });
+    const low = await maker.limitSell({
+      base: fx.base.address,
+      quote: fx.quote.address,
+      price: "1.01",
+      amount: "100",
+    });
+    const bid = await maker.limitBuy({
+      base: fx.base.address,
+      quote: fx.quote.address,
+      price: "1",
+      amount: "50",
+    });
+
+    const first = await index(createStore(chainId, fx.engine.address));
+    expect(first.last).to.equal(await ethers.provider.getBlockNumber());
+    expect(first.batches[0][0]).to.equal(0);
+    expect(first.batches.length).to.be.greaterThan(1);
+    expect(Object.keys(first.store.pairs)).to.have.members([
+      pair.orderbook.toLowerCase(),
+      (
+        await taker.getPair(fx.base.address, fx.usdc.address)
+      ).orderbook.toLowerCase(),
+    ]);
+    expect(
+      openOrders(first.store, fx.trader1.address).map((order) => order.id)
+    ).to.have.members([high.id, low.id, bid.id]);
+    expect(first.store.fills).to.deep.equal([]);
+
+    // before the first match, market buys take asks up to the spread over the mid price of both heads
+    const market = await taker.marketBuy({
+      base: fx.base.address,
+      quote: fx.quote.address,
+      amount: "50",
+    });
+    const cancel = await maker.cancelOrder({
+      base: fx.base.address,
+      quote: fx.quote.address,
+      isBid: false,
+      orderId: high.id,
+    });
+
+    // the second run loads what the first one checkpointed and only reads new blocks
+    const second = await index();
+    expect(second.batches[0][0]).to.equal(first.last + 1);
+    expect(second.last).to.equal(await ethers.provider.getBlockNumber());
+    expect(Object.keys(second.store.orders)).to.have.length(3);
+
+    const matched = market.events.filter(
+      (event) => event.name === "OrderMatched"
+    );
+    expect(matched).to.have.length(1);
+    expect(
+      second.store.fills.map((fill) => ({
+        id: fill.id,
+        isBid: fill.isBid,
+        sender: fill.sender,
+        owner: fill.owner,
+        price: fill.price,
+        amount: fill.amount,
+        txHash: fill.txHash,
+      }))
+    ).to.deep.equal([
+      {
+        id: low.id,
+        isBid: true,
+        sender: fx.trader2.address,
+        owner: fx.trader1.address,
+        price: matched[0].args.price.toString(),
+        amount: matched[0].args.amount.toString(),
+        txHash: market.tx!.hash,
+      },
+    ]);
+
+    // the partially filled ask keeps what the engine still holds
+    const onChain = await fx.engine.getOrder(
+      fx.base.address,
+      fx.quote.address,
+      false,
+      low.id
+    );
+    expect(orderOf(second.store, false, low.id).remaining).to.equal(
+      onChain.depositAmount.toString()
+    );
+    expect(orderOf(second.store, false, high.id)).to.include({
+      status: "canceled",
+      remaining: "0",
+    });
+    expect(
+      openOrders(second.store, fx.trader1.address).map((order) => order.id)
+    ).to.have.members([low.id, bid.id]);
+
+    const history = (account: string) =>
+      second.store.accounts[account.toLowerCase()]
+        .filter((entry) => entry.event !== "OrderDeposit")
+        .map((entry) => [entry.event, entry.id, entry.txHash]);
+    expect(history(fx.trader1.address)).to.deep.equal([
+      ["OrderPlaced", high.id, high.tx!.hash],
+      ["OrderPlaced", low.id, low.tx!.hash],
+      ["OrderPlaced", bid.id, bid.tx!.hash],
+      ["OrderMatched", low.id, market.tx!.hash],
+      ["OrderCanceled", high.id, cancel.tx!.hash],
+    ]);
+    expect(history(fx.trader2.address)).to.deep.equal([
+      ["OrderMatched", low.id, market.tx!.hash],
+    ]);
+  });
+
+  it("refuses to index blocks again over a checkpoint", async () => {
+    const { last } = await index(createStore(chainId, fx.engine.address));
+    const store = await loadCheckpoint(checkpoint, chainId, fx.engine.address);
+    expect(store.lastBlock).to.equal(last);
+    let refused: Error | undefined;
+    try {
+      await runIndexer(fx.engine, store, { fromBlock: last });
+    } catch (e) {
+      refused = e as Error;
+    }
+    expect(refused?.message).to.match(/already indexed/);
+  });
+});
@@ -0,0 +1,249 @@
+import { expect } from "chai";
+import { BigNumber, Contract } from "ethers";
+import { network } from "hardhat";
+import {
+  MarketQuote,
+  OrderResult,
+  PairInfo,
+  quoteMarket,
+  StandardClient,
+} from "../../cli/sdk";
+import { ExchangeFixture, exchangeFixture, loadFixture } from "./fixtures";
+
+interface Placement {
+  price: string;
+  amount: string;
+}
+
+/// fills of a quote and OrderMatched events of an order in the same shape
+function fillsOf(quote: MarketQuote) {
+  return quote.fills.map((fill) => ({
+    id: fill.id,
+    price: fill.price.toString(),
+    amount: fill.given.toString(),
+  }));
+}
+
+function matchesOf(result: OrderResult) {
+  return result.events
+    .filter((event) => event.name === "OrderMatched")
+    .map((event) => ({
+      id: event.args.id.toNumber(),
+      price: event.args.price.toString(),
+      amount: event.args.amount.toString(),
+    }));
+}
+
+describe("market order quotes", () => {
+  let fx: ExchangeFixture;
+  let maker: StandardClient;
+  let taker: StandardClient;
+  let pair: PairInfo;
+
+  beforeEach(async () => {
+    fx = await loadFixture(exchangeFixture);
+    maker = new StandardClient(fx.engine.connect(fx.trader1));
+    taker = new StandardClient(fx.engine.connect(fx.trader2));
+    pair = await taker.getPair(fx.base.address, fx.quote.address);
+  });
+
+  /// limitSell rests above the ask head at the head, so asks are placed from the highest price
+  async function placeAsks(asks: Placement[], quote = fx.quote) {
+    for (const ask of asks) {
+      await maker.limitSell({
+        base: fx.base.address,
+        quote: quote.address,
+        ...ask,
+      });
+    }
+  }
+
+  async function placeBids(bids: Placement[]) {
+    for (const bid of bids) {
+      await maker.limitBuy({
+        base: fx.base.address,
+        quote: fx.quote.address,
+        ...bid,
+      });
+    }
+  }
+
+  /// quotes a market order of trader2, sends it and checks the quote against the execution
+  async function quoteAndExecute(
+    target: PairInfo,
+    isBid: boolean,
+    amount: string,
+    options: { n?: number; isMaker?: boolean } = {}
+  ) {
+    const quote = await quoteMarket(taker, target, {
+      isBid,
+      amount: taker.parseAmount(target, amount, isBid),
+      ...options,
+    });
+    const tokenAt = (address: string) => fx.base.attach(address) as Contract;
+    const received = tokenAt(isBid ? target.base : target.quote);
+    const deposit = tokenAt(isBid ? target.quote : target.base);
+    const [receivedBefore, depositBefore, feeBefore] = await Promise.all([
+      received.balanceOf(fx.trader2.address),
+      deposit.balanceOf(fx.trader2.address),
+      deposit.balanceOf(fx.treasury.address),
+    ]);
+    const order = {
+      base: target.base,
+      quote: target.quote,
+      amount,
+      ...options,
+    };
+    const result = isBid
+      ? await taker.marketBuy(order)
+      : await taker.marketSell(order);
+    const [receivedAfter, depositAfter, feeAfter] = await Promise.all([
+      received.balanceOf(fx.trader2.address),
+      deposit.balanceOf(fx.trader2.address),
+      deposit.balanceOf(fx.treasury.address),
+    ]);
+
+    expect(matchesOf(result)).to.deep.equal(fillsOf(quote));
+    expect(receivedAfter.sub(receivedBefore)).to.equal(quote.received);
+    expect(feeAfter.sub(feeBefore)).to.equal(quote.fee);
+    expect(depositBefore.sub(depositAfter)).to.equal(
+      quote.amount.sub(quote.refunded)
+    );
+    expect(result.placed).to.equal(quote.remaining);
+    expect(result.makePrice).to.equal(quote.makePrice);
+    if (quote.placed.gt(0)) {
+      const made = await fx.engine.getOrder(
+        target.base,
+        target.quote,
+        isBid,
+        result.id
+      );
+      expect(made.depositAmount).to.equal(quote.placed);
+      expect(made.price).to.equal(quote.makePrice);
+    }
+    return { quote, result };
+  }
+
+  it("walks ask levels and partially fills the last order", async () => {
+    await placeAsks([
+      { price: "1.01", amount: "100" },
+      { price: "1.01", amount: "100" },
+      { price: "1", amount: "100" },
+    ]);
+    const { quote } = await quoteAndExecute(pair, true, "250");
+    expect(quote.fills.map((fill) => fill.cleared)).to.deep.equal([
+      true,
+      true,
+      false,
+    ]);
+    expect(quote.remaining).to.equal(0);
+    expect(quote.bestPrice).to.equal(taker.parsePrice("1"));
+    expect(quote.slippageBps).to.be.greaterThan(0);
+  });
+
+  it("stops at the market spread and rests the rest at the limit price", async () => {
+    await placeAsks([
+      { price: "1.06", amount: "100" },
+      { price: "1.01", amount: "100" },
+      { price: "1", amount: "100" },
+    ]);
+    const { quote } = await quoteAndExecute(pair, true, "1000");
+    // default market spread of 5% from the ask head
+    expect(quote.limitPrice).to.equal(taker.parsePrice("1.05"));
+    expect(quote.fills).to.have.length(2);
+    expect(quote.makePrice).to.equal(quote.limitPrice);
+    expect(quote.placed).to.equal(quote.remaining);
+  });
+
+  it("sends the rest back without a maker order", async () => {
+    await placeAsks([{ price: "1", amount: "100" }]);
+    const { quote } = await quoteAndExecute(pair, true, "1000", {
+      isMaker: false,
+    });
+    expect(quote.placed).to.equal(0);
+    expect(quote.refunded).to.equal(quote.remaining);
+    expect(quote.refunded).to.be.gt(0);
+  });
+
+  it("honors the match limit n", async () => {
+    await placeAsks([
+      { price: "1.01", amount: "100" },
+      { price: "1.01", amount: "100" },
+      { price: "1", amount: "100" },
+    ]);
+    const { quote } = await quoteAndExecute(pair, true, "1000", { n: 2 });
+    expect(quote.fills).to.have.length(2);
+    // the head still holds an order when matching stops, so the rest is made there
+    expect(quote.makePrice).to.equal(taker.parsePrice("1.01"));
+  });
+
+  it("walks bid levels on sells", async () => {
+    // limitBuy rests below the bid head at the head, so bids are placed from the lowest price
+    await placeBids([
+      { price: "0.99", amount: "100" },
+      { price: "1", amount: "100" },
+    ]);
+    const { quote } = await quoteAndExecute(pair, false, "150");
+    expect(quote.fills).to.have.length(2);
+    expect(quote.averagePrice!.lt(quote.bestPrice!)).to.equal(true);
+  });
+
+  it("rests sells without matching once the pair has matched", async () => {
+    await placeAsks([{ price: "1", amount: "100" }]);
+    await quoteAndExecute(pair, true, "50");
+    await placeBids([{ price: "0.99", amount: "100" }]);
+    const { quote } = await quoteAndExecute(pair, false, "50");
+    // the sell limit is above (10000 + spread) / 10000, so _limitOrder returns before matching
+    expect(quote.outOfSpread).to.equal(true);
+    expect(quote.fills).to.have.length(0);
+    expect(quote.makePrice).to.equal(taker.parsePrice("0.99"));
+    expect(quote.placed).to.equal(quote.amount.sub(quote.fee));
+  });
+
+  it("converts between assets of different decimals", async () => {
+    const usdcPair = await taker.getPair(fx.base.address, fx.usdc.address);
+    await placeAsks(
+      [
+        { price: "2.51", amount: "10" },
+        { price: "2.5", amount: "10" },
+      ],
+      fx.usdc
+    );
+    const { quote } = await quoteAndExecute(usdcPair, true, "40");
+    expect(quote.fills).to.have.length(2);
+    expect(quote.received.gt(BigNumber.from(0))).to.equal(true);
+  });
+
+  it("flags TooManyMatches when n is above the engine limit", async () => {
+    await placeAsks([{ price: "1", amount: "100" }]);
+    const quote = await quoteMarket(taker, pair, {
+      isBid: true,
+      amount: taker.parseAmount(pair, "50", true),
+      n: 21,
+    });
+    expect(quote.tooManyMatches).to.equal(true);
+    expect(quote.fills).to.have.length(0);
+    const tx = await fx.engine
+      .connect(fx.trader2)
+      .populateTransaction.marketBuy(
+        pair.base,
+        pair.quote,
+        quote.amount,
+        true,
+        21,
+        0,
+        fx.trader2.address
+      );
+    // ethers overflows its stack walking the error hardhat returns for this revert, so the provider is called directly
+    let reverted: Error | undefined;
+    try {
+      await network.provider.request({
+        method: "eth_call",
+        params: [{ from: fx.trader2.address, to: tx.to, data: tx.data }],
+      });
+    } catch (e) {
+      reverted = e as Error;
+    }
+    expect(reverted?.message).to.match(/TooManyMatches/);
+  });
+});
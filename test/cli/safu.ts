@@ -0,0 +1,245 @@
+import { expect } from "chai";
+import { Contract, utils } from "ethers";
+import hre, { ethers, network } from "hardhat";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { BondPosition, predictBondAddress } from "../../cli/safu";
+import { StandardClient } from "../../cli/sdk";
+import { exchangeFixture, loadFixture } from "./fixtures";
+
+/// storage of NetworkState.sol, Initializable takes slot 0 and NetworkStateLibrary.State starts at slot 1
+const STATE_SLOTS = { supply: 1, count: 2, gov: 5, impl: 11 };
+/// storage of Bond.sol in declaration order
+const BOND_SLOTS = {
+  state: 0,
+  debt: 1,
+  coupon: 2,
+  collateral: 3,
+  id: 4,
+  borrow: 5,
+};
+const MCR = 150;
+const BORROW = utils.parseEther("100");
+
+interface SafuFixture {
+  deployer: SignerWithAddress;
+  /// sells BASE in trades
+  maker: StandardClient;
+  /// buys BASE in trades
+  taker: StandardClient;
+  state: Contract;
+  /// collateral of the bond, 18 decimals
+  base: Contract;
+  /// currency of NetworkState, 18 decimals
+  quote: Contract;
+  /// bond 0 holding 1 BASE against 100 QUOTE, owned by the deployer
+  bond: string;
+}
+
+function word(value: string | number) {
+  return utils.hexZeroPad(utils.hexlify(value), 32);
+}
+
+async function setStorage(
+  address: string,
+  slot: number,
+  value: string | number
+) {
+  await network.provider.send("hardhat_setStorageAt", [
+    address,
+    utils.hexValue(slot),
+    word(value),
+  ]);
+}
+
+/// NetworkState over the exchange fixture with a CDP for BASE and bond 0 in place, BASE has no orders yet
+async function safuFixture(): Promise<SafuFixture> {
+  const { deployer, trader1, trader2, engine, weth, base, quote } =
+    await loadFixture(exchangeFixture);
+  const library = await (
+    await ethers.getContractFactory("NetworkStateLibrary")
+  ).deploy();
+  const state = await (
+    await ethers.getContractFactory("NetworkState", {
+      libraries: { NetworkStateLibrary: library.address },
+    })
+  ).deploy();
+  const impl = await (await ethers.getContractFactory("MockBond")).deploy();
+  const coupon = await (
+    await ethers.getContractFactory("Coupon")
+  ).deploy(state.address);
+  // NetworkState has no setter for gov, impl and supply, so they are written to its storage
+  await setStorage(state.address, STATE_SLOTS.gov, deployer.address);
+  await setStorage(state.address, STATE_SLOTS.impl, impl.address);
+  await setStorage(
+    state.address,
+    STATE_SLOTS.supply,
+    utils.parseEther("1000000").toHexString()
+  );
+  await state.initialize(
+    coupon.address,
+    quote.address,
+    engine.address,
+    weth.address
+  );
+  await hre.run("safu:set-cdp", {
+    state: state.address,
+    collateral: base.address,
+    mcr: MCR,
+    rfr: 1,
+    lfr: 5,
+  });
+
+  // NetworkState initializes clones with an IBond.initialize Bond does not have, and Bond.liquidate
+  // calls getters NetworkState does not have, so bond 0 is a MockBond clone placed where NetworkState
+  // predicts it with the storage initialize would set
+  const bond = predictBondAddress(
+    state.address,
+    impl.address,
+    base.address,
+    quote.address,
+    0
+  );
+  await network.provider.send("hardhat_setCode", [
+    bond,
+    utils.hexConcat([
+      "0x363d3d373d3d3d363d73",
+      impl.address,
+      "0x5af43d82803e903d91602b57fd5bf3",
+    ]),
+  ]);
+  await setStorage(bond, BOND_SLOTS.state, state.address);
+  await setStorage(bond, BOND_SLOTS.debt, quote.address);
+  await setStorage(bond, BOND_SLOTS.coupon, coupon.address);
+  await setStorage(bond, BOND_SLOTS.collateral, base.address);
+  await setStorage(bond, BOND_SLOTS.id, 0);
+  await setStorage(bond, BOND_SLOTS.borrow, BORROW.toHexString());
+  await setStorage(state.address, STATE_SLOTS.count, 1);
+  await base.mint(bond, utils.parseEther("1"));
+  await coupon.mint(deployer.address, 0);
+
+  return {
+    deployer,
+    maker: new StandardClient(engine.connect(trader2)),
+    taker: new StandardClient(engine.connect(trader1)),
+    state,
+    base,
+    quote,
+    bond,
+  };
+}
+
+describe("safu:watch", () => {
+  let fx: SafuFixture;
+
+  beforeEach(async () => {
+    fx = await loadFixture(safuFixture);
+  });
+
+  /// matches half of an ask of one BASE at a price, which becomes the market price of BASE
+  /// as the rest of the ask is the lowest ask. prices only go down from the first trade.
+  async function tradeAt(price: string) {
+    const pair = { base: fx.base.address, quote: fx.quote.address };
+    // once BASE has traded, asks rest at their price only above the bid head
+    await fx.taker.limitBuy({ ...pair, price: "100", amount: "100" });
+    await fx.maker.limitSell({ ...pair, price, amount: "1" });
+    const { events } = await fx.taker.limitBuy({
+      ...pair,
+      price,
+      amount: String(Number(price) / 2),
+    });
+    expect(events.some((event) => event.name === "OrderMatched")).to.equal(
+      true
+    );
+  }
+
+  /// one round of safu:watch, console output is collected
+  async function watch(liquidate = false, price?: string) {
+    const logs: string[] = [];
+    const { log, table } = console;
+    console.log = (...args: any[]) => logs.push(args.join(" "));
+    console.table = () => undefined;
+    try {
+      const result: { positions: BondPosition[]; liquidated: number[] } =
+        await hre.run("safu:watch", {
+          state: fx.state.address,
+          collaterals: fx.base.address,
+          rounds: 1,
+          prices:
+            price === undefined ? undefined : `${fx.base.address}=${price}`,
+          liquidate,
+        });
+      return { ...result, logs };
+    } finally {
+      console.log = log;
+      console.table = table;
+    }
+  }
+
+  it("finds the bond with its owner, collateral and debt", async () => {
+    await tradeAt("200");
+    const { positions } = await watch();
+    expect(positions).to.have.length(1);
+    const [position] = positions;
+    expect(position.bond).to.equal(fx.bond);
+    expect(position.owner).to.equal(fx.deployer.address);
+    expect(position.symbol).to.equal("BASE");
+    expect(position.cAmount).to.equal(utils.parseEther("1"));
+    // getDebt reverts without stability fees in NetworkState, the borrowed amount is shown
+    expect(position.debt).to.equal(BORROW);
+    expect(position.value).to.equal(utils.parseEther("200"));
+    expect(position.mcr).to.equal(MCR);
+  });
+
+  it("classifies the bond as the price moves across mcr", async () => {
+    const statuses: { [price: string]: string } = {};
+    for (const price of ["200", "170", "160", "150", "149.99"]) {
+      await tradeAt(price);
+      const { positions } = await watch();
+      statuses[price] = positions[0].status;
+    }
+    // warnings start 10 percent above mcr, the bond is liquidatable below it
+    expect(statuses).to.deep.equal({
+      "200": "safe",
+      "170": "safe",
+      "160": "warning",
+      "150": "warning",
+      "149.99": "liquidatable",
+    });
+  });
+
+  it("flags bonds without a market price", async () => {
+    const { positions } = await watch();
+    expect(positions[0].price).to.equal(0);
+    expect(positions[0].status).to.equal("no price");
+  });
+
+  it("liquidates bonds below mcr at the market price", async () => {
+    await tradeAt("160");
+    const safe = await watch(true);
+    expect(safe.positions[0].status).to.equal("warning");
+    expect(safe.liquidated).to.deep.equal([]);
+    expect(await ethers.provider.getCode(fx.bond)).to.not.equal("0x");
+
+    await tradeAt("140");
+    const held = await fx.base.balanceOf(fx.deployer.address);
+    const below = await watch(true);
+    expect(below.positions[0].status).to.equal("liquidatable");
+    expect(below.liquidated).to.deep.equal([0]);
+    expect(await ethers.provider.getCode(fx.bond)).to.equal("0x");
+    expect(await fx.base.balanceOf(fx.deployer.address)).to.equal(
+      held.add(utils.parseEther("1"))
+    );
+  });
+
+  it("does not liquidate at replaced prices", async () => {
+    await tradeAt("200");
+    let refused: Error | undefined;
+    try {
+      await watch(true, "140");
+    } catch (e) {
+      refused = e as Error;
+    }
+    expect(refused?.message).to.match(/--prices only changes/);
+    expect(await ethers.provider.getCode(fx.bond)).to.not.equal("0x");
+  });
+});
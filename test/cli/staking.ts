@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { BigNumber, Contract, utils } from "ethers";
+import { ethers, network } from "hardhat";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import {
+  planReward,
+  poolContract,
+  PoolRef,
+  POOL_ARTIFACT,
+  readPool,
+  RewardSchedule,
+} from "../../cli/staking";
+import { exchangeFixture, loadFixture } from "./fixtures";
+
+const DAY = 86400;
+const REWARD = utils.parseEther("30000");
+
+interface StakingFixture {
+  deployer: SignerWithAddress;
+  ref: PoolRef;
+  starttime: number;
+}
+
+/// pool paying BASE for staked QUOTE from a day after its deployment, funded for two rewards
+async function stakingFixture(): Promise<StakingFixture> {
+  const { deployer, base, quote } = await loadFixture(exchangeFixture);
+  const { timestamp } = await ethers.provider.getBlock("latest");
+  const starttime = timestamp + DAY;
+  const pool = await (
+    await ethers.getContractFactory(POOL_ARTIFACT)
+  ).deploy(base.address, quote.address, starttime);
+  await base.mint(pool.address, REWARD.mul(2));
+  return {
+    deployer,
+    ref: {
+      name: "StakingPool",
+      pool: poolContract(pool.address, deployer),
+      reward: base,
+      input: quote,
+    },
+    starttime,
+  };
+}
+
+async function increaseTo(timestamp: number) {
+  await network.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+  await network.provider.send("evm_mine", []);
+}
+
+describe("staking pools", () => {
+  let fx: StakingFixture;
+
+  beforeEach(async () => {
+    fx = await loadFixture(stakingFixture);
+  });
+
+  /// plans a reward on the state before notifying it, at the timestamp the notify is mined at
+  async function notify(reward: BigNumber): Promise<RewardSchedule> {
+    const state = await readPool(fx.ref);
+    const receipt = await (await fx.ref.pool.notifyRewardAmount(reward)).wait();
+    const { timestamp } = await ethers.provider.getBlock(receipt.blockNumber);
+    return planReward(state, reward, timestamp);
+  }
+
+  async function expectOnChain(pool: Contract, schedule: RewardSchedule) {
+    expect(await pool.rewardRate()).to.equal(schedule.rewardRate);
+    expect((await pool.periodFinish()).toNumber()).to.equal(
+      schedule.periodFinish
+    );
+  }
+
+  it("schedules the period from starttime before it", async () => {
+    const schedule = await notify(REWARD);
+    expect(schedule.start).to.equal(fx.starttime);
+    expect(schedule.shortfall.isZero()).to.be.true;
+    await expectOnChain(fx.ref.pool, schedule);
+  });
+
+  it("replaces the scheduled period before starttime", async () => {
+    await notify(REWARD);
+    const schedule = await notify(REWARD);
+    expect(schedule.leftover.isZero()).to.be.true;
+    await expectOnChain(fx.ref.pool, schedule);
+  });
+
+  it("rolls the leftover of a running period into the next", async () => {
+    await increaseTo(fx.starttime + DAY);
+    const first = await notify(REWARD);
+    const duration = first.periodFinish - first.start;
+    await increaseTo(first.start + duration / 2);
+    const schedule = await notify(REWARD);
+    expect(schedule.leftover.gt(0)).to.be.true;
+    expect(schedule.start).to.be.greaterThan(first.start);
+    await expectOnChain(fx.ref.pool, schedule);
+    // nothing is staked, so the pool still holds both rewards
+    expect(schedule.shortfall.isZero()).to.be.true;
+  });
+
+  it("reports the reward the pool lacks", async () => {
+    const schedule = await notify(REWARD.mul(3));
+    expect(schedule.shortfall).to.equal(REWARD);
+    await expectOnChain(fx.ref.pool, schedule);
+  });
+});
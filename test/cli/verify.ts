@@ -0,0 +1,131 @@
+import { expect } from "chai";
+import fs from "fs/promises";
+import http from "http";
+import { AddressInfo } from "net";
+import { ethers } from "hardhat";
+import hre from "hardhat";
+import { createAddressBook } from "../../cli/helper";
+import {
+  collectTargets,
+  Explorer,
+  verifyCacheFile,
+  verifyTargets,
+} from "../../cli/verify";
+
+/// etherscan compatible API which knows the sources of `verified` and accepts every proxy
+function mockExplorer(verified: Set<string>) {
+  const requests: Record<string, string>[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const url = new URL(req.url!, "http://localhost");
+      const params = Object.fromEntries(
+        new URLSearchParams(body || url.search).entries()
+      );
+      requests.push(params);
+      let result: any;
+      if (params.action === "getsourcecode") {
+        const known = verified.has(params.address.toLowerCase());
+        result = [{ SourceCode: known ? "contract Source {}" : "" }];
+      } else if (params.action === "verifyproxycontract") {
+        verified.add(params.address.toLowerCase());
+        result = `guid-${params.address}`;
+      } else {
+        result = "The proxy's implementation contract is successfully updated.";
+      }
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify({ status: "1", message: "OK", result }));
+    });
+  });
+  return { server, requests };
+}
+
+describe("verify:all pipeline", () => {
+  const verified = new Set<string>();
+  const { server, requests } = mockExplorer(verified);
+  let explorer: Explorer;
+  let chainId: number;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    explorer = new Explorer({ apiUrl: `http://127.0.0.1:${port}/api` });
+    chainId = (await ethers.provider.getNetwork()).chainId;
+    await fs.rm(verifyCacheFile(hre, chainId), { force: true });
+  });
+
+  after(async () => {
+    server.close();
+    await fs.rm(verifyCacheFile(hre, chainId), { force: true });
+  });
+
+  it("verifies address book entries and links orderbook clones", async () => {
+    const [deployer] = await ethers.getSigners();
+    const Token = await ethers.getContractFactory("MockToken");
+    const base = await Token.deploy("Base", "BASE");
+    const quote = await Token.deploy("Quote", "QUOTE");
+    const Factory = await ethers.getContractFactory("OrderbookFactory");
+    const factory = await Factory.deploy();
+    // the deployer acts as engine so it can create books
+    await factory.initialize(deployer.address);
+    await factory.createBook(base.address, quote.address);
+    const impl = await factory.impl();
+    const clone = await factory.getBook(0);
+    for (const address of [
+      base.address,
+      quote.address,
+      factory.address,
+      impl,
+    ]) {
+      verified.add(address.toLowerCase());
+    }
+
+    const book = createAddressBook(chainId);
+    book.contracts = {
+      Base: {
+        address: base.address,
+        artifact: "MockToken",
+        args: ["Base", "BASE"],
+      },
+      Quote: { address: quote.address, artifact: "MockToken" },
+      OrderbookFactory: {
+        address: factory.address,
+        artifact: "OrderbookFactory",
+      },
+      Legacy: { address: deployer.address },
+    };
+    const { targets, results } = await collectTargets(hre, book);
+    expect(results.map((r) => [r.name, r.status])).to.deep.equal([
+      ["Quote", "skipped"],
+      ["Legacy", "skipped"],
+    ]);
+    expect(targets.map((t) => t.name)).to.deep.equal([
+      "Base",
+      "OrderbookFactory",
+      "OrderbookFactory.impl",
+      "OrderbookFactory.books[0]",
+    ]);
+    expect(targets[2].contract).to.equal(
+      "contracts/exchange/orderbooks/Orderbook.sol:Orderbook"
+    );
+
+    const first = await verifyTargets(hre, chainId, targets, { explorer });
+    expect(first.map((r) => r.status)).to.deep.equal([
+      "already verified",
+      "already verified",
+      "already verified",
+      "linked",
+    ]);
+    const link = requests.find((r) => r.action === "verifyproxycontract")!;
+    expect(link.address.toLowerCase()).to.equal(clone.toLowerCase());
+    expect(link.expectedimplementation.toLowerCase()).to.equal(
+      impl.toLowerCase()
+    );
+
+    const sent = requests.length;
+    const second = await verifyTargets(hre, chainId, targets, { explorer });
+    expect(second.every((r) => r.status === "cached")).to.equal(true);
+    expect(requests.length).to.equal(sent);
+  });
+});
@@ -1,3 +1,3 @@
-export * from "./address_bidOrdersook";
+export * from "./address_book";
 export * from "./transactions";
 export * from "./constants";
@@ -30,11 +30,15 @@ export async function deployContract(
 ) {
   const chainId = (await deploy.provider.getNetwork()).chainId;
   // Get network from chain ID
-  let chain = ChainId[chainId];
+  let chain = ChainId[chainId] ?? chainId;
   console.log(`${contract} address at Chain Id of ${chain}:`, deploy.address);
-  console.log(`Mining at ${deploy.hash}...`);
-  await deploy.deployed();
-  await recordAddress(contract, chain, deploy.address);
+  console.log(`Mining at ${deploy.deployTransaction.hash}...`);
+  const receipt = await deploy.deployTransaction.wait();
+  await recordAddress(contract, chainId, deploy.address, {
+    txHash: receipt.transactionHash,
+    block: receipt.blockNumber,
+    deployer: receipt.from,
+  });
 }
 export async function executeFrom(ethers: any, deployer: any, func: any) {
   // Get before state